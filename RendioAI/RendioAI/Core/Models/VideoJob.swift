@@ -30,6 +30,7 @@ struct VideoJob: Identifiable, Codable {
         case processing = "processing"
         case completed = "completed"
         case failed = "failed"
+        case cancelled = "cancelled"
     }
     
     // MARK: - CodingKeys
@@ -63,6 +64,10 @@ struct VideoJob: Identifiable, Codable {
         status == .failed
     }
     
+    var isCancelled: Bool {
+        status == .cancelled
+    }
+    
     // MARK: - Date Decoding
     
     init(from decoder: Decoder) throws {
@@ -274,6 +274,31 @@ class AuthService: NSObject, AuthServiceProtocol {
         return accessToken
     }
 
+    /// Sends a request to a protected Edge Function as the signed-in user
+    /// Authorization carries the user's access token; apikey stays the anon key.
+    /// On HTTP 401 the token is refreshed and the request retried ONCE.
+    /// - Returns: Data and response of the last attempt
+    /// - Throws: AppError.unauthorized if no token is available or refresh fails
+    nonisolated func authorizedData(
+        for request: URLRequest,
+        session: URLSession = .shared
+    ) async throws -> (Data, URLResponse) {
+        var request = request
+        let accessToken = try await getValidAccessToken()
+        request.setValue("Bearer \(accessToken)", forHTTPHeaderField: "Authorization")
+        request.setValue(AppConfig.supabaseAnonKey, forHTTPHeaderField: "apikey")
+
+        let (data, response) = try await session.data(for: request)
+        guard (response as? HTTPURLResponse)?.statusCode == 401 else {
+            return (data, response)
+        }
+
+        print("⚠️ AuthService: HTTP 401 from \(request.url?.path ?? "unknown") - refreshing token and retrying...")
+        let refreshedToken = try await refreshAccessToken()
+        request.setValue("Bearer \(refreshedToken)", forHTTPHeaderField: "Authorization")
+        return try await session.data(for: request)
+    }
+
     /// Refreshes token in background if needed (safe for app launch)
     /// Does not throw - logs errors instead
     nonisolated func refreshTokenIfNeeded(bufferMinutes: Int = 10) async {
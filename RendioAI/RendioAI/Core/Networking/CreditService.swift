@@ -18,7 +18,6 @@ class CreditService: CreditServiceProtocol {
     static let shared = CreditService()
 
     private var baseURL: String { AppConfig.supabaseURL }
-    private var anonKey: String { AppConfig.supabaseAnonKey }
     private let session: URLSession
     
     init(session: URLSession = .shared) {
@@ -40,11 +39,9 @@ class CreditService: CreditServiceProtocol {
         
         var request = URLRequest(url: url)
         request.httpMethod = "GET"
-        request.setValue("Bearer \(anonKey)", forHTTPHeaderField: "Authorization")
-        request.setValue(anonKey, forHTTPHeaderField: "apikey")
         request.setValue("application/json", forHTTPHeaderField: "Content-Type")
         
-        let (data, response) = try await session.data(for: request)
+        let (data, response) = try await AuthService.shared.authorizedData(for: request, session: session)
         
         guard let httpResponse = response as? HTTPURLResponse else {
             print("❌ CreditService: Invalid response type")
@@ -92,8 +89,6 @@ class CreditService: CreditServiceProtocol {
 
         var request = URLRequest(url: url)
         request.httpMethod = "POST"
-        request.setValue("Bearer \(anonKey)", forHTTPHeaderField: "Authorization")
-        request.setValue(anonKey, forHTTPHeaderField: "apikey")
         request.setValue("application/json", forHTTPHeaderField: "Content-Type")
 
         // Request body: { "user_id": "uuid", "transaction_id": "apple-transaction-id" }
@@ -105,7 +100,7 @@ class CreditService: CreditServiceProtocol {
         let encoder = JSONEncoder()
         request.httpBody = try encoder.encode(body)
 
-        let (data, response) = try await session.data(for: request)
+        let (data, response) = try await AuthService.shared.authorizedData(for: request, session: session)
 
         guard let httpResponse = response as? HTTPURLResponse else {
             print("❌ CreditService: Invalid response type")
@@ -16,7 +16,6 @@ class HistoryService: HistoryServiceProtocol {
     static let shared = HistoryService()
     
     private var baseURL: String { AppConfig.supabaseURL }
-    private var anonKey: String { AppConfig.supabaseAnonKey }
     private let session: URLSession
     
     init(session: URLSession = .shared) {
@@ -52,11 +51,9 @@ class HistoryService: HistoryServiceProtocol {
         
         var request = URLRequest(url: url)
         request.httpMethod = "GET"
-        request.setValue("Bearer \(anonKey)", forHTTPHeaderField: "Authorization")
-        request.setValue(anonKey, forHTTPHeaderField: "apikey")
         request.setValue("application/json", forHTTPHeaderField: "Content-Type")
         
-        let (data, response) = try await session.data(for: request)
+        let (data, response) = try await AuthService.shared.authorizedData(for: request, session: session)
         
         guard let httpResponse = response as? HTTPURLResponse else {
             print("❌ HistoryService: Invalid response type")
@@ -106,8 +103,6 @@ class HistoryService: HistoryServiceProtocol {
         
         var request = URLRequest(url: url)
         request.httpMethod = "POST"
-        request.setValue("Bearer \(anonKey)", forHTTPHeaderField: "Authorization")
-        request.setValue(anonKey, forHTTPHeaderField: "apikey")
         request.setValue("application/json", forHTTPHeaderField: "Content-Type")
         
         struct DeleteRequest: Codable {
@@ -118,7 +113,7 @@ class HistoryService: HistoryServiceProtocol {
         let body = DeleteRequest(job_id: jobId, user_id: userId)
         request.httpBody = try JSONEncoder().encode(body)
         
-        let (data, response) = try await session.data(for: request)
+        let (data, response) = try await AuthService.shared.authorizedData(for: request, session: session)
         
         guard let httpResponse = response as? HTTPURLResponse else {
             print("❌ HistoryService: Invalid response type")
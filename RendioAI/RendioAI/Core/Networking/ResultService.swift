@@ -50,7 +50,6 @@ class ResultService: ResultServiceProtocol {
     static let shared = ResultService()
 
     private var baseURL: String { AppConfig.supabaseURL }
-    private var anonKey: String { AppConfig.supabaseAnonKey }
     private let session: URLSession
     private let supabaseClient: SupabaseClient
 
@@ -79,11 +78,9 @@ class ResultService: ResultServiceProtocol {
         
         var request = URLRequest(url: url)
         request.httpMethod = "GET"
-        request.setValue("Bearer \(anonKey)", forHTTPHeaderField: "Authorization")
-        request.setValue(anonKey, forHTTPHeaderField: "apikey")
         request.setValue("application/json", forHTTPHeaderField: "Content-Type")
         
-        let (data, response) = try await session.data(for: request)
+        let (data, response) = try await AuthService.shared.authorizedData(for: request, session: session)
         
         guard let httpResponse = response as? HTTPURLResponse else {
             print("❌ ResultService: Invalid response type")
@@ -178,8 +175,8 @@ class ResultService: ResultServiceProtocol {
 
             p5log("[P5][ResultService][Poll][ATTEMPT] #\(attempt + 1) status=\(job.status.rawValue) nextWait=\(Int(interval))s")
 
-            // Check if job is completed or failed
-            if job.isCompleted || job.isFailed {
+            // Check if job is completed, failed or cancelled
+            if job.isCompleted || job.isFailed || job.isCancelled {
                 p5log("[P5][ResultService][Poll][OK] job_id=\(jobId) status=\(job.status.rawValue) totalMs=\(timer.ms())")
                 return job
             }
@@ -246,8 +243,8 @@ class ResultService: ResultServiceProtocol {
                     // Yield the updated job to the stream
                     continuation.yield(job)
 
-                    // End stream when job is completed or failed
-                    if job.status == .completed || job.status == .failed {
+                    // End stream when job is completed, failed or cancelled
+                    if job.status == .completed || job.status == .failed || job.status == .cancelled {
                         p5log("[P5][ResultService][Realtime][END] job_id=\(jobId) status=\(job.status.rawValue)")
                         print("✅ ResultService: Job finished, ending realtime stream")
                         continuation.finish()
@@ -332,7 +329,7 @@ class MockResultService: ResultServiceProtocol {
                     currentStatus = .processing
                 case .processing:
                     currentStatus = .completed
-                case .completed, .failed:
+                case .completed, .failed, .cancelled:
                     break
                 }
                 
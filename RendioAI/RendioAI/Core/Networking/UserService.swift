@@ -18,7 +18,6 @@ class UserService: UserServiceProtocol {
     static let shared = UserService()
 
     private var baseURL: String { AppConfig.supabaseURL }
-    private var anonKey: String { AppConfig.supabaseAnonKey }
     private let session: URLSession
     
     init(session: URLSession = .shared) {
@@ -41,11 +40,9 @@ class UserService: UserServiceProtocol {
         
         var request = URLRequest(url: url)
         request.httpMethod = "GET"
-        request.setValue("Bearer \(anonKey)", forHTTPHeaderField: "Authorization")
-        request.setValue(anonKey, forHTTPHeaderField: "apikey")
         request.setValue("application/json", forHTTPHeaderField: "Content-Type")
         
-        let (data, response) = try await session.data(for: request)
+        let (data, response) = try await AuthService.shared.authorizedData(for: request, session: session)
         
         guard let httpResponse = response as? HTTPURLResponse else {
             print("❌ UserService: Invalid response type")
@@ -104,8 +101,6 @@ class UserService: UserServiceProtocol {
 
         var request = URLRequest(url: url)
         request.httpMethod = "POST"
-        request.setValue("Bearer \(anonKey)", forHTTPHeaderField: "Authorization")
-        request.setValue(anonKey, forHTTPHeaderField: "apikey")
         request.setValue("application/json", forHTTPHeaderField: "Content-Type")
 
         // Validate inputs
@@ -122,7 +117,7 @@ class UserService: UserServiceProtocol {
         let encoder = JSONEncoder()
         request.httpBody = try encoder.encode(body)
 
-        let (data, response) = try await session.data(for: request)
+        let (data, response) = try await AuthService.shared.authorizedData(for: request, session: session)
 
         guard let httpResponse = response as? HTTPURLResponse else {
             print("❌ UserService: Invalid response type")
@@ -193,8 +188,6 @@ class UserService: UserServiceProtocol {
 
         var request = URLRequest(url: url)
         request.httpMethod = "POST"
-        request.setValue("Bearer \(anonKey)", forHTTPHeaderField: "Authorization")
-        request.setValue(anonKey, forHTTPHeaderField: "apikey")
         request.setValue("application/json", forHTTPHeaderField: "Content-Type")
 
         // Validate input
@@ -210,7 +203,7 @@ class UserService: UserServiceProtocol {
         let encoder = JSONEncoder()
         request.httpBody = try encoder.encode(body)
 
-        let (data, response) = try await session.data(for: request)
+        let (data, response) = try await AuthService.shared.authorizedData(for: request, session: session)
 
         guard let httpResponse = response as? HTTPURLResponse else {
             print("❌ UserService: Invalid response type")
@@ -263,8 +256,6 @@ class UserService: UserServiceProtocol {
 
         var request = URLRequest(url: url)
         request.httpMethod = "PATCH"
-        request.setValue("Bearer \(anonKey)", forHTTPHeaderField: "Authorization")
-        request.setValue(anonKey, forHTTPHeaderField: "apikey")
         request.setValue("application/json", forHTTPHeaderField: "Content-Type")
         request.setValue("return=representation", forHTTPHeaderField: "Prefer")
 
@@ -282,7 +273,7 @@ class UserService: UserServiceProtocol {
         let encoder = JSONEncoder()
         request.httpBody = try encoder.encode(body)
 
-        let (data, response) = try await session.data(for: request)
+        let (data, response) = try await AuthService.shared.authorizedData(for: request, session: session)
 
         guard let httpResponse = response as? HTTPURLResponse else {
             print("❌ UserService: Invalid response type")
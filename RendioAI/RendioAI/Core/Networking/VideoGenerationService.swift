@@ -15,7 +15,6 @@ class VideoGenerationService: VideoGenerationServiceProtocol {
     static let shared = VideoGenerationService()
     
     private var baseURL: String { AppConfig.supabaseURL }
-    private var anonKey: String { AppConfig.supabaseAnonKey }
     private let session: URLSession
     
     init(session: URLSession = .shared) {
@@ -32,8 +31,6 @@ class VideoGenerationService: VideoGenerationServiceProtocol {
         var urlRequest = URLRequest(url: url)
         urlRequest.httpMethod = "POST"
         urlRequest.setValue("application/json", forHTTPHeaderField: "Content-Type")
-        urlRequest.setValue("Bearer \(anonKey)", forHTTPHeaderField: "Authorization")
-        urlRequest.setValue(anonKey, forHTTPHeaderField: "apikey")
         urlRequest.setValue(UUID().uuidString, forHTTPHeaderField: "Idempotency-Key")
         
         // Convert VideoSettings to backend format
@@ -63,7 +60,7 @@ class VideoGenerationService: VideoGenerationServiceProtocol {
         urlRequest.httpBody = try JSONSerialization.data(withJSONObject: requestBody)
         
         // Perform request
-        let (data, response) = try await session.data(for: urlRequest)
+        let (data, response) = try await AuthService.shared.authorizedData(for: urlRequest, session: session)
         
         guard let httpResponse = response as? HTTPURLResponse else {
             throw AppError.networkFailure
@@ -215,8 +215,6 @@ class StoreKitManager: ObservableObject, StoreKitManagerProtocol {
         let url = URL(string: "\(AppConfig.supabaseURL)/functions/v1/update-credits")!
         var request = URLRequest(url: url)
         request.httpMethod = "POST"
-        request.setValue("Bearer \(AppConfig.supabaseAnonKey)", forHTTPHeaderField: "Authorization")
-        request.setValue(AppConfig.supabaseAnonKey, forHTTPHeaderField: "apikey")
         request.setValue("application/json", forHTTPHeaderField: "Content-Type")
 
         // Get receipt data
@@ -237,7 +235,7 @@ class StoreKitManager: ObservableObject, StoreKitManagerProtocol {
 
         request.httpBody = try JSONSerialization.data(withJSONObject: body)
 
-        let (data, response) = try await URLSession.shared.data(for: request)
+        let (data, response) = try await AuthService.shared.authorizedData(for: request)
 
         guard let httpResponse = response as? HTTPURLResponse,
               (200...299).contains(httpResponse.statusCode) else {
@@ -147,6 +147,10 @@ struct HistoryCard: View {
                 Image(systemName: "xmark.circle.fill")
                     .font(.caption)
                 Text(NSLocalizedString("history.status.failed", comment: "Failed"))
+            } else if job.isCancelled {
+                Image(systemName: "slash.circle.fill")
+                    .font(.caption)
+                Text(NSLocalizedString("history.status.cancelled", comment: "Cancelled"))
             } else {
                 Image(systemName: "clock.fill")
                     .font(.caption)
@@ -172,6 +176,8 @@ struct HistoryCard: View {
             return Color("AccentWarning")
         case .failed:
             return Color("AccentError")
+        case .cancelled:
+            return Color("TextSecondary")
         }
     }
     
@@ -124,7 +124,7 @@ class ResultViewModel: ObservableObject {
                         for await job in self.resultService.subscribeToJobUpdates(jobId: self.jobId) {
                             p5log("[P5][ResultVM][Realtime][UPDATE] job_id=\(self.jobId) status=\(job.status.rawValue)")
                             await MainActor.run { self.updateJobState(job) }
-                            if job.status == .completed || job.status == .failed {
+                            if job.status == .completed || job.status == .failed || job.status == .cancelled {
                                 // Stream path wins - job completed via realtime
                                 p5log("[P5][ResultVM][Race][WIN]=Realtime job_id=\(self.jobId)")
                                 return true
@@ -1,91 +1,433 @@
 /**
  * Apple IAP Verifier
- * 
- * Handles Apple In-App Purchase verification and product configuration
- * 
- * Note: For Phase 1, verification is simplified (mock).
- * Real Apple App Store Server API verification will be implemented in Phase 0.5.
+ *
+ * Handles Apple In-App Purchase verification and product lookup (iap_products catalog)
+ *
+ * Verification uses the App Store Server API v2 "Get Transaction Info" endpoint:
+ * GET /inApps/v1/transactions/{transactionId}
+ * The response contains a signedTransactionInfo JWS which is verified against
+ * Apple's certificate chain (see apple-jws.ts) before anything is trusted.
+ *
+ * Required Secrets (set via Supabase):
+ * - APPLE_ISSUER_ID: App Store Connect API issuer ID
+ * - APPLE_IAP_KEY_ID: In-App Purchase key identifier from App Store Connect
+ * - APPLE_IAP_KEY_P8: In-App Purchase private key content (PEM format)
+ * - APPLE_BUNDLE_ID: App bundle identifier (e.g. com.rendio.app)
+ *
+ * Optional Secrets:
+ * - APPLE_APP_STORE_API_URL: Override base URL (local stand-in server for tests)
+ * - APPLE_APP_STORE_SANDBOX_API_URL: Override sandbox base URL; with APPLE_APP_STORE_API_URL
+ *   set, lookups go production override → sandbox override (see tests/apple-iap-verifier)
  */
 
+import { createES256JWT } from './apple-jwt.ts'
+import { AppleJWSVerificationError, verifyAppleSignedData } from './apple-jws.ts'
+import { getProduct } from './product-catalog.ts'
+import { fetchWithRetry, type RetryOptions } from './retry.ts'
+
+// App Store Server API endpoints
+const APP_STORE_SERVER_API_ENDPOINTS = {
+  production: 'https://api.storekit.itunes.apple.com',
+  sandbox: 'https://api.storekit-sandbox.itunes.apple.com'
+}
+
+const APPLE_TIMEOUT_MS = 10000
+// Per attempt; 429/5xx/network errors are retried (Retry-After honoured)
+const APPLE_RETRY_OPTIONS: RetryOptions = { maxRetries: 2, baseDelay: 500, maxDelay: 5000, timeoutMs: APPLE_TIMEOUT_MS }
+const JWT_VALIDITY_MINUTES = 20
+
 export interface VerificationResult {
   valid: boolean
   product_id: string
+  transaction_id?: string
+  original_transaction_id?: string
+  environment?: 'Production' | 'Sandbox'
+  purchase_date?: string
+  expires_date?: string | null
+  revoked?: boolean
+  revocation_date?: string | null
+  revocation_reason?: number | null
+  price?: number | null     // Milliunits (price × 1000) in currency
+  currency?: string | null  // ISO 4217
+  error?: string
 }
 
 /**
- * Product configuration mapping
- * NEVER trust client - always use server-side config
+ * Decoded signedTransactionInfo payload (JWSTransactionDecodedPayload)
+ * https://developer.apple.com/documentation/appstoreserverapi/jwstransactiondecodedpayload
  */
-export const PRODUCT_CONFIG: Record<string, number> = {
-  'com.rendio.credits.10': 10,
-  'com.rendio.credits.50': 50,
-  'com.rendio.credits.100': 100
+export interface AppleTransactionPayload {
+  transactionId: string
+  originalTransactionId: string
+  bundleId: string
+  productId: string
+  purchaseDate: number
+  originalPurchaseDate?: number
+  quantity?: number
+  type: string
+  environment: 'Production' | 'Sandbox'
+  signedDate: number
+  expiresDate?: number
+  revocationDate?: number
+  revocationReason?: number
+  appAccountToken?: string
+  inAppOwnershipType?: string
+  storefront?: string
+  price?: number
+  currency?: string
+}
+
+/**
+ * Decoded signedRenewalInfo payload (JWSRenewalInfoDecodedPayload)
+ * https://developer.apple.com/documentation/appstoreserverapi/jwsrenewalinfodecodedpayload
+ */
+export interface AppleRenewalInfoPayload {
+  originalTransactionId: string
+  productId: string
+  autoRenewProductId?: string
+  autoRenewStatus: number
+  environment: 'Production' | 'Sandbox'
+  signedDate: number
+  expirationIntent?: number
+  gracePeriodExpiresDate?: number
+  isInBillingRetryPeriod?: boolean
+  recentSubscriptionStartDate?: number
+  renewalDate?: number
 }
 
 /**
  * Get credits amount for a product ID
- * 
+ * Reads the iap_products catalog (cached) - NEVER trust client
+ *
+ * @param productId - Apple product ID
+ * @returns Credits amount (credits + bonus) or null if product not found
+ */
+export async function getCreditsForProduct(productId: string): Promise<number | null> {
+  const product = await getProduct(productId)
+  if (!product || product.product_type !== 'consumable') {
+    return null
+  }
+  return (product.credits + product.bonus_credits) || null
+}
+
+export interface SubscriptionProduct {
+  tier: 'premium'
+  monthly_credits: number
+}
+
+/**
+ * Get subscription config for a product ID
+ * Each renewal grants monthly_credits
+ *
  * @param productId - Apple product ID
- * @returns Credits amount or null if product not found
+ * @returns Subscription config or null if not a subscription product
  */
-export function getCreditsForProduct(productId: string): number | null {
-  return PRODUCT_CONFIG[productId] || null
+export async function getSubscriptionForProduct(productId: string): Promise<SubscriptionProduct | null> {
+  const product = await getProduct(productId)
+  if (!product || product.product_type !== 'auto_renewable_subscription' || !product.tier) {
+    return null
+  }
+  return {
+    tier: product.tier,
+    monthly_credits: product.credits + product.bonus_credits
+  }
 }
 
 /**
- * Simplified Apple IAP verification (mock for Phase 1)
- * 
- * TODO (Phase 0.5): Implement real Apple App Store Server API verification
- * See: backend-building-plan.md Phase 0.5 for full implementation
- * 
- * In Phase 0.5, this will:
- * 1. Call Apple's App Store Server API v2
- * 2. Verify JWS (JSON Web Signature) response
- * 3. Check transaction status
- * 4. Extract product_id from verified response
- * 5. Handle subscription vs one-time purchase
- * 
+ * Generate App Store Server API JWT
+ *
+ * Algorithm: ES256, audience appstoreconnect-v1
+ * Validity: 20 minutes (Apple rejects tokens valid for more than 60)
+ */
+export async function createAppStoreServerJWT(): Promise<string> {
+  const issuerId = Deno.env.get('APPLE_ISSUER_ID')
+  const keyId = Deno.env.get('APPLE_IAP_KEY_ID')
+  const privateKeyPEM = Deno.env.get('APPLE_IAP_KEY_P8')
+  const bundleId = Deno.env.get('APPLE_BUNDLE_ID')
+
+  if (!issuerId || !keyId || !privateKeyPEM || !bundleId) {
+    throw new Error('Missing App Store Server API credentials. Check APPLE_ISSUER_ID, APPLE_IAP_KEY_ID, APPLE_IAP_KEY_P8, APPLE_BUNDLE_ID secrets.')
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+
+  return await createES256JWT(
+    {
+      alg: 'ES256',
+      kid: keyId,
+      typ: 'JWT'
+    },
+    {
+      iss: issuerId,
+      iat: now,
+      exp: now + (JWT_VALIDITY_MINUTES * 60),
+      aud: 'appstoreconnect-v1',
+      bid: bundleId
+    },
+    privateKeyPEM
+  )
+}
+
+/**
+ * Base URLs to try, in order
+ * Apple recommends calling production first and falling back to sandbox on "not found"
+ */
+export function getAppStoreServerBaseURLs(): string[] {
+  const override = Deno.env.get('APPLE_APP_STORE_API_URL')
+  if (override) {
+    const sandboxOverride = Deno.env.get('APPLE_APP_STORE_SANDBOX_API_URL')
+    return [override, sandboxOverride]
+      .filter((url): url is string => !!url)
+      .map((url) => url.replace(/\/$/, ''))
+  }
+  return [APP_STORE_SERVER_API_ENDPOINTS.production, APP_STORE_SERVER_API_ENDPOINTS.sandbox]
+}
+
+/**
+ * Base URL for a known environment (e.g. from a notification)
+ */
+export function getAppStoreServerBaseURL(environment: 'Production' | 'Sandbox'): string {
+  const override = Deno.env.get('APPLE_APP_STORE_API_URL')
+  if (override) {
+    const sandboxOverride = Deno.env.get('APPLE_APP_STORE_SANDBOX_API_URL')
+    return (environment === 'Sandbox' && sandboxOverride ? sandboxOverride : override).replace(/\/$/, '')
+  }
+  return environment === 'Sandbox'
+    ? APP_STORE_SERVER_API_ENDPOINTS.sandbox
+    : APP_STORE_SERVER_API_ENDPOINTS.production
+}
+
+/**
+ * Call "Get Transaction Info" on one environment
+ *
+ * @returns signedTransactionInfo, or null if the transaction doesn't exist there
+ */
+async function fetchSignedTransactionInfo(
+  baseURL: string,
+  transactionId: string,
+  jwt: string
+): Promise<string | null> {
+  const url = `${baseURL}/inApps/v1/transactions/${encodeURIComponent(transactionId)}`
+
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${jwt}`
+      }
+    }, { ...APPLE_RETRY_OPTIONS, label: 'apple_get_transaction_info' })
+
+    // 404 = TransactionIdNotFoundError / wrong environment; 400 = InvalidTransactionIdError
+    if (response.status === 404 || response.status === 400) {
+      return null
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`App Store Server API error: ${response.status} - ${errorText}`)
+    }
+
+    const data = await response.json()
+    return data.signedTransactionInfo || null
+
+  } catch (error) {
+    if (error.name === 'TimeoutError' || error.name === 'AbortError') {
+      throw new Error(`App Store Server API timeout after ${APPLE_TIMEOUT_MS}ms`)
+    }
+
+    throw error
+  }
+}
+
+/**
+ * Apple IAP verification via App Store Server API v2
+ *
+ * 1. Sign a JWT with the In-App Purchase key
+ * 2. Fetch transaction info (production, then sandbox)
+ * 3. Verify the signedTransactionInfo JWS against Apple's certificate chain
+ * 4. Check bundle ID and transaction ID match
+ * 5. Report product, environment, purchase date and revocation status
+ *
+ * Network/credential problems throw; invalid or forged transactions return valid: false.
+ *
  * @param transactionId - Apple transaction ID
  * @returns Verification result with product_id
  */
 export async function verifyWithApple(transactionId: string): Promise<VerificationResult> {
-  // For Phase 1, we'll do basic validation
-  // In Phase 0.5, this will call Apple's App Store Server API v2
-  
-  if (!transactionId || transactionId.length < 10) {
+  if (!transactionId || !/^\d{1,32}$/.test(transactionId)) {
+    return {
+      valid: false,
+      product_id: '',
+      error: 'Malformed transaction ID'
+    }
+  }
+
+  const jwt = await createAppStoreServerJWT()
+
+  let signedTransactionInfo: string | null = null
+  for (const baseURL of getAppStoreServerBaseURLs()) {
+    signedTransactionInfo = await fetchSignedTransactionInfo(baseURL, transactionId, jwt)
+    if (signedTransactionInfo) {
+      break
+    }
+  }
+
+  if (!signedTransactionInfo) {
+    return {
+      valid: false,
+      product_id: '',
+      error: 'Transaction not found'
+    }
+  }
+
+  return await verifySignedTransaction(signedTransactionInfo, transactionId)
+}
+
+/**
+ * Verify a signedTransactionInfo JWS and map it to a VerificationResult
+ *
+ * @param signedTransactionInfo - JWS from Apple (API response or notification)
+ * @param expectedTransactionId - Optional transaction ID the payload must match
+ */
+export async function verifySignedTransaction(
+  signedTransactionInfo: string,
+  expectedTransactionId?: string
+): Promise<VerificationResult> {
+  let payload: AppleTransactionPayload
+  try {
+    payload = await verifyAppleSignedData<AppleTransactionPayload>(signedTransactionInfo)
+  } catch (error) {
+    if (error instanceof AppleJWSVerificationError) {
+      console.error(`❌ Apple transaction signature rejected: ${error.message}`)
+      return {
+        valid: false,
+        product_id: '',
+        error: error.message
+      }
+    }
+    throw error
+  }
+
+  const expectedBundleId = Deno.env.get('APPLE_BUNDLE_ID')
+  if (!expectedBundleId || payload.bundleId !== expectedBundleId) {
+    return {
+      valid: false,
+      product_id: '',
+      error: `Bundle ID mismatch: ${payload.bundleId}`
+    }
+  }
+
+  if (expectedTransactionId && payload.transactionId !== expectedTransactionId) {
     return {
       valid: false,
-      product_id: ''
+      product_id: '',
+      error: 'Transaction ID mismatch'
     }
   }
 
-  // Mock validation - always succeeds for Phase 1
-  // Extract product ID from transaction ID pattern (for testing)
-  // In production, Apple API will return the actual product_id
-  
-  // For now, default to 10 credits package
-  // In real implementation, we'd parse the JWS response from Apple
   return {
     valid: true,
-    product_id: 'com.rendio.credits.10' // Mock product ID
+    product_id: payload.productId,
+    transaction_id: payload.transactionId,
+    original_transaction_id: payload.originalTransactionId,
+    environment: payload.environment,
+    purchase_date: new Date(payload.purchaseDate).toISOString(),
+    expires_date: payload.expiresDate ? new Date(payload.expiresDate).toISOString() : null,
+    revoked: !!payload.revocationDate,
+    revocation_date: payload.revocationDate ? new Date(payload.revocationDate).toISOString() : null,
+    revocation_reason: payload.revocationReason ?? null,
+    price: payload.price ?? null,
+    currency: payload.currency ?? null
   }
 }
 
 /**
  * Verify transaction and get credits amount
- * 
+ *
  * Convenience function that combines verification and product lookup
- * 
+ *
  * @param transactionId - Apple transaction ID
- * @returns Credits amount or null if invalid/unknown product
+ * @returns Credits amount or null if invalid/revoked/unknown product
  */
 export async function verifyAndGetCredits(transactionId: string): Promise<number | null> {
   const verification = await verifyWithApple(transactionId)
-  
-  if (!verification.valid) {
+
+  if (!verification.valid || verification.revoked) {
     return null
   }
-  
-  return getCreditsForProduct(verification.product_id)
+
+  return await getCreditsForProduct(verification.product_id)
 }
 
+// ============================================
+// Consumption Information
+// ============================================
+
+/**
+ * ConsumptionRequest body
+ * https://developer.apple.com/documentation/appstoreserverapi/consumptionrequest
+ */
+export interface ConsumptionRequest {
+  accountTenure: number
+  appAccountToken: string
+  consumptionStatus: number
+  customerConsented: boolean
+  deliveryStatus: number
+  lifetimeDollarsPurchased: number
+  lifetimeDollarsRefunded: number
+  platform: number
+  playTime: number
+  refundPreference: number
+  sampleContentProvided: boolean
+  userStatus: number
+}
+
+export interface ConsumptionResponse {
+  ok: boolean
+  status: number
+  error?: string
+}
+
+/**
+ * Send Consumption Information
+ * PUT /inApps/v1/transactions/consumption/{transactionId}
+ *
+ * Apple answers 202 Accepted. Must be sent within 12 hours of the CONSUMPTION_REQUEST.
+ * Network errors throw; HTTP errors are returned so the caller can record them.
+ */
+export async function sendConsumptionInformation(
+  transactionId: string,
+  body: ConsumptionRequest,
+  environment: 'Production' | 'Sandbox'
+): Promise<ConsumptionResponse> {
+  const jwt = await createAppStoreServerJWT()
+  const url = `${getAppStoreServerBaseURL(environment)}/inApps/v1/transactions/consumption/${encodeURIComponent(transactionId)}`
+
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${jwt}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    }, { ...APPLE_RETRY_OPTIONS, label: 'apple_send_consumption' })
+
+    if (response.ok) {
+      return { ok: true, status: response.status }
+    }
+
+    return {
+      ok: false,
+      status: response.status,
+      error: await response.text()
+    }
+
+  } catch (error) {
+    if (error.name === 'TimeoutError' || error.name === 'AbortError') {
+      throw new Error(`App Store Server API timeout after ${APPLE_TIMEOUT_MS}ms`)
+    }
+
+    throw error
+  }
+}
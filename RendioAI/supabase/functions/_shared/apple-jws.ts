@@ -0,0 +1,185 @@
+/**
+ * Apple JWS Verifier
+ *
+ * Verifies JWS payloads signed by the App Store:
+ * - signedTransactionInfo (App Store Server API, notifications)
+ * - signedRenewalInfo (notifications)
+ * - signedPayload (App Store Server Notifications V2)
+ *
+ * Apple signs these with ES256 and embeds the signing chain in the x5c header:
+ *   [leaf, Apple WWDR intermediate, Apple Root CA - G3]
+ *
+ * Verification steps:
+ * 1. Header must be ES256 with a 3-certificate x5c chain
+ * 2. Root certificate must match a trusted fingerprint (Apple Root CA - G3)
+ * 3. Each certificate must be valid now and signed by the next one
+ * 4. Leaf and intermediate must carry Apple's marker extensions
+ * 5. JWS signature must verify against the leaf public key
+ *
+ * Optional Secrets:
+ * - APPLE_ROOT_CA_SHA256: Comma-separated SHA-256 fingerprints (hex) of trusted roots.
+ *   Overrides the pinned Apple root - used to test against a self-signed chain.
+ */
+
+import * as x509 from 'https://esm.sh/@peculiar/x509@1'
+import { base64Decode, base64UrlDecode } from './apple-jwt.ts'
+
+x509.cryptoProvider.set(crypto)
+
+// SHA-256 fingerprint of "Apple Root CA - G3"
+// https://www.apple.com/certificateauthority/
+const APPLE_ROOT_CA_G3_SHA256 = '63343abfb89a6a03ebb57e9b3f5fa7be7c4f5c756f3017b3a8c488c3653e9179'
+
+// Marker extensions Apple puts on App Store signing certificates
+const APPLE_LEAF_MARKER_OID = '1.2.840.113635.100.6.11.1'
+const APPLE_INTERMEDIATE_MARKER_OID = '1.2.840.113635.100.6.2.1'
+
+export class AppleJWSVerificationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AppleJWSVerificationError'
+  }
+}
+
+interface JWSHeader {
+  alg: string
+  x5c?: string[]
+}
+
+/**
+ * Decode a JWS payload WITHOUT verifying it
+ * Only use for logging or after verifyAppleSignedData has succeeded.
+ */
+export function decodeJWSPayload<T>(jws: string): T {
+  const parts = jws.split('.')
+  if (parts.length !== 3) {
+    throw new AppleJWSVerificationError('Malformed JWS: expected 3 segments')
+  }
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[1]))) as T
+}
+
+/**
+ * Verify an Apple-signed JWS and return its payload
+ *
+ * @param jws Compact JWS string from Apple
+ * @returns Decoded payload, throws AppleJWSVerificationError if anything is off
+ */
+export async function verifyAppleSignedData<T>(jws: string): Promise<T> {
+  if (!jws || typeof jws !== 'string') {
+    throw new AppleJWSVerificationError('Missing JWS')
+  }
+
+  const parts = jws.split('.')
+  if (parts.length !== 3) {
+    throw new AppleJWSVerificationError('Malformed JWS: expected 3 segments')
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts
+
+  // 1. Header
+  let header: JWSHeader
+  try {
+    header = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedHeader)))
+  } catch {
+    throw new AppleJWSVerificationError('Malformed JWS header')
+  }
+
+  if (header.alg !== 'ES256') {
+    throw new AppleJWSVerificationError(`Unsupported JWS algorithm: ${header.alg}`)
+  }
+
+  if (!Array.isArray(header.x5c) || header.x5c.length !== 3) {
+    throw new AppleJWSVerificationError('JWS header must contain a 3-certificate x5c chain')
+  }
+
+  let chain: x509.X509Certificate[]
+  try {
+    chain = header.x5c.map((der) => new x509.X509Certificate(base64Decode(der)))
+  } catch {
+    throw new AppleJWSVerificationError('Unable to parse x5c certificates')
+  }
+
+  const [leaf, intermediate, root] = chain
+
+  // 2. Root must be pinned
+  const rootFingerprint = toHex(await root.getThumbprint('SHA-256'))
+  if (!getTrustedRootFingerprints().includes(rootFingerprint)) {
+    throw new AppleJWSVerificationError('x5c root certificate is not a trusted Apple root')
+  }
+
+  // 3. Validity and signatures along the chain
+  const now = new Date()
+  for (const cert of chain) {
+    if (now < cert.notBefore || now > cert.notAfter) {
+      throw new AppleJWSVerificationError(`Certificate expired or not yet valid: ${cert.subject}`)
+    }
+  }
+
+  const chainValid =
+    await leaf.verify({ publicKey: intermediate, signatureOnly: true }) &&
+    await intermediate.verify({ publicKey: root, signatureOnly: true }) &&
+    await root.verify({ publicKey: root, signatureOnly: true })
+
+  if (!chainValid) {
+    throw new AppleJWSVerificationError('x5c certificate chain signature is invalid')
+  }
+
+  const basicConstraints = intermediate.getExtension(x509.BasicConstraintsExtension)
+  if (!basicConstraints?.ca) {
+    throw new AppleJWSVerificationError('x5c intermediate is not a CA certificate')
+  }
+
+  // 4. Apple marker extensions
+  if (!leaf.getExtension(APPLE_LEAF_MARKER_OID)) {
+    throw new AppleJWSVerificationError('x5c leaf is not an App Store signing certificate')
+  }
+  if (!intermediate.getExtension(APPLE_INTERMEDIATE_MARKER_OID)) {
+    throw new AppleJWSVerificationError('x5c intermediate is not an Apple WWDR certificate')
+  }
+
+  // 5. JWS signature (raw r||s) against the leaf key
+  const leafKey = await crypto.subtle.importKey(
+    'spki',
+    leaf.publicKey.rawData,
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['verify']
+  )
+
+  const signatureValid = await crypto.subtle.verify(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    leafKey,
+    base64UrlDecode(encodedSignature),
+    new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+  )
+
+  if (!signatureValid) {
+    throw new AppleJWSVerificationError('JWS signature is invalid')
+  }
+
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedPayload))) as T
+  } catch {
+    throw new AppleJWSVerificationError('Malformed JWS payload')
+  }
+}
+
+/**
+ * Trusted root fingerprints (lowercase hex, no separators)
+ */
+function getTrustedRootFingerprints(): string[] {
+  const override = Deno.env.get('APPLE_ROOT_CA_SHA256')
+  if (!override) {
+    return [APPLE_ROOT_CA_G3_SHA256]
+  }
+  return override
+    .split(',')
+    .map((fingerprint) => fingerprint.replace(/[^0-9a-f]/gi, '').toLowerCase())
+    .filter((fingerprint) => fingerprint.length > 0)
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
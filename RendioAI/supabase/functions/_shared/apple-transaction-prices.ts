@@ -0,0 +1,47 @@
+/**
+ * Apple Transaction Prices
+ *
+ * Records what the customer paid for each App Store transaction (price and
+ * currency from the signed transaction), so consumption reports can total
+ * real spend (get_apple_consumption_data) instead of estimating it from credits.
+ *
+ * Written wherever a verified transaction passes through: update-credits
+ * (purchases, first subscription period) and apple-server-notifications
+ * (renewals, upgrades, refunds). One row per transaction_id.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { logEvent } from './logger.ts'
+
+/**
+ * Record a transaction's price (no-op if Apple didn't include one)
+ * Never throws - a missing price only makes the lifetime totals undeclared.
+ *
+ * @param price - Apple's price in milliunits (price × 1000)
+ * @param currency - ISO 4217 code
+ */
+export async function recordTransactionPrice(
+  supabaseClient: SupabaseClient,
+  transactionId: string,
+  price: number | null | undefined,
+  currency: string | null | undefined
+): Promise<void> {
+  if (price == null || !currency) {
+    return
+  }
+
+  const { error } = await supabaseClient
+    .from('apple_transaction_prices')
+    .upsert({
+      transaction_id: transactionId,
+      price_milliunits: price,
+      currency
+    }, { onConflict: 'transaction_id', ignoreDuplicates: true })
+
+  if (error) {
+    logEvent('apple_transaction_price_error', {
+      transaction_id: transactionId,
+      error: error.message
+    }, 'warn')
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Auth Helper
+ *
+ * Resolves the calling user from the Supabase access token instead of
+ * trusting a user_id sent in the request body or query string.
+ *
+ * Flow:
+ * 1. Read the Bearer token from the Authorization header
+ * 2. Verify it with Supabase Auth (auth.users)
+ * 3. Map auth_user_id → users.id (our application user)
+ * 4. Optionally check that a client-supplied user_id matches the caller
+ *
+ * Operator-only endpoints use requireServiceRole instead (service role key as Bearer token).
+ *
+ * Errors are thrown as Response objects (401/403) so handlers can return them directly.
+ */
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { logEvent } from './logger.ts'
+
+export interface AuthenticatedUser {
+  user_id: string        // users.id (application user)
+  auth_user_id: string   // auth.users.id (Supabase Auth)
+  email?: string
+  is_guest: boolean
+  tier: string
+}
+
+/**
+ * Build a JSON error response for auth failures
+ */
+function authErrorResponse(status: 401 | 403, error: string): Response {
+  return new Response(
+    JSON.stringify({ error }),
+    {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    }
+  )
+}
+
+/**
+ * Extract the Bearer token from the Authorization header
+ */
+function extractBearerToken(req: Request): string | null {
+  const authHeader = req.headers.get('Authorization')
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null
+  }
+
+  const token = authHeader.substring('Bearer '.length).trim()
+  return token.length > 0 ? token : null
+}
+
+/**
+ * Compare two secrets without leaking the mismatch position through timing
+ */
+function secretsMatch(a: string, b: string): boolean {
+  const aBytes = new TextEncoder().encode(a)
+  const bBytes = new TextEncoder().encode(b)
+
+  if (aBytes.length !== bBytes.length) {
+    return false
+  }
+
+  let diff = 0
+  for (let i = 0; i < aBytes.length; i++) {
+    diff |= aBytes[i] ^ bBytes[i]
+  }
+  return diff === 0
+}
+
+/**
+ * Get authenticated user from request
+ *
+ * @param req - HTTP request with Authorization header
+ * @param supabaseAdmin - Service-role client used to look up the users row
+ * @returns Authenticated user, throws a 401/403 Response if invalid
+ */
+export async function getAuthenticatedUser(
+  req: Request,
+  supabaseAdmin: SupabaseClient
+): Promise<AuthenticatedUser> {
+  const token = extractBearerToken(req)
+
+  if (!token) {
+    throw authErrorResponse(401, 'Missing Authorization header')
+  }
+
+  // Verify JWT against Supabase Auth
+  const supabaseAuth = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+  )
+
+  const {
+    data: { user: authUser },
+    error: authError
+  } = await supabaseAuth.auth.getUser(token)
+
+  // The anon key is a valid JWT for the gateway but has no user behind it
+  if (authError || !authUser) {
+    throw authErrorResponse(401, 'Invalid or expired token')
+  }
+
+  // Map auth.users.id → users.id
+  const { data: appUser, error: userError } = await supabaseAdmin
+    .from('users')
+    .select('id, is_guest, tier')
+    .eq('auth_user_id', authUser.id)
+    .maybeSingle()
+
+  if (userError) {
+    throw userError
+  }
+
+  if (!appUser) {
+    logEvent('auth_user_not_linked', { auth_user_id: authUser.id }, 'warn')
+    throw authErrorResponse(403, 'No user profile linked to this session')
+  }
+
+  return {
+    user_id: appUser.id,
+    auth_user_id: authUser.id,
+    email: authUser.email,
+    is_guest: appUser.is_guest,
+    tier: appUser.tier
+  }
+}
+
+/**
+ * Get user from request or throw a 401/403 Response
+ * Use this at the start of protected endpoints
+ *
+ * @param req - HTTP request with Authorization header
+ * @param supabaseAdmin - Service-role client used to look up the users row
+ * @param requestedUserId - user_id sent by the client (legacy field); must match the caller if present
+ */
+export async function requireAuth(
+  req: Request,
+  supabaseAdmin: SupabaseClient,
+  requestedUserId?: string | null
+): Promise<AuthenticatedUser> {
+  const user = await getAuthenticatedUser(req, supabaseAdmin)
+
+  if (requestedUserId && requestedUserId !== user.user_id) {
+    logEvent('auth_user_id_mismatch', {
+      user_id: user.user_id,
+      requested_user_id: requestedUserId
+    }, 'warn')
+    throw authErrorResponse(403, 'user_id does not match authenticated user')
+  }
+
+  return user
+}
+
+/**
+ * Allow only callers holding the service role key (operators, cron jobs)
+ * Throws a 401/403 Response otherwise
+ *
+ * @param req - HTTP request with Authorization: Bearer <service role key>
+ */
+export function requireServiceRole(req: Request): void {
+  const token = extractBearerToken(req)
+
+  if (!token) {
+    throw authErrorResponse(401, 'Missing Authorization header')
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+  if (!serviceRoleKey || !secretsMatch(token, serviceRoleKey)) {
+    throw authErrorResponse(403, 'Service role required')
+  }
+}
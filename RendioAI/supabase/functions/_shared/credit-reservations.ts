@@ -0,0 +1,112 @@
+/**
+ * Credit Reservations
+ *
+ * Wrappers for the hold-and-capture stored procedures.
+ * generate_video_atomic places the hold; these resolve it exactly once:
+ * - capture: provider delivered a video, held credits are spent
+ * - release: provider failed / job cancelled, held credits go back to the user
+ *
+ * Both are idempotent - calling again after the hold is resolved is a no-op
+ * (changed: false).
+ *
+ * refundFailedJob is the entry point for provider failures: it releases the
+ * hold (or refunds a job that predates holds) at most once per job_id.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { logEvent } from './logger.ts'
+
+export interface ReservationResult {
+  success: boolean
+  changed?: boolean
+  status?: 'held' | 'captured' | 'released'
+  amount?: number
+  credits_remaining?: number
+  error?: string
+}
+
+export interface JobRefundResult {
+  success: boolean
+  refunded?: boolean
+  credits_refunded?: number
+  credits_remaining?: number
+  error?: string
+}
+
+/**
+ * Capture the hold for a completed job
+ */
+export async function captureCreditReservation(
+  supabaseClient: SupabaseClient,
+  jobId: string
+): Promise<ReservationResult> {
+  const { data, error } = await supabaseClient.rpc('capture_credit_reservation', {
+    p_job_id: jobId
+  })
+
+  if (error) {
+    logEvent('credit_reservation_capture_error', { job_id: jobId, error: error.message }, 'error')
+    throw error
+  }
+
+  if (data.changed) {
+    logEvent('credit_reservation_captured', { job_id: jobId, amount: data.amount }, 'info')
+  }
+
+  return data as ReservationResult
+}
+
+/**
+ * Release the hold for a job that will never produce a video
+ *
+ * @param reason - e.g. provider_submit_failed, provider_failed, cancelled
+ */
+export async function releaseCreditReservation(
+  supabaseClient: SupabaseClient,
+  jobId: string,
+  reason: string
+): Promise<ReservationResult> {
+  const { data, error } = await supabaseClient.rpc('release_credit_reservation', {
+    p_job_id: jobId,
+    p_reason: reason
+  })
+
+  if (error) {
+    logEvent('credit_reservation_release_error', { job_id: jobId, reason, error: error.message }, 'error')
+    throw error
+  }
+
+  if (data.changed) {
+    logEvent('credit_reservation_released', { job_id: jobId, reason, amount: data.amount }, 'info')
+  }
+
+  return data as ReservationResult
+}
+
+/**
+ * Refund a job the provider reported as FAILED
+ *
+ * Safe to call on every status poll - only the first call refunds
+ * (refunded: true); later calls return the amount already refunded.
+ */
+export async function refundFailedJob(
+  supabaseClient: SupabaseClient,
+  jobId: string,
+  reason: string = 'provider_failed'
+): Promise<JobRefundResult> {
+  const { data, error } = await supabaseClient.rpc('refund_failed_job', {
+    p_job_id: jobId,
+    p_reason: reason
+  })
+
+  if (error) {
+    logEvent('job_refund_error', { job_id: jobId, reason, error: error.message }, 'error')
+    throw error
+  }
+
+  if (data.refunded) {
+    logEvent('job_refunded', { job_id: jobId, reason, amount: data.credits_refunded }, 'info')
+  }
+
+  return data as JobRefundResult
+}
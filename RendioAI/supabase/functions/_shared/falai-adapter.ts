@@ -1,12 +1,48 @@
 /**
- * FalAI Sora 2 Image-to-Video Adapter
+ * FalAI Sora 2 Image-to-Video / Text-to-Video Adapter
  * 
  * Handles communication with FalAI's queue API for Sora 2 model
+ * Image-to-video submits to the `submit` template, text-to-video to `submit_text_to_video`
+ * Registered as the 'fal' VideoProvider (see video-providers.ts)
+ *
+ * Queue URLs come from path templates (models.endpoint_paths overrides
+ * DEFAULT_FALAI_ENDPOINT_PATHS per key). Placeholders:
+ * - {model_id}:   models.provider_model_id
+ * - {app_id}:     owner/app, the first two segments (fal-ai/sora-2) - FalAI
+ *                 serves status/result/cancel for every endpoint of an app there
+ * - {request_id}: FalAI request id
+ *
+ * Completion is pushed to the falai-webhook function (fal_webhook query
+ * parameter); get-video-status polling still works without it.
+ *
+ * Optional Secrets:
+ * - FALAI_WEBHOOK_URL: webhook target (default {SUPABASE_URL}/functions/v1/falai-webhook, 'off' disables)
  */
 
+import { logEvent } from './logger.ts'
+import type {
+  ProviderEndpointPaths,
+  ProviderLog,
+  ProviderResult,
+  ProviderStatus,
+  VideoProvider
+} from './video-provider.ts'
+import { PROVIDER_RETRY_OPTIONS, PROVIDER_SUBMIT_RETRY_OPTIONS, ProviderError } from './video-provider.ts'
+import { fetchWithRetry } from './retry.ts'
+
+const FALAI_QUEUE_URL = 'https://queue.fal.run'
+
+export const DEFAULT_FALAI_ENDPOINT_PATHS: Required<ProviderEndpointPaths> = {
+  submit: '{model_id}',
+  submit_text_to_video: '{app_id}/text-to-video',
+  status: '{app_id}/requests/{request_id}/status',
+  result: '{app_id}/requests/{request_id}/response',
+  cancel: '{app_id}/requests/{request_id}/cancel'
+}
+
 interface FalAIQueueRequest {
   prompt: string
-  image_url: string
+  image_url?: string  // Omitted for text-to-video
   resolution?: 'auto' | '720p'
   aspect_ratio?: 'auto' | '9:16' | '16:9'
   duration?: 4 | 8 | 12
@@ -30,20 +66,92 @@ interface FalAIStatusResponse {
   video_id?: string
   error?: string
   response_url?: string // URL to fetch the final result when COMPLETED
+  queue_position?: number // Set while IN_QUEUE
+  logs?: ProviderLog[]    // Requested with ?logs=1
+  progress?: number       // Derived from logs (0-100)
+}
+
+/**
+ * Latest "NN%" in the model's logs, if it prints any
+ */
+export function getFalAILogProgress(logs: ProviderLog[] | undefined): number | undefined {
+  for (let i = (logs?.length ?? 0) - 1; i >= 0; i--) {
+    const match = logs![i].message?.match(/(\d{1,3}(?:\.\d+)?)\s*%/)
+    if (match) {
+      const percent = parseFloat(match[1])
+      if (percent >= 0 && percent <= 100) {
+        return Math.round(percent)
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * FalAI app id (owner/app) of an endpoint id
+ * fal-ai/kling-video/v2.1/pro/image-to-video → fal-ai/kling-video
+ */
+export function getFalAIAppId(modelId: string): string {
+  return modelId.split('/').filter(Boolean).slice(0, 2).join('/')
+}
+
+/**
+ * Build a FalAI queue URL from the model's path template
+ *
+ * @param modelId - Endpoint id ({model_id}); {app_id} is derived from it
+ * @throws Error if the template uses a placeholder that has no value
+ */
+export function getFalAIEndpointUrl(
+  operation: keyof ProviderEndpointPaths,
+  modelId: string,
+  requestId?: string,
+  endpointPaths?: ProviderEndpointPaths | null
+): string {
+  const template = endpointPaths?.[operation] || DEFAULT_FALAI_ENDPOINT_PATHS[operation]
+  const values: Record<string, string | undefined> = {
+    model_id: modelId,
+    app_id: getFalAIAppId(modelId),
+    request_id: requestId
+  }
+
+  const path = template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = values[name]
+    if (!value) {
+      throw new Error(`FalAI ${operation} path template "${template}" has no value for ${placeholder}`)
+    }
+    return value
+  })
+
+  // Absolute templates are used as-is (e.g. a different queue host)
+  return /^https?:\/\//.test(path) ? path : `${FALAI_QUEUE_URL}/${path.replace(/^\/+/, '')}`
+}
+
+/**
+ * Where FalAI should POST the result (null = rely on polling)
+ */
+export function getFalAIWebhookUrl(): string | null {
+  const configured = Deno.env.get('FALAI_WEBHOOK_URL')
+  if (configured) {
+    return configured === 'off' ? null : configured
+  }
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  return supabaseUrl ? `${supabaseUrl}/functions/v1/falai-webhook` : null
 }
 
 /**
  * Submit a video generation job to FalAI Queue API
+ * (image-to-video when imageUrl is given, text-to-video otherwise)
  */
 export async function submitFalAIJob(
   modelId: string,
   prompt: string,
-  imageUrl: string,
+  imageUrl: string | undefined,
   settings?: {
     resolution?: 'auto' | '720p'
     aspect_ratio?: 'auto' | '9:16' | '16:9'
     duration?: 4 | 8 | 12
-  }
+  },
+  endpointPaths?: ProviderEndpointPaths | null
 ): Promise<FalAIQueueResponse> {
   const apiKey = Deno.env.get('FALAI_API_KEY')
   
@@ -54,14 +162,28 @@ export async function submitFalAIJob(
   // Default settings for Sora 2
   const requestBody: FalAIQueueRequest = {
     prompt,
-    image_url: imageUrl,
     resolution: settings?.resolution || 'auto',
     aspect_ratio: settings?.aspect_ratio || 'auto',
     duration: settings?.duration || 4
   }
 
-  const response = await fetch(
-    `https://queue.fal.run/${modelId}`,
+  if (imageUrl) {
+    requestBody.image_url = imageUrl
+  } else {
+    // Text-to-video has no source image to take the aspect ratio from
+    if (requestBody.aspect_ratio === 'auto') {
+      requestBody.aspect_ratio = '16:9'
+    }
+  }
+
+  const webhookUrl = getFalAIWebhookUrl()
+  const endpointUrl = getFalAIEndpointUrl(imageUrl ? 'submit' : 'submit_text_to_video', modelId, undefined, endpointPaths)
+  const submitUrl = webhookUrl
+    ? `${endpointUrl}${endpointUrl.includes('?') ? '&' : '?'}fal_webhook=${encodeURIComponent(webhookUrl)}`
+    : endpointUrl
+
+  const response = await fetchWithRetry(
+    submitUrl,
     {
       method: 'POST',
       headers: {
@@ -69,12 +191,13 @@ export async function submitFalAIJob(
         'Content-Type': 'application/json'
       },
       body: JSON.stringify(requestBody)
-    }
+    },
+    { ...PROVIDER_SUBMIT_RETRY_OPTIONS, label: 'falai_submit' }
   )
 
   if (!response.ok) {
     const errorText = await response.text()
-    throw new Error(`FalAI API error: ${response.status} ${response.statusText} - ${errorText}`)
+    throw new ProviderError(`FalAI API error: ${response.status} ${response.statusText} - ${errorText}`, response.status)
   }
 
   const data = await response.json()
@@ -90,7 +213,8 @@ export async function submitFalAIJob(
  */
 export async function checkFalAIStatus(
   modelId: string,
-  requestId: string
+  requestId: string,
+  endpointPaths?: ProviderEndpointPaths | null
 ): Promise<FalAIStatusResponse> {
   const apiKey = Deno.env.get('FALAI_API_KEY')
   
@@ -98,18 +222,11 @@ export async function checkFalAIStatus(
     throw new Error('FALAI_API_KEY environment variable not set')
   }
 
-  // FalAI queue API uses this format: https://queue.fal.run/{model_base}/requests/{request_id}/status
-  // The model ID might be "fal-ai/sora-2/image-to-video" but the URL needs "fal-ai/sora-2"
-  // Extract the base model path (remove the last segment if it's a variant)
-  let modelBase = modelId
-  if (modelId.includes('/image-to-video')) {
-    modelBase = modelId.replace('/image-to-video', '')
-  }
-  
-  // Use the correct FalAI queue status endpoint format
-  const statusUrl = `https://queue.fal.run/${modelBase}/requests/${requestId}/status`
+  // logs=1 adds model logs for progress
+  const endpointUrl = getFalAIEndpointUrl('status', modelId, requestId, endpointPaths)
+  const statusUrl = `${endpointUrl}${endpointUrl.includes('?') ? '&' : '?'}logs=1`
 
-  const response = await fetch(
+  const response = await fetchWithRetry(
     statusUrl,
     {
       method: 'GET',
@@ -117,12 +234,13 @@ export async function checkFalAIStatus(
         'Authorization': `Key ${apiKey}`,
         'Content-Type': 'application/json'
       }
-    }
+    },
+    { ...PROVIDER_RETRY_OPTIONS, label: 'falai_status' }
   )
 
   if (!response.ok) {
     const errorText = await response.text()
-    throw new Error(`FalAI status check error: ${response.status} ${response.statusText} - ${errorText}`)
+    throw new ProviderError(`FalAI status check error: ${response.status} ${response.statusText} - ${errorText}`, response.status)
   }
 
   const data = await response.json()
@@ -162,7 +280,10 @@ export async function checkFalAIStatus(
     } : undefined,
     video_id: data.video_id,
     error: data.error || data.message,
-    response_url: data.response_url // Include this so we can fetch video if needed
+    response_url: data.response_url, // Include this so we can fetch video if needed
+    queue_position: typeof data.queue_position === 'number' ? data.queue_position : undefined,
+    logs: Array.isArray(data.logs) ? data.logs : undefined,
+    progress: getFalAILogProgress(data.logs)
   }
   
   return result
@@ -173,7 +294,8 @@ export async function checkFalAIStatus(
  */
 export async function getFalAIResult(
   modelId: string,
-  requestId: string
+  requestId: string,
+  endpointPaths?: ProviderEndpointPaths | null
 ): Promise<FalAIStatusResponse> {
   const apiKey = Deno.env.get('FALAI_API_KEY')
   
@@ -181,16 +303,9 @@ export async function getFalAIResult(
     throw new Error('FALAI_API_KEY environment variable not set')
   }
 
-  // FalAI queue API uses this format: https://queue.fal.run/{model_base}/requests/{request_id}/response
-  // Extract the base model path (remove the last segment if it's a variant)
-  let modelBase = modelId
-  if (modelId.includes('/image-to-video')) {
-    modelBase = modelId.replace('/image-to-video', '')
-  }
-  
-  const responseUrl = `https://queue.fal.run/${modelBase}/requests/${requestId}/response`
+  const responseUrl = getFalAIEndpointUrl('result', modelId, requestId, endpointPaths)
 
-  const response = await fetch(
+  const response = await fetchWithRetry(
     responseUrl,
     {
       method: 'GET',
@@ -198,12 +313,13 @@ export async function getFalAIResult(
         'Authorization': `Key ${apiKey}`,
         'Content-Type': 'application/json'
       }
-    }
+    },
+    { ...PROVIDER_RETRY_OPTIONS, label: 'falai_result' }
   )
 
   if (!response.ok) {
     const errorText = await response.text()
-    throw new Error(`FalAI result fetch error: ${response.status} ${response.statusText} - ${errorText}`)
+    throw new ProviderError(`FalAI result fetch error: ${response.status} ${response.statusText} - ${errorText}`, response.status)
   }
 
   const data = await response.json()
@@ -222,3 +338,150 @@ export async function getFalAIResult(
   }
 }
 
+
+/**
+ * Cancel a queued FalAI job
+ *
+ * @returns false if FalAI refused (job already running or finished)
+ */
+export async function cancelFalAIJob(
+  modelId: string,
+  requestId: string,
+  endpointPaths?: ProviderEndpointPaths | null
+): Promise<boolean> {
+  const apiKey = Deno.env.get('FALAI_API_KEY')
+  
+  if (!apiKey) {
+    throw new Error('FALAI_API_KEY environment variable not set')
+  }
+
+  const response = await fetchWithRetry(
+    getFalAIEndpointUrl('cancel', modelId, requestId, endpointPaths),
+    {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Key ${apiKey}`,
+        'Content-Type': 'application/json'
+      }
+    },
+    { ...PROVIDER_RETRY_OPTIONS, label: 'falai_cancel' }
+  )
+
+  if (response.ok) {
+    return true
+  }
+
+  // 400 = already in progress or completed
+  if (response.status === 400) {
+    return false
+  }
+
+  const errorText = await response.text()
+  throw new ProviderError(`FalAI cancel error: ${response.status} ${response.statusText} - ${errorText}`, response.status)
+}
+
+/**
+ * Find the video URL of a completed FalAI job
+ * Uses multiple fallback strategies:
+ * 1. Check if video URL is already in the status response
+ * 2. Fetch from response_url (most reliable)
+ * 3. Fall back to getFalAIResult
+ */
+export async function getFalAIVideoUrl(
+  modelId: string,
+  requestId: string,
+  status?: ProviderStatus,
+  endpointPaths?: ProviderEndpointPaths | null
+): Promise<ProviderResult> {
+  let result: any = null
+
+  // Strategy 1: Check if video URL is already in the status response
+  if (status?.video?.url) {
+    return { videoUrl: status.video.url, result }
+  }
+
+  // Strategy 2: Fetch from response_url (most reliable)
+  if (status?.response_url) {
+    try {
+      const apiKey = Deno.env.get('FALAI_API_KEY')
+      if (apiKey) {
+        const responseUrlResponse = await fetchWithRetry(status.response_url, {
+          method: 'GET',
+          headers: {
+            'Authorization': `Key ${apiKey}`,
+            'Content-Type': 'application/json'
+          }
+        }, { ...PROVIDER_RETRY_OPTIONS, label: 'falai_response_url' })
+
+        if (responseUrlResponse.ok) {
+          const responseUrlData = await responseUrlResponse.json()
+          const videoUrl = responseUrlData.video?.url
+          if (videoUrl) {
+            result = {
+              video: responseUrlData.video,
+              video_id: responseUrlData.video_id
+            }
+            return { videoUrl, result }
+          }
+        }
+      }
+    } catch (responseUrlError: any) {
+      console.error('[falai-adapter] Error fetching from response_url:', responseUrlError.message)
+    }
+  }
+
+  // Strategy 3: Fall back to getFalAIResult
+  try {
+    result = await getFalAIResult(modelId, requestId, endpointPaths)
+    if (result.video?.url) {
+      return { videoUrl: result.video.url, result }
+    }
+  } catch (resultError: any) {
+    console.error('[falai-adapter] Error calling getFalAIResult:', resultError.message)
+
+    logEvent('get_falai_result_error', {
+      provider_job_id: requestId,
+      error: resultError.message
+    }, 'error')
+  }
+
+  return { videoUrl: null, result }
+}
+
+export const falAIProvider: VideoProvider = {
+  id: 'fal',
+
+  describe() {
+    return {
+      name: 'FalAI',
+      supports_cancel: true,
+      input_modes: ['image_to_video', 'text_to_video'],
+      durations: [4, 8, 12],
+      aspect_ratios: ['auto', '9:16', '16:9'],
+      resolutions: ['auto', '720p']
+    }
+  },
+
+  async submit(request) {
+    if (request.inputMode === 'image_to_video' && !request.imageUrl) {
+      throw new Error('image_url is required for image_to_video')
+    }
+    const imageUrl = request.inputMode === 'image_to_video' ? request.imageUrl : undefined
+    // Duration was checked against describe().durations before submission
+    const settings = { ...request.settings, duration: request.settings.duration as 4 | 8 | 12 }
+    const result = await submitFalAIJob(request.modelId, request.prompt, imageUrl, settings, request.endpointPaths)
+    return { request_id: result.request_id }
+  },
+
+  getStatus(modelId, requestId, endpointPaths) {
+    return checkFalAIStatus(modelId, requestId, endpointPaths)
+  },
+
+  getResult(modelId, requestId, status, endpointPaths) {
+    return getFalAIVideoUrl(modelId, requestId, status, endpointPaths)
+  },
+
+  cancel(modelId, requestId, endpointPaths) {
+    return cancelFalAIJob(modelId, requestId, endpointPaths)
+  }
+}
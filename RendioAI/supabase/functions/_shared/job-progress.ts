@@ -0,0 +1,108 @@
+/**
+ * Job Progress
+ *
+ * Queue position, progress percentage and ETA for in-flight jobs.
+ *
+ * Expected duration is the median time-to-complete of recent jobs on the same
+ * model and duration setting (get_generation_duration_stats), cached per
+ * function instance. Until a model has MIN_SAMPLE_SIZE completed jobs, a
+ * default based on the video length is used.
+ *
+ * Progress prefers what the provider reports; otherwise it is elapsed time
+ * against the expected duration, held at MAX_ESTIMATED_PROGRESS until the
+ * provider says COMPLETED.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { ProviderStatus } from './video-providers.ts'
+import { logEvent } from './logger.ts'
+
+const STATS_TTL_MS = 10 * 60 * 1000
+const MIN_SAMPLE_SIZE = 5
+const DEFAULT_BASE_SECONDS = 60
+const DEFAULT_SECONDS_PER_VIDEO_SECOND = 15
+const MAX_ESTIMATED_PROGRESS = 95
+
+export interface JobProgress {
+  queue_position: number | null
+  progress: number          // 0-100
+  eta_seconds: number | null // null once the job runs past its estimate
+}
+
+const statsCache = new Map<string, { expectedSeconds: number, loadedAt: number }>()
+
+/**
+ * Expected seconds when there's no history yet
+ */
+export function getDefaultExpectedSeconds(duration: number | null | undefined): number {
+  return DEFAULT_BASE_SECONDS + (duration ?? 8) * DEFAULT_SECONDS_PER_VIDEO_SECOND
+}
+
+/**
+ * Expected seconds from submission to completion (cached)
+ * Never throws - a stats failure falls back to the default
+ */
+export async function getExpectedDurationSeconds(
+  supabaseClient: SupabaseClient,
+  modelId: string,
+  duration: number | null | undefined
+): Promise<number> {
+  const cacheKey = `${modelId}:${duration ?? 'any'}`
+  const cached = statsCache.get(cacheKey)
+  if (cached && Date.now() - cached.loadedAt < STATS_TTL_MS) {
+    return cached.expectedSeconds
+  }
+
+  let expectedSeconds = getDefaultExpectedSeconds(duration)
+
+  const { data, error } = await supabaseClient.rpc('get_generation_duration_stats', {
+    p_model_id: modelId,
+    p_duration: duration ?? null
+  })
+
+  if (error) {
+    logEvent('generation_duration_stats_error', { model_id: modelId, duration, error: error.message }, 'warn')
+    return expectedSeconds
+  }
+
+  if (data && data.sample_size >= MIN_SAMPLE_SIZE && data.median_seconds > 0) {
+    expectedSeconds = Number(data.median_seconds)
+  }
+
+  statsCache.set(cacheKey, { expectedSeconds, loadedAt: Date.now() })
+  return expectedSeconds
+}
+
+/**
+ * Progress of a job the provider reports IN_QUEUE or IN_PROGRESS
+ *
+ * @param createdAt - video_jobs.created_at (history is measured from the same point)
+ */
+export function estimateJobProgress(
+  providerStatus: ProviderStatus,
+  createdAt: string,
+  expectedSeconds: number,
+  now: number = Date.now()
+): JobProgress {
+  const elapsedSeconds = Math.max(0, (now - Date.parse(createdAt)) / 1000)
+  const remainingSeconds = expectedSeconds - elapsedSeconds
+  const etaSeconds = remainingSeconds > 0 ? Math.round(remainingSeconds) : null
+
+  if (providerStatus.status === 'IN_QUEUE') {
+    return {
+      queue_position: providerStatus.queue_position ?? null,
+      progress: 0,
+      eta_seconds: etaSeconds
+    }
+  }
+
+  const progress = providerStatus.progress !== undefined
+    ? Math.min(99, Math.max(1, providerStatus.progress))
+    : Math.min(MAX_ESTIMATED_PROGRESS, Math.max(1, Math.round((elapsedSeconds / expectedSeconds) * 100)))
+
+  return {
+    queue_position: null,
+    progress,
+    eta_seconds: etaSeconds
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Mock Video Provider
+ *
+ * Deterministic stand-in for a real provider, selected with models.provider = 'mock'.
+ * Nothing is generated: the scenario and submit time are encoded in the request id,
+ * so every status poll (on any function instance) computes the same answer from
+ * the elapsed time alone.
+ *
+ * Scenarios (prompt keyword, case-insensitive):
+ * - [mock:fail]         queued → processing → FAILED (refund path)
+ * - [mock:slow]         like success, but processing takes MOCK_PROVIDER_SLOW_MS
+ * - [mock:stuck]        never finishes (hold expiry / timeout path)
+ * - [mock:no-video]     COMPLETED without a video URL (missing-URL path)
+ * - [mock:submit-error] submit fails with a 503 (failover / provider_submit_failed path)
+ * - anything else       queued → processing → COMPLETED with the sample MP4 (migration path)
+ *
+ * Required Secrets:
+ * - MOCK_PROVIDER_ENABLED: must be 'true' (keeps the mock out of production)
+ *
+ * Optional Secrets:
+ * - MOCK_PROVIDER_QUEUE_MS: time in queue (default 2000)
+ * - MOCK_PROVIDER_PROCESSING_MS: time processing (default 5000)
+ * - MOCK_PROVIDER_SLOW_MS: processing time for [mock:slow] (default 120000)
+ * - MOCK_PROVIDER_VIDEO_URL: sample video (default {SUPABASE_URL}/storage/v1/object/public/videos/mock/sample.mp4)
+ */
+
+import type { ProviderStatus, VideoProvider } from './video-provider.ts'
+import { ProviderError } from './video-provider.ts'
+
+export type MockScenario = 'success' | 'fail' | 'slow' | 'stuck' | 'no-video' | 'submit-error'
+
+const SCENARIO_KEYWORDS: Array<[string, MockScenario]> = [
+  ['[mock:submit-error]', 'submit-error'],
+  ['[mock:no-video]', 'no-video'],
+  ['[mock:stuck]', 'stuck'],
+  ['[mock:slow]', 'slow'],
+  ['[mock:fail]', 'fail']
+]
+
+const REQUEST_ID_PATTERN = /^mock-(success|fail|slow|stuck|no-video)-(\d+)-[0-9a-f]{8}$/
+
+function envMs(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name))
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+function getMockTimings(): { queueMs: number, processingMs: number, slowMs: number } {
+  return {
+    queueMs: envMs('MOCK_PROVIDER_QUEUE_MS', 2000),
+    processingMs: envMs('MOCK_PROVIDER_PROCESSING_MS', 5000),
+    slowMs: envMs('MOCK_PROVIDER_SLOW_MS', 120000)
+  }
+}
+
+function getSampleVideoUrl(): string {
+  return Deno.env.get('MOCK_PROVIDER_VIDEO_URL') ||
+    `${Deno.env.get('SUPABASE_URL') ?? ''}/storage/v1/object/public/videos/mock/sample.mp4`
+}
+
+/**
+ * Pick the scenario a prompt asks for
+ */
+export function getMockScenario(prompt: string): MockScenario {
+  const lowered = prompt.toLowerCase()
+  for (const [keyword, scenario] of SCENARIO_KEYWORDS) {
+    if (lowered.includes(keyword)) {
+      return scenario
+    }
+  }
+  return 'success'
+}
+
+function parseRequestId(requestId: string): { scenario: MockScenario, submittedAt: number } {
+  const match = requestId.match(REQUEST_ID_PATTERN)
+  if (!match) {
+    throw new Error(`Invalid mock request id: ${requestId}`)
+  }
+  return { scenario: match[1] as MockScenario, submittedAt: Number(match[2]) }
+}
+
+/**
+ * Status of a mock job at `now`
+ */
+export function getMockStatus(requestId: string, now: number = Date.now()): ProviderStatus {
+  const { scenario, submittedAt } = parseRequestId(requestId)
+  const { queueMs, processingMs, slowMs } = getMockTimings()
+  const elapsed = now - submittedAt
+
+  if (elapsed < queueMs) {
+    return { status: 'IN_QUEUE', queue_position: 0 }
+  }
+
+  const processingFor = scenario === 'slow' ? slowMs : processingMs
+  if (scenario === 'stuck') {
+    return { status: 'IN_PROGRESS' }
+  }
+  if (elapsed < queueMs + processingFor) {
+    return { status: 'IN_PROGRESS', progress: Math.floor(((elapsed - queueMs) / processingFor) * 100) }
+  }
+
+  switch (scenario) {
+    case 'fail':
+      return { status: 'FAILED', error: 'Mock provider failure ([mock:fail])' }
+    case 'no-video':
+      return { status: 'COMPLETED' }
+    default:
+      return { status: 'COMPLETED', video: { url: getSampleVideoUrl() } }
+  }
+}
+
+function assertMockEnabled(): void {
+  if (Deno.env.get('MOCK_PROVIDER_ENABLED') !== 'true') {
+    throw new Error('Mock provider is disabled (set MOCK_PROVIDER_ENABLED=true)')
+  }
+}
+
+export const mockProvider: VideoProvider = {
+  id: 'mock',
+
+  describe() {
+    return {
+      name: 'Mock',
+      supports_cancel: true,
+      input_modes: ['image_to_video', 'text_to_video'],
+      durations: [4, 8, 12],
+      aspect_ratios: ['auto', '9:16', '16:9'],
+      resolutions: ['auto', '720p']
+    }
+  },
+
+  submit(request) {
+    assertMockEnabled()
+
+    const scenario = getMockScenario(request.prompt)
+    if (scenario === 'submit-error') {
+      throw new ProviderError('Mock provider submit error ([mock:submit-error])', 503)
+    }
+
+    const suffix = crypto.randomUUID().replace(/-/g, '').substring(0, 8)
+    return Promise.resolve({ request_id: `mock-${scenario}-${Date.now()}-${suffix}` })
+  },
+
+  getStatus(_modelId, requestId) {
+    assertMockEnabled()
+    return Promise.resolve(getMockStatus(requestId))
+  },
+
+  getResult(_modelId, requestId, status) {
+    const latest = status ?? getMockStatus(requestId)
+    return Promise.resolve({ videoUrl: latest.status === 'COMPLETED' ? latest.video?.url ?? null : null })
+  },
+
+  cancel(_modelId, requestId) {
+    // Only jobs that haven't finished can be cancelled
+    const { status } = getMockStatus(requestId)
+    return Promise.resolve(status === 'IN_QUEUE' || status === 'IN_PROGRESS')
+  }
+}
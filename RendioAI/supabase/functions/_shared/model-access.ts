@@ -0,0 +1,21 @@
+/**
+ * Model Access
+ *
+ * Which users may generate with which models (models.min_tier).
+ * Tier order: free < premium
+ */
+
+const TIER_RANK: Record<string, number> = {
+  free: 0,
+  premium: 1
+}
+
+/**
+ * Whether a user's tier meets a model's minimum tier
+ * Unknown tiers are treated as free
+ */
+export function isTierAllowed(userTier: string | null | undefined, minTier: string | null | undefined): boolean {
+  const userRank = TIER_RANK[userTier ?? 'free'] ?? 0
+  const requiredRank = TIER_RANK[minTier ?? 'free'] ?? 0
+  return userRank >= requiredRank
+}
@@ -0,0 +1,240 @@
+/**
+ * Pika Image-to-Video / Text-to-Video Adapter
+ *
+ * Handles communication with Pika's generation API (submit → poll /videos/{id})
+ * Registered as the 'pika' VideoProvider (see video-providers.ts)
+ *
+ * Settings mapping:
+ * - aspect_ratio: 16:9 / 9:16 passed through (auto = 16:9)
+ * - duration: 5s or 10s, passed through (anything else is rejected)
+ * - resolution: auto / 720p → 720p
+ *
+ * Lifecycle mapping:
+ * - queued, pending      → IN_QUEUE    (job: pending)
+ * - started, processing  → IN_PROGRESS (job: processing)
+ * - finished             → COMPLETED   (job: completed)
+ * - failed, cancelled    → FAILED      (job: failed)
+ *
+ * API contract (not from a published reference - Pika's public API is served
+ * through FalAI; verify against the docs that come with direct API access):
+ * - POST /v1/generate { model, promptText, image?, options } → { video_id }
+ * - GET  /v1/videos/{id} → { id, status, url?, error?, progress? }
+ * - POST /v1/videos/{id}/cancel → 409 once the video has started
+ * - Auth: X-API-KEY header
+ * tests/pika-adapter/fake-pika-api.ts implements the same contract.
+ *
+ * Required Secrets:
+ * - PIKA_API_KEY
+ *
+ * Optional Secrets:
+ * - PIKA_API_URL: API base (default https://api.pika.art)
+ */
+
+import type { FinalSettings } from './video-pricing.ts'
+import type { ProviderJobStatus, ProviderStatus, VideoProvider } from './video-provider.ts'
+import { PROVIDER_RETRY_OPTIONS, PROVIDER_SUBMIT_RETRY_OPTIONS, ProviderError } from './video-provider.ts'
+import { fetchWithRetry, type RetryOptions } from './retry.ts'
+
+const DEFAULT_PIKA_API_URL = 'https://api.pika.art'
+
+const PIKA_ASPECT_RATIOS: Record<FinalSettings['aspect_ratio'], string> = {
+  'auto': '16:9',
+  '16:9': '16:9',
+  '9:16': '9:16'
+}
+
+const PIKA_DURATIONS: FinalSettings['duration'][] = [5, 10]
+
+type PikaVideoStatus = 'queued' | 'pending' | 'started' | 'processing' | 'finished' | 'failed' | 'cancelled'
+
+interface PikaVideo {
+  id: string
+  status: PikaVideoStatus
+  url?: string
+  error?: string
+  progress?: number // 0-100 while processing
+}
+
+function getPikaConfig(): { apiKey: string, baseUrl: string } {
+  const apiKey = Deno.env.get('PIKA_API_KEY')
+
+  if (!apiKey) {
+    throw new Error('PIKA_API_KEY environment variable not set')
+  }
+
+  return {
+    apiKey,
+    baseUrl: (Deno.env.get('PIKA_API_URL') || DEFAULT_PIKA_API_URL).replace(/\/$/, '')
+  }
+}
+
+async function pikaRequest(
+  path: string,
+  init: RequestInit = {},
+  retryOptions: RetryOptions = PROVIDER_RETRY_OPTIONS
+): Promise<Response> {
+  const { apiKey, baseUrl } = getPikaConfig()
+
+  return await fetchWithRetry(`${baseUrl}${path}`, {
+    ...init,
+    headers: {
+      'X-API-KEY': apiKey,
+      'Content-Type': 'application/json'
+    }
+  }, { ...retryOptions, label: `pika ${init.method ?? 'GET'} ${path}` })
+}
+
+/**
+ * Map Pika video status to our provider status
+ */
+export function mapPikaStatus(status: PikaVideoStatus): ProviderJobStatus {
+  switch (status) {
+    case 'finished':
+      return 'COMPLETED'
+    case 'failed':
+    case 'cancelled':
+      return 'FAILED'
+    case 'started':
+    case 'processing':
+      return 'IN_PROGRESS'
+    default:
+      // queued, pending
+      return 'IN_QUEUE'
+  }
+}
+
+/**
+ * Map FinalSettings onto Pika's options
+ */
+export function mapPikaSettings(settings: FinalSettings): { aspectRatio: string, duration: number, resolution: string } {
+  if (!PIKA_DURATIONS.includes(settings.duration)) {
+    throw new Error(`Pika does not support ${settings.duration}s videos`)
+  }
+
+  return {
+    aspectRatio: PIKA_ASPECT_RATIOS[settings.aspect_ratio] || PIKA_ASPECT_RATIOS['auto'],
+    duration: settings.duration,
+    resolution: '720p'
+  }
+}
+
+/**
+ * Submit a video generation to Pika
+ * (image-to-video when an image is given, text-to-video otherwise)
+ */
+export async function submitPikaJob(
+  modelId: string,
+  prompt: string,
+  imageUrl: string | undefined,
+  settings: FinalSettings
+): Promise<{ request_id: string }> {
+  const options = mapPikaSettings(settings)
+
+  const requestBody: Record<string, unknown> = {
+    model: modelId,
+    promptText: prompt,
+    options
+  }
+  if (imageUrl) {
+    requestBody.image = imageUrl
+  }
+
+  const response = await pikaRequest('/v1/generate', {
+    method: 'POST',
+    body: JSON.stringify(requestBody)
+  }, PROVIDER_SUBMIT_RETRY_OPTIONS)
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new ProviderError(`Pika API error: ${response.status} ${response.statusText} - ${errorText}`, response.status)
+  }
+
+  const data = await response.json()
+  const videoId = data.video_id || data.id
+
+  if (!videoId) {
+    throw new Error('Pika API error: response missing video id')
+  }
+
+  return { request_id: videoId }
+}
+
+/**
+ * Check the status of a Pika video
+ */
+export async function checkPikaStatus(videoId: string): Promise<ProviderStatus> {
+  const response = await pikaRequest(`/v1/videos/${encodeURIComponent(videoId)}`, { method: 'GET' })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new ProviderError(`Pika status check error: ${response.status} ${response.statusText} - ${errorText}`, response.status)
+  }
+
+  const video: PikaVideo = await response.json()
+  const status = mapPikaStatus(video.status)
+
+  return {
+    status,
+    video: video.url ? { url: video.url } : undefined,
+    error: status === 'FAILED' ? (video.error || 'Video generation failed') : undefined,
+    progress: typeof video.progress === 'number' ? Math.round(video.progress) : undefined
+  }
+}
+
+/**
+ * Cancel a Pika video that hasn't started
+ */
+export async function cancelPikaJob(videoId: string): Promise<boolean> {
+  const response = await pikaRequest(`/v1/videos/${encodeURIComponent(videoId)}/cancel`, { method: 'POST' })
+
+  if (response.ok) {
+    return true
+  }
+
+  // 404 = unknown video, 409 = already started or finished
+  if (response.status === 404 || response.status === 409) {
+    return false
+  }
+
+  const errorText = await response.text()
+  throw new ProviderError(`Pika cancel error: ${response.status} ${response.statusText} - ${errorText}`, response.status)
+}
+
+export const pikaProvider: VideoProvider = {
+  id: 'pika',
+
+  describe() {
+    return {
+      name: 'Pika',
+      supports_cancel: true,
+      input_modes: ['image_to_video', 'text_to_video'],
+      durations: PIKA_DURATIONS,
+      aspect_ratios: Object.keys(PIKA_ASPECT_RATIOS),
+      resolutions: ['auto', '720p']
+    }
+  },
+
+  submit(request) {
+    if (request.inputMode === 'image_to_video' && !request.imageUrl) {
+      throw new Error('image_url is required for image_to_video')
+    }
+    const imageUrl = request.inputMode === 'image_to_video' ? request.imageUrl : undefined
+    return submitPikaJob(request.modelId, request.prompt, imageUrl, request.settings)
+  },
+
+  getStatus(_modelId, requestId) {
+    return checkPikaStatus(requestId)
+  },
+
+  async getResult(_modelId, requestId, status) {
+    if (status?.video?.url) {
+      return { videoUrl: status.video.url }
+    }
+    const latest = await checkPikaStatus(requestId)
+    return { videoUrl: latest.status === 'COMPLETED' ? latest.video?.url ?? null : null }
+  },
+
+  cancel(_modelId, requestId) {
+    return cancelPikaJob(requestId)
+  }
+}
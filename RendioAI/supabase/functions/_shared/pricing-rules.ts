@@ -0,0 +1,253 @@
+/**
+ * Pricing Rules
+ *
+ * Evaluates a model's pricing_rules row for a set of generation settings.
+ * Every adjustment is recorded as a step so callers (quote-video, support
+ * tooling) can show exactly how the final credit amount was derived.
+ *
+ * Order of evaluation:
+ * 1. base_price + per_second_price × duration
+ * 2. resolution multiplier, aspect-ratio multiplier
+ * 3. tier discount, promotional discount (inside its window)
+ * 4. dollars → credits (rounded), then minimum charge
+ *
+ * Optional Secrets:
+ * - PRICING_DOLLARS_PER_CREDIT: default conversion rate (default 0.1 = $0.1 per credit)
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { FinalSettings, PricingType } from './video-pricing.ts'
+
+const DEFAULT_DOLLARS_PER_CREDIT = 0.1
+
+export interface PricingRule {
+  id: string
+  model_id: string
+  name: string
+  is_active: boolean
+  base_price: number
+  per_second_price: number
+  resolution_multipliers: Record<string, number>
+  aspect_ratio_multipliers: Record<string, number>
+  tier_discounts: Record<string, number>
+  promo_name: string | null
+  promo_discount: number | null
+  promo_starts_at: string | null
+  promo_ends_at: string | null
+  dollars_per_credit: number | null
+  minimum_credits: number
+}
+
+export interface PricingStep {
+  step: 'base_price' | 'per_second' | 'resolution' | 'aspect_ratio' | 'tier_discount' | 'promo' | 'credit_conversion' | 'minimum_charge'
+  description: string
+  dollars: number   // Running total after this step
+  credits?: number  // Set once dollars are converted
+}
+
+export interface PricingContext {
+  tier?: string
+  now?: Date
+}
+
+export interface PriceEvaluation {
+  rule_id: string | null
+  pricing_type: PricingType
+  credits: number
+  cost_in_dollars: number
+  dollars_per_credit: number
+  steps: PricingStep[]
+}
+
+/**
+ * Conversion rate used when a rule doesn't set its own
+ */
+export function getDefaultDollarsPerCredit(): number {
+  const configured = Number(Deno.env.get('PRICING_DOLLARS_PER_CREDIT'))
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_DOLLARS_PER_CREDIT
+}
+
+/**
+ * Whether the rule's promotion applies at `now`
+ */
+export function isPromoActive(rule: PricingRule, now: Date = new Date()): boolean {
+  if (!rule.promo_discount || Number(rule.promo_discount) <= 0) {
+    return false
+  }
+  if (rule.promo_starts_at && new Date(rule.promo_starts_at) > now) {
+    return false
+  }
+  if (rule.promo_ends_at && new Date(rule.promo_ends_at) <= now) {
+    return false
+  }
+  return true
+}
+
+function roundDollars(value: number): number {
+  return Math.round(value * 10000) / 10000
+}
+
+/**
+ * Convert a dollar amount to credits and apply the minimum charge
+ *
+ * Shared by rule-based and legacy pricing so both round the same way.
+ */
+export function convertToCredits(
+  dollars: number,
+  dollarsPerCredit: number,
+  minimumCredits: number,
+  steps: PricingStep[]
+): { credits: number, dollars: number } {
+  let credits = Math.round(dollars / dollarsPerCredit)
+  steps.push({
+    step: 'credit_conversion',
+    description: `$${roundDollars(dollars)} ÷ $${dollarsPerCredit} per credit`,
+    dollars: roundDollars(dollars),
+    credits
+  })
+
+  if (credits < minimumCredits) {
+    credits = minimumCredits
+    dollars = credits * dollarsPerCredit
+    steps.push({
+      step: 'minimum_charge',
+      description: `Raised to minimum of ${minimumCredits} credits`,
+      dollars: roundDollars(dollars),
+      credits
+    })
+  }
+
+  return { credits, dollars: roundDollars(dollars) }
+}
+
+/**
+ * Price a generation with a pricing rule
+ */
+export function evaluatePricingRule(
+  rule: PricingRule,
+  settings: FinalSettings,
+  context: PricingContext = {}
+): PriceEvaluation {
+  const now = context.now ?? new Date()
+  const steps: PricingStep[] = []
+  const perSecondPrice = Number(rule.per_second_price) || 0
+
+  // 1. Base + duration
+  let dollars = Number(rule.base_price) || 0
+  steps.push({ step: 'base_price', description: `Base price $${dollars}`, dollars: roundDollars(dollars) })
+
+  if (perSecondPrice > 0) {
+    dollars += perSecondPrice * settings.duration
+    steps.push({
+      step: 'per_second',
+      description: `$${perSecondPrice} × ${settings.duration}s`,
+      dollars: roundDollars(dollars)
+    })
+  }
+
+  // 2. Setting multipliers
+  const resolutionMultiplier = rule.resolution_multipliers?.[settings.resolution]
+  if (resolutionMultiplier !== undefined && Number(resolutionMultiplier) !== 1) {
+    dollars *= Number(resolutionMultiplier)
+    steps.push({
+      step: 'resolution',
+      description: `${settings.resolution} × ${resolutionMultiplier}`,
+      dollars: roundDollars(dollars)
+    })
+  }
+
+  const aspectRatioMultiplier = rule.aspect_ratio_multipliers?.[settings.aspect_ratio]
+  if (aspectRatioMultiplier !== undefined && Number(aspectRatioMultiplier) !== 1) {
+    dollars *= Number(aspectRatioMultiplier)
+    steps.push({
+      step: 'aspect_ratio',
+      description: `${settings.aspect_ratio} × ${aspectRatioMultiplier}`,
+      dollars: roundDollars(dollars)
+    })
+  }
+
+  // 3. Discounts
+  const tierDiscount = context.tier ? Number(rule.tier_discounts?.[context.tier] ?? 0) : 0
+  if (tierDiscount > 0) {
+    dollars *= 1 - Math.min(tierDiscount, 1)
+    steps.push({
+      step: 'tier_discount',
+      description: `${context.tier} tier ${Math.round(tierDiscount * 100)}% off`,
+      dollars: roundDollars(dollars)
+    })
+  }
+
+  if (isPromoActive(rule, now)) {
+    const promoDiscount = Number(rule.promo_discount)
+    dollars *= 1 - promoDiscount
+    steps.push({
+      step: 'promo',
+      description: `${rule.promo_name || 'Promotion'} ${Math.round(promoDiscount * 100)}% off`,
+      dollars: roundDollars(dollars)
+    })
+  }
+
+  // 4. Credits
+  const dollarsPerCredit = Number(rule.dollars_per_credit) || getDefaultDollarsPerCredit()
+  const converted = convertToCredits(dollars, dollarsPerCredit, rule.minimum_credits ?? 0, steps)
+
+  return {
+    rule_id: rule.id,
+    pricing_type: perSecondPrice > 0 ? 'per_second' : 'per_video',
+    credits: converted.credits,
+    cost_in_dollars: converted.dollars,
+    dollars_per_credit: dollarsPerCredit,
+    steps
+  }
+}
+
+/**
+ * Load the active pricing rule for a model (null = use legacy pricing)
+ */
+export async function getPricingRule(
+  supabaseClient: SupabaseClient,
+  modelId: string
+): Promise<PricingRule | null> {
+  const { data, error } = await supabaseClient
+    .from('pricing_rules')
+    .select('*')
+    .eq('model_id', modelId)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data as PricingRule | null
+}
+
+/**
+ * Load the active rules for several models in one query
+ *
+ * @returns Map of model_id → rule (models without a rule are absent)
+ */
+export async function getPricingRules(
+  supabaseClient: SupabaseClient,
+  modelIds: string[]
+): Promise<Map<string, PricingRule>> {
+  const rules = new Map<string, PricingRule>()
+  if (modelIds.length === 0) {
+    return rules
+  }
+
+  const { data, error } = await supabaseClient
+    .from('pricing_rules')
+    .select('*')
+    .in('model_id', modelIds)
+    .eq('is_active', true)
+
+  if (error) {
+    throw error
+  }
+
+  for (const rule of (data || []) as PricingRule[]) {
+    rules.set(rule.model_id, rule)
+  }
+  return rules
+}
@@ -0,0 +1,104 @@
+/**
+ * Product Catalog
+ *
+ * Reads the iap_products table (credit packs + subscription plans).
+ * The whole catalog is small, so it is loaded in one query and cached
+ * per function instance for CATALOG_TTL_MS.
+ *
+ * NEVER trust client - credits always come from this server-side catalog.
+ */
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const CATALOG_TTL_MS = 5 * 60 * 1000
+
+export interface IAPProduct {
+  product_id: string
+  name: string
+  description: string | null
+  credits: number
+  bonus_credits: number
+  product_type: 'consumable' | 'auto_renewable_subscription'
+  tier: 'premium' | null
+  platform: 'ios' | 'android' | 'all'
+  is_active: boolean
+  is_featured: boolean
+  valid_from: string | null
+  valid_until: string | null
+  display_order: number
+  metadata: Record<string, unknown>
+}
+
+let catalogCache: { products: Map<string, IAPProduct>, loadedAt: number } | null = null
+
+/**
+ * Load all products (cached)
+ *
+ * @param supabaseClient - Optional client; a service-role client is created if omitted
+ */
+export async function getProductCatalog(supabaseClient?: SupabaseClient): Promise<Map<string, IAPProduct>> {
+  if (catalogCache && Date.now() - catalogCache.loadedAt < CATALOG_TTL_MS) {
+    return catalogCache.products
+  }
+
+  const client = supabaseClient ?? createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  const { data, error } = await client
+    .from('iap_products')
+    .select('*')
+    .order('display_order', { ascending: true })
+
+  if (error) {
+    // Serve stale catalog rather than failing purchases on a transient DB error
+    if (catalogCache) {
+      console.error('⚠️ Failed to refresh product catalog, using cached copy:', error.message)
+      return catalogCache.products
+    }
+    throw error
+  }
+
+  const products = new Map<string, IAPProduct>()
+  for (const product of (data || []) as IAPProduct[]) {
+    products.set(product.product_id, product)
+  }
+
+  catalogCache = { products, loadedAt: Date.now() }
+  return products
+}
+
+/**
+ * Get a single product by App Store product ID
+ */
+export async function getProduct(productId: string, supabaseClient?: SupabaseClient): Promise<IAPProduct | null> {
+  const catalog = await getProductCatalog(supabaseClient)
+  return catalog.get(productId) ?? null
+}
+
+/**
+ * Whether a product should be listed in the store right now
+ */
+export function isProductAvailable(product: IAPProduct, platform: string, now: Date = new Date()): boolean {
+  if (!product.is_active) {
+    return false
+  }
+  if (product.platform !== 'all' && product.platform !== platform) {
+    return false
+  }
+  if (product.valid_from && new Date(product.valid_from) > now) {
+    return false
+  }
+  if (product.valid_until && new Date(product.valid_until) <= now) {
+    return false
+  }
+  return true
+}
+
+/**
+ * Drop the cached catalog (next read hits the database)
+ */
+export function clearProductCatalogCache(): void {
+  catalogCache = null
+}
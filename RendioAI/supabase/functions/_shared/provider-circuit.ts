@@ -0,0 +1,156 @@
+/**
+ * Provider Circuit Breaker
+ *
+ * Per-provider circuit state lives in provider_health (see migration
+ * 20251116000016) so every function instance sees the same state:
+ * - closed:    submissions flow
+ * - open:      error rate reached FAILURE_THRESHOLD over WINDOW_SECONDS;
+ *              submissions are refused for COOLDOWN_SECONDS
+ * - half_open: cooldown over; one probe submission decides open vs closed
+ *
+ * Circuit lookups fail open: if the database can't answer, the provider is tried.
+ * Telegram is alerted when a circuit opens, not on every failed submission.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { isProviderSideError } from './video-providers.ts'
+import { alertProviderError } from './telegram.ts'
+import { logEvent } from './logger.ts'
+
+export const COOLDOWN_SECONDS = 60
+const WINDOW_SECONDS = 300
+const MIN_REQUESTS = 5
+const FAILURE_THRESHOLD = 0.5
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitCheck {
+  allowed: boolean
+  state: CircuitState
+  retry_after_seconds?: number
+}
+
+export interface ProviderHealthRow {
+  provider: string
+  state: CircuitState
+  window_started_at: string
+  window_requests: number
+  window_failures: number
+  consecutive_failures: number
+  opened_at: string | null
+  probe_started_at: string | null
+  last_failure_at: string | null
+  last_failure_message: string | null
+  last_success_at: string | null
+  updated_at: string
+}
+
+/**
+ * Every provider a request could go to has an open circuit
+ */
+export class ProviderUnavailableError extends Error {
+  readonly retryAfterSeconds: number
+
+  constructor(message: string, retryAfterSeconds: number) {
+    super(message)
+    this.name = 'ProviderUnavailableError'
+    this.retryAfterSeconds = retryAfterSeconds
+  }
+}
+
+/**
+ * Whether a provider may take a submission now
+ *
+ * @param claimProbe - false to only look (pre-flight checks); true right before
+ *   submitting, so a half-open circuit lets exactly one probe through
+ */
+export async function checkProviderCircuit(
+  supabaseClient: SupabaseClient,
+  provider: string,
+  claimProbe = true
+): Promise<CircuitCheck> {
+  const { data, error } = await supabaseClient.rpc('check_provider_circuit', {
+    p_provider: provider,
+    p_cooldown_seconds: COOLDOWN_SECONDS,
+    p_claim_probe: claimProbe
+  })
+
+  if (error) {
+    logEvent('provider_circuit_check_error', { provider, error: error.message }, 'warn')
+    return { allowed: true, state: 'closed' }
+  }
+
+  return data as CircuitCheck
+}
+
+/**
+ * Record a submission outcome
+ * Errors that aren't the provider's fault (see isProviderSideError) are ignored.
+ * Never throws.
+ */
+export async function recordProviderResult(
+  supabaseClient: SupabaseClient,
+  provider: string,
+  submitError?: unknown
+): Promise<void> {
+  if (submitError !== undefined && !isProviderSideError(submitError)) {
+    return
+  }
+
+  const errorMessage = submitError instanceof Error ? submitError.message : submitError && String(submitError)
+
+  const { data, error } = await supabaseClient.rpc('record_provider_result', {
+    p_provider: provider,
+    p_success: submitError === undefined,
+    p_error_message: errorMessage ?? null,
+    p_window_seconds: WINDOW_SECONDS,
+    p_min_requests: MIN_REQUESTS,
+    p_failure_threshold: FAILURE_THRESHOLD
+  })
+
+  if (error) {
+    logEvent('provider_circuit_record_error', { provider, error: error.message }, 'warn')
+    return
+  }
+
+  if (data.state === data.previous_state) {
+    return
+  }
+
+  logEvent('provider_circuit_state_changed', {
+    provider,
+    from: data.previous_state,
+    to: data.state,
+    error_rate: data.error_rate,
+    window_requests: data.window_requests,
+    window_failures: data.window_failures
+  }, data.state === 'open' ? 'error' : 'info')
+
+  if (data.state === 'open') {
+    try {
+      await alertProviderError(provider, new Error(
+        `Circuit opened (error rate ${Math.round(data.error_rate * 100)}% over ${data.window_requests} requests): ${errorMessage}`
+      ))
+    } catch (_alertError) {
+      // Alerting must not affect the request
+    }
+  }
+}
+
+/**
+ * Circuit state of every provider that has recorded a result
+ */
+export async function getProviderHealth(
+  supabaseClient: SupabaseClient
+): Promise<ProviderHealthRow[]> {
+  const { data, error } = await supabaseClient
+    .from('provider_health')
+    .select('*')
+    .order('provider')
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []) as ProviderHealthRow[]
+}
@@ -0,0 +1,208 @@
+/**
+ * Retry Helper
+ * Purpose: Retry external API calls (video providers, Apple) with exponential backoff
+ *
+ * Only transient failures are retried (see isRetryableError):
+ * - network errors and timeouts
+ * - HTTP 408, 429 and 5xx
+ * Permanent failures (other 4xx: validation, auth, not found) fail immediately.
+ * A Retry-After header on the failed response replaces the backoff delay;
+ * if it asks for longer than maxDelay we give up instead of waiting.
+ *
+ * Calls that must not run twice (a provider submit creates a paid job) use
+ * isSafeToResend instead: only failures where the request can't have been accepted.
+ */
+
+import { logEvent } from './logger.ts'
+
+export interface RetryOptions {
+  maxRetries?: number
+  baseDelay?: number
+  maxDelay?: number
+  retryableErrors?: string[]                // Extra message substrings to treat as retryable
+  isRetryable?: (error: unknown) => boolean // Replaces the default classification
+  timeoutMs?: number                        // fetchWithRetry: per-attempt timeout
+  label?: string                            // Shown in retry logs
+}
+
+/**
+ * Non-2xx HTTP response (status + Retry-After, for classification)
+ */
+export class HttpError extends Error {
+  readonly status: number
+  readonly retryAfterMs?: number
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message)
+    this.name = 'HttpError'
+    this.status = status
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay-seconds or HTTP-date)
+ *
+ * @returns Milliseconds to wait, or undefined if absent/unparseable
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined
+  }
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Whether an HTTP status is worth retrying
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+const TRANSIENT_MESSAGE = /timeout|timed out|network|connection (reset|refused|closed)|ECONNRESET/i
+
+/**
+ * Classify an error: true = transient (retry), false = permanent (fail now)
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return isRetryableStatus(error.status)
+  }
+  if (!(error instanceof Error)) {
+    return false
+  }
+  // fetch() rejects with TypeError on connection failures; AbortSignal.timeout() with TimeoutError
+  if (error.name === 'TypeError' || error.name === 'TimeoutError' || error.name === 'AbortError') {
+    return true
+  }
+  return TRANSIENT_MESSAGE.test(error.message)
+}
+
+// fetch() connection failures: Deno 1.x puts the reason in the message, 2.x in the cause
+const CONNECT_FAILURE = /\bconnect\b|dns error/i
+
+/**
+ * Classify an error for non-idempotent requests: true only if the server
+ * can't have acted on the request
+ * - the connection was never established (DNS, refused, TCP connect)
+ * - 429 (turned away by rate limiting)
+ * - 503 with Retry-After (server explicitly asks us to come back)
+ * Timeouts, resets and other 5xx are permanent here: the request may have been accepted.
+ */
+export function isSafeToResend(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.status === 429 || (error.status === 503 && error.retryAfterMs !== undefined)
+  }
+  if (!(error instanceof TypeError)) {
+    return false
+  }
+  const cause = error.cause instanceof Error ? error.cause.message : ''
+  return CONNECT_FAILURE.test(error.message) || CONNECT_FAILURE.test(cause)
+}
+
+/**
+ * Retry a function with exponential backoff
+ * @param fn - Function to retry
+ * @param options - Retry configuration
+ */
+export async function retryWithBackoff<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const {
+    maxRetries = 3,
+    baseDelay = 1000,
+    maxDelay = 10000,
+    retryableErrors = [],
+    isRetryable = isRetryableError,
+    label = 'external_call'
+  } = options
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      return await fn()
+    } catch (error) {
+      const isLastAttempt = attempt === maxRetries
+      const errorMessage = error instanceof Error ? error.message : String(error)
+
+      const retryable = isRetryable(error) ||
+        retryableErrors.some((msg) => errorMessage.includes(msg))
+
+      if (isLastAttempt || !retryable) {
+        throw error
+      }
+
+      // Server-specified delay wins over backoff, but never wait longer than maxDelay
+      const retryAfterMs = error instanceof HttpError ? error.retryAfterMs : undefined
+      if (retryAfterMs !== undefined && retryAfterMs > maxDelay) {
+        throw error
+      }
+      const delay = retryAfterMs ?? Math.min(baseDelay * Math.pow(2, attempt), maxDelay)
+
+      logEvent('retry_scheduled', {
+        label,
+        attempt: attempt + 1,
+        max_retries: maxRetries,
+        delay_ms: delay,
+        status: error instanceof HttpError ? error.status : undefined,
+        error: errorMessage
+      }, 'warn')
+
+      await sleep(delay)
+    }
+  }
+
+  throw new Error('Max retries exceeded')
+}
+
+/**
+ * fetch() with retries on network errors and retryable statuses
+ *
+ * Always resolves with a Response once retries are used up, so callers keep
+ * their own non-2xx handling; only network errors/timeouts reject.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  options: RetryOptions = {}
+): Promise<Response> {
+  let lastResponse: Response | null = null
+
+  try {
+    return await retryWithBackoff(async () => {
+      const response = await fetch(url, {
+        ...init,
+        signal: options.timeoutMs ? AbortSignal.timeout(options.timeoutMs) : init.signal
+      })
+
+      if (isRetryableStatus(response.status)) {
+        await lastResponse?.body?.cancel()
+        lastResponse = response
+        throw new HttpError(
+          `HTTP ${response.status} ${response.statusText}`,
+          response.status,
+          parseRetryAfter(response.headers.get('Retry-After'))
+        )
+      }
+
+      return response
+    }, options)
+  } catch (error) {
+    if (error instanceof HttpError && lastResponse) {
+      return lastResponse
+    }
+    throw error
+  }
+}
+
+/**
+ * Sleep for specified milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
@@ -0,0 +1,232 @@
+/**
+ * Runway Image-to-Video / Text-to-Video Adapter
+ *
+ * Handles communication with Runway's task API (submit → poll /tasks/{id})
+ * Registered as the 'runway' VideoProvider (see video-providers.ts)
+ *
+ * Settings mapping:
+ * - aspect_ratio: 16:9 → 1280:720, 9:16 → 720:1280 (auto = 16:9)
+ * - duration: 5s or 10s, passed through (anything else is rejected)
+ * - resolution: Runway renders 720p, so 'auto' and '720p' are equivalent
+ *
+ * Required Secrets:
+ * - RUNWAY_API_KEY
+ *
+ * Optional Secrets:
+ * - RUNWAY_API_URL: API base (default https://api.dev.runwayml.com; point at a local fake for testing)
+ * - RUNWAY_API_VERSION: X-Runway-Version header (default 2024-11-06)
+ */
+
+import type { FinalSettings } from './video-pricing.ts'
+import type { ProviderJobStatus, ProviderStatus, VideoProvider } from './video-provider.ts'
+import { PROVIDER_RETRY_OPTIONS, PROVIDER_SUBMIT_RETRY_OPTIONS, ProviderError } from './video-provider.ts'
+import { fetchWithRetry, type RetryOptions } from './retry.ts'
+
+const DEFAULT_RUNWAY_API_URL = 'https://api.dev.runwayml.com'
+const DEFAULT_RUNWAY_API_VERSION = '2024-11-06'
+
+const RUNWAY_RATIOS: Record<FinalSettings['aspect_ratio'], string> = {
+  'auto': '1280:720',
+  '16:9': '1280:720',
+  '9:16': '720:1280'
+}
+
+const RUNWAY_DURATIONS: FinalSettings['duration'][] = [5, 10]
+
+type RunwayTaskStatus = 'PENDING' | 'THROTTLED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELLED'
+
+interface RunwayTask {
+  id: string
+  status: RunwayTaskStatus
+  output?: string[]
+  failure?: string
+  failureCode?: string
+  progress?: number // 0-1 while RUNNING
+}
+
+function getRunwayConfig(): { apiKey: string, baseUrl: string, version: string } {
+  const apiKey = Deno.env.get('RUNWAY_API_KEY')
+
+  if (!apiKey) {
+    throw new Error('RUNWAY_API_KEY environment variable not set')
+  }
+
+  return {
+    apiKey,
+    baseUrl: (Deno.env.get('RUNWAY_API_URL') || DEFAULT_RUNWAY_API_URL).replace(/\/$/, ''),
+    version: Deno.env.get('RUNWAY_API_VERSION') || DEFAULT_RUNWAY_API_VERSION
+  }
+}
+
+async function runwayRequest(
+  path: string,
+  init: RequestInit = {},
+  retryOptions: RetryOptions = PROVIDER_RETRY_OPTIONS
+): Promise<Response> {
+  const { apiKey, baseUrl, version } = getRunwayConfig()
+
+  return await fetchWithRetry(`${baseUrl}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'X-Runway-Version': version,
+      'Content-Type': 'application/json'
+    }
+  }, { ...retryOptions, label: `runway ${init.method ?? 'GET'} ${path}` })
+}
+
+/**
+ * Map Runway task status to our provider status
+ */
+export function mapRunwayStatus(status: RunwayTaskStatus): ProviderJobStatus {
+  switch (status) {
+    case 'SUCCEEDED':
+      return 'COMPLETED'
+    case 'FAILED':
+    case 'CANCELLED':
+      return 'FAILED'
+    case 'RUNNING':
+      return 'IN_PROGRESS'
+    default:
+      // PENDING, THROTTLED
+      return 'IN_QUEUE'
+  }
+}
+
+/**
+ * Map FinalSettings onto Runway's ratio/duration parameters
+ */
+export function mapRunwaySettings(settings: FinalSettings): { ratio: string, duration: number } {
+  if (!RUNWAY_DURATIONS.includes(settings.duration)) {
+    throw new Error(`Runway does not support ${settings.duration}s videos`)
+  }
+
+  return {
+    ratio: RUNWAY_RATIOS[settings.aspect_ratio] || RUNWAY_RATIOS['auto'],
+    duration: settings.duration
+  }
+}
+
+/**
+ * Submit a video generation task to Runway
+ * (image_to_video when an image is given, text_to_video otherwise)
+ */
+export async function submitRunwayJob(
+  modelId: string,
+  prompt: string,
+  imageUrl: string | undefined,
+  settings: FinalSettings
+): Promise<{ request_id: string }> {
+  const { ratio, duration } = mapRunwaySettings(settings)
+
+  const path = imageUrl ? '/v1/image_to_video' : '/v1/text_to_video'
+  const requestBody: Record<string, unknown> = {
+    model: modelId,
+    promptText: prompt,
+    ratio,
+    duration
+  }
+  if (imageUrl) {
+    requestBody.promptImage = imageUrl
+  }
+
+  const response = await runwayRequest(path, {
+    method: 'POST',
+    body: JSON.stringify(requestBody)
+  }, PROVIDER_SUBMIT_RETRY_OPTIONS)
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new ProviderError(`Runway API error: ${response.status} ${response.statusText} - ${errorText}`, response.status)
+  }
+
+  const data = await response.json()
+
+  if (!data.id) {
+    throw new Error('Runway API error: response missing task id')
+  }
+
+  return { request_id: data.id }
+}
+
+/**
+ * Check the status of a Runway task
+ */
+export async function checkRunwayStatus(taskId: string): Promise<ProviderStatus> {
+  const response = await runwayRequest(`/v1/tasks/${encodeURIComponent(taskId)}`, { method: 'GET' })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new ProviderError(`Runway status check error: ${response.status} ${response.statusText} - ${errorText}`, response.status)
+  }
+
+  const task: RunwayTask = await response.json()
+  const status = mapRunwayStatus(task.status)
+  const videoUrl = task.output?.[0]
+
+  return {
+    status,
+    video: videoUrl ? { url: videoUrl } : undefined,
+    error: status === 'FAILED'
+      ? (task.failure || (task.status === 'CANCELLED' ? 'Cancelled by provider' : 'Video generation failed'))
+      : undefined,
+    progress: typeof task.progress === 'number' ? Math.round(task.progress * 100) : undefined
+  }
+}
+
+/**
+ * Cancel (or delete) a Runway task
+ */
+export async function cancelRunwayJob(taskId: string): Promise<boolean> {
+  const response = await runwayRequest(`/v1/tasks/${encodeURIComponent(taskId)}`, { method: 'DELETE' })
+
+  if (response.ok) {
+    return true
+  }
+
+  if (response.status === 404) {
+    return false
+  }
+
+  const errorText = await response.text()
+  throw new ProviderError(`Runway cancel error: ${response.status} ${response.statusText} - ${errorText}`, response.status)
+}
+
+export const runwayProvider: VideoProvider = {
+  id: 'runway',
+
+  describe() {
+    return {
+      name: 'Runway',
+      supports_cancel: true,
+      input_modes: ['image_to_video', 'text_to_video'],
+      durations: RUNWAY_DURATIONS,
+      aspect_ratios: ['auto', '9:16', '16:9'],
+      resolutions: ['auto', '720p']
+    }
+  },
+
+  submit(request) {
+    if (request.inputMode === 'image_to_video' && !request.imageUrl) {
+      throw new Error('image_url is required for image_to_video')
+    }
+    const imageUrl = request.inputMode === 'image_to_video' ? request.imageUrl : undefined
+    return submitRunwayJob(request.modelId, request.prompt, imageUrl, request.settings)
+  },
+
+  getStatus(_modelId, requestId) {
+    return checkRunwayStatus(requestId)
+  },
+
+  async getResult(_modelId, requestId, status) {
+    if (status?.video?.url) {
+      return { videoUrl: status.video.url }
+    }
+    const latest = await checkRunwayStatus(requestId)
+    return { videoUrl: latest.status === 'COMPLETED' ? latest.video?.url ?? null : null }
+  },
+
+  cancel(_modelId, requestId) {
+    return cancelRunwayJob(requestId)
+  }
+}
@@ -2,16 +2,53 @@
  * Status Handlers
  *
  * Handles different video job statuses and returns appropriate responses
- * Includes video migration from FalAI to Supabase Storage
+ * Includes video migration from provider hosting (FalAI, Runway) to Supabase Storage
+ * Provider statuses come from the job's VideoProvider (see video-providers.ts)
+ *
+ * Shared by get-video-status (app polling) and falai-webhook (provider push),
+ * so a job completes the same way whichever one sees the result first.
  */
 
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import { createLogger } from '../_shared/logger.ts'
-import { migrateVideoToStorage } from '../_shared/storage-utils.ts'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createLogger } from './logger.ts'
+import { migrateVideoToStorage } from './storage-utils.ts'
+import { captureCreditReservation, refundFailedJob } from './credit-reservations.ts'
+import { getVideoProvider, type ProviderEndpointPaths } from './video-providers.ts'
 import { fetchVideoUrl, type ProviderStatus } from './video-url-fetcher.ts'
+import { estimateJobProgress, getExpectedDurationSeconds } from './job-progress.ts'
 
 const logger = createLogger('status-handlers')
 
+/**
+ * Statuses a provider result may still change (completed/failed/cancelled are final)
+ */
+export const ACTIVE_JOB_STATUSES = ['pending', 'processing']
+
+/**
+ * video_jobs columns (with the requested model) every handler expects
+ */
+export const JOB_STATUS_SELECT = `
+  job_id,
+  user_id,
+  model_id,
+  prompt,
+  status,
+  video_url,
+  thumbnail_url,
+  credits_used,
+  credits_refunded,
+  provider_job_id,
+  provider,
+  provider_model_id,
+  provider_endpoint_paths,
+  executed_model_id,
+  duration_seconds,
+  error_message,
+  created_at,
+  completed_at,
+  models!inner(provider_model_id, provider, endpoint_paths, name)
+`
+
 export interface JobData {
   job_id: string
   user_id: string
@@ -21,13 +58,20 @@ export interface JobData {
   video_url: string | null
   thumbnail_url: string | null
   credits_used: number
+  credits_refunded: number
   provider_job_id: string | null
+  provider: string | null          // Provider that ran the job; NULL for jobs before failover support
+  provider_model_id: string | null
+  provider_endpoint_paths: ProviderEndpointPaths | null
+  executed_model_id: string | null
+  duration_seconds: number | null
   error_message: string | null
   created_at: string
   completed_at: string | null
   models: {
     provider_model_id: string
     provider: string
+    endpoint_paths: ProviderEndpointPaths | null
     name: string
   }
 }
@@ -38,10 +82,39 @@ export interface StatusResponse {
   prompt: string
   model_name: string
   credits_used: number
+  credits_refunded: number
   video_url: string | null
   thumbnail_url: string | null
   error_message?: string | null
   created_at: string
+  queue_position?: number | null // Set while the provider reports the job
+  progress?: number              // 0-100
+  eta_seconds?: number | null
+}
+
+/**
+ * Provider that is running the job
+ * (the fallback's after a failover; the requested model's for older jobs)
+ */
+export function getJobProvider(job: JobData): {
+  provider: string
+  providerModelId: string
+  endpointPaths: ProviderEndpointPaths | null
+} {
+  const model = job.models as any
+  return {
+    provider: job.provider ?? model.provider,
+    providerModelId: job.provider_model_id ?? model.provider_model_id,
+    endpointPaths: job.provider ? job.provider_endpoint_paths : model.endpoint_paths
+  }
+}
+
+/**
+ * Whether a video URL is already this job's file in our videos bucket
+ * (anything else is provider-hosted and may expire, e.g. Runway's signed URLs)
+ */
+function isMigratedVideoUrl(url: string, jobId: string): boolean {
+  return url.includes('/storage/v1/object/public/videos/') && url.endsWith(`/${jobId}.mp4`)
 }
 
 /**
@@ -55,6 +128,7 @@ function buildStatusResponse(job: JobData): StatusResponse {
     prompt: job.prompt,
     model_name: model?.name || '',
     credits_used: job.credits_used,
+    credits_refunded: job.credits_refunded ?? 0,
     video_url: job.video_url,
     thumbnail_url: job.thumbnail_url,
     error_message: job.error_message,
@@ -86,16 +160,18 @@ export function handlePendingWithoutProvider(job: JobData): StatusResponse {
 export async function handleCompletedStatus(
   job: JobData,
   providerStatus: ProviderStatus,
-  supabaseClient: ReturnType<typeof createClient>
+  supabaseClient: SupabaseClient
 ): Promise<StatusResponse | null> {
-  const model = job.models as any
+  const { provider, providerModelId, endpointPaths } = getJobProvider(job)
 
   // Fetch video URL using multiple strategies
   const { videoUrl } = await fetchVideoUrl(
+    getVideoProvider(provider),
     providerStatus,
-    model.provider_model_id,
+    providerModelId,
     job.provider_job_id!,
-    job.job_id
+    job.job_id,
+    endpointPaths
   )
 
   if (videoUrl) {
@@ -103,9 +179,9 @@ export async function handleCompletedStatus(
     let finalVideoUrl = videoUrl
     let migrationSuccess = false
 
-    // Only attempt migration if we have a FalAI URL
-    if (videoUrl.includes('fal.ai') || videoUrl.includes('fal.run')) {
-      logger.info('Attempting video migration from FalAI', {
+    // Only attempt migration for provider-hosted URLs
+    if (!isMigratedVideoUrl(videoUrl, job.job_id)) {
+      logger.info('Attempting video migration from provider', {
         job_id: job.job_id,
         user_id: job.user_id,
         metadata: { original_url: videoUrl }
@@ -130,8 +206,8 @@ export async function handleCompletedStatus(
           }
         })
       } else {
-        // Migration failed, but keep FalAI URL (graceful degradation)
-        logger.warn('Video migration failed, using FalAI URL', {
+        // Migration failed, but keep provider URL (graceful degradation)
+        logger.warn('Video migration failed, using provider URL', {
           job_id: job.job_id,
           user_id: job.user_id,
           metadata: {
@@ -143,7 +219,7 @@ export async function handleCompletedStatus(
     }
 
     // Update job in database with final video URL
-    const { error: updateError } = await supabaseClient
+    const { data: updatedRows, error: updateError } = await supabaseClient
       .from('video_jobs')
       .update({
         status: 'completed',
@@ -158,6 +234,8 @@ export async function handleCompletedStatus(
         }
       })
       .eq('job_id', job.job_id)
+      .in('status', ACTIVE_JOB_STATUSES) // Never revive a cancelled job
+      .select('job_id')
 
     if (updateError) {
       logger.error('Database update error', updateError, {
@@ -165,6 +243,35 @@ export async function handleCompletedStatus(
         user_id: job.user_id
       })
       // Continue anyway - return the video URL
+    } else if (!updatedRows?.length) {
+      // Settled meanwhile (cancelled/expired and refunded, or completed by the
+      // other caller) - don't charge again or hand out the video, report what's stored
+      const { data: storedJob } = await supabaseClient
+        .from('video_jobs')
+        .select(JOB_STATUS_SELECT)
+        .eq('job_id', job.job_id)
+        .maybeSingle()
+
+      logger.warn('Job no longer active, completion skipped', {
+        job_id: job.job_id,
+        user_id: job.user_id,
+        metadata: {
+          provider_job_id: job.provider_job_id,
+          status: storedJob?.status
+        }
+      })
+
+      return buildStatusResponse((storedJob as JobData | null) ?? job)
+    }
+
+    // Video delivered - the credit hold becomes a charge
+    try {
+      await captureCreditReservation(supabaseClient, job.job_id)
+    } catch (captureError) {
+      logger.error('Credit capture failed', captureError as Error, {
+        job_id: job.job_id,
+        user_id: job.user_id
+      })
     }
 
     logger.info('Video generation completed', {
@@ -181,7 +288,10 @@ export async function handleCompletedStatus(
       ...buildStatusResponse(job),
       status: 'completed',
       video_url: finalVideoUrl,
-      thumbnail_url: null
+      thumbnail_url: null,
+      queue_position: null,
+      progress: 100,
+      eta_seconds: 0
     }
   } else {
     // Video URL not found - don't update status, keep as processing for retry
@@ -202,7 +312,7 @@ export async function handleCompletedStatus(
 export async function handleFailedStatus(
   job: JobData,
   providerStatus: ProviderStatus,
-  supabaseClient: ReturnType<typeof createClient>
+  supabaseClient: SupabaseClient
 ): Promise<StatusResponse> {
   const errorMessage = providerStatus.error || 'Video generation failed'
 
@@ -213,6 +323,7 @@ export async function handleFailedStatus(
       error_message: errorMessage
     })
     .eq('job_id', job.job_id)
+    .in('status', ACTIVE_JOB_STATUSES)
 
   if (updateError) {
     logger.error('Failed to update job status', updateError, {
@@ -230,12 +341,30 @@ export async function handleFailedStatus(
     }
   })
 
-  // Note: Credits already deducted, but we could refund here if needed
-  // For now, we'll handle refunds in Phase 6 (retry logic)
+  // No video - give the credits back (once per job, replays return the same amount)
+  let creditsRefunded = job.credits_refunded ?? 0
+  try {
+    const refund = await refundFailedJob(supabaseClient, job.job_id, 'provider_failed')
+    if (refund.success) {
+      creditsRefunded = refund.credits_refunded ?? 0
+    } else {
+      logger.warn('Credit refund skipped', {
+        job_id: job.job_id,
+        user_id: job.user_id,
+        metadata: { error: refund.error }
+      })
+    }
+  } catch (refundError) {
+    logger.error('Credit refund failed', refundError as Error, {
+      job_id: job.job_id,
+      user_id: job.user_id
+    })
+  }
 
   return {
     ...buildStatusResponse(job),
     status: 'failed',
+    credits_refunded: creditsRefunded,
     video_url: null,
     thumbnail_url: null,
     error_message: errorMessage
@@ -248,7 +377,7 @@ export async function handleFailedStatus(
 export async function handleInProgressStatus(
   job: JobData,
   providerStatus: ProviderStatus,
-  supabaseClient: ReturnType<typeof createClient>
+  supabaseClient: SupabaseClient
 ): Promise<StatusResponse> {
   // Update status to "processing" if it's in progress
   if (providerStatus.status === 'IN_PROGRESS' && job.status === 'pending') {
@@ -256,6 +385,7 @@ export async function handleInProgressStatus(
       .from('video_jobs')
       .update({ status: 'processing' })
       .eq('job_id', job.job_id)
+      .eq('status', 'pending')
   }
 
   // Determine final status
@@ -263,9 +393,17 @@ export async function handleInProgressStatus(
     ? 'processing'
     : job.status
 
+  // Queue position / progress / ETA against this model's history
+  const expectedSeconds = await getExpectedDurationSeconds(
+    supabaseClient,
+    job.executed_model_id ?? job.model_id,
+    job.duration_seconds
+  )
+
   return {
     ...buildStatusResponse(job),
-    status: finalStatus
+    status: finalStatus,
+    ...estimateJobProgress(providerStatus, job.created_at, expectedSeconds)
   }
 }
 
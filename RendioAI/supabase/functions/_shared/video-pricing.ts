@@ -0,0 +1,187 @@
+/**
+ * Video Pricing
+ * Resolves generation settings and calculates cost based on pricing models.
+ * Shared by generate-video (what is charged) and quote-video (what will be charged),
+ * so the two can never disagree.
+ *
+ * A model with an active pricing rule is priced by evaluatePricingRule;
+ * otherwise models.pricing_type / base_price / cost_per_generation apply.
+ */
+
+import {
+  convertToCredits,
+  evaluatePricingRule,
+  getDefaultDollarsPerCredit,
+  type PricingContext,
+  type PricingRule,
+  type PricingStep
+} from './pricing-rules.ts'
+
+export type PricingType = 'per_second' | 'per_video' | 'per_generation'
+
+export interface ModelSettingsConfig {
+  resolution?: { default?: string; options?: string[] }
+  aspect_ratio?: { default?: string; options?: string[] }
+  duration?: { default?: number; options?: number[] }
+}
+
+export interface PricedModel {
+  cost_per_generation: number
+  pricing_type: 'per_second' | 'per_video' | null
+  base_price: number | null
+  required_fields: {
+    requires_prompt?: boolean
+    requires_image?: boolean
+    requires_settings?: boolean
+    settings?: ModelSettingsConfig
+  } | null
+}
+
+/**
+ * Clip lengths in seconds across providers; each provider's describe().durations
+ * lists the ones it renders, and the job is priced at exactly that length
+ */
+export type VideoDuration = 4 | 5 | 8 | 10 | 12
+
+export interface SettingsInput {
+  resolution?: 'auto' | '720p'
+  aspect_ratio?: 'auto' | '9:16' | '16:9'
+  duration?: VideoDuration
+}
+
+export interface FinalSettings {
+  resolution: 'auto' | '720p'
+  aspect_ratio: 'auto' | '9:16' | '16:9'
+  duration: VideoDuration
+}
+
+export interface CostCalculationResult {
+  costInDollars: number
+  creditsToDeduct: number
+  pricingType: PricingType
+  duration?: number
+  pricingRuleId: string | null
+  breakdown: PricingStep[]  // How the amount was derived
+}
+
+export interface PricingOptions extends PricingContext {
+  rule?: PricingRule | null
+}
+
+/**
+ * Check requested settings against the model's allowed options
+ *
+ * @returns Error message for the first invalid setting, or null
+ */
+export function validateSettingsOptions(
+  settingsConfig: ModelSettingsConfig,
+  settings: SettingsInput
+): string | null {
+  if (settings.duration && settingsConfig.duration) {
+    const allowedDurations = settingsConfig.duration.options || []
+    if (!allowedDurations.includes(settings.duration)) {
+      return `Invalid duration. Allowed values: ${allowedDurations.join(', ')}`
+    }
+  }
+
+  if (settings.aspect_ratio && settingsConfig.aspect_ratio) {
+    const allowedAspectRatios = settingsConfig.aspect_ratio.options || []
+    if (!allowedAspectRatios.includes(settings.aspect_ratio)) {
+      return `Invalid aspect_ratio. Allowed values: ${allowedAspectRatios.join(', ')}`
+    }
+  }
+
+  if (settings.resolution && settingsConfig.resolution) {
+    const allowedResolutions = settingsConfig.resolution.options || []
+    if (!allowedResolutions.includes(settings.resolution)) {
+      return `Invalid resolution. Allowed values: ${allowedResolutions.join(', ')}`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Merge user settings over model defaults (user settings win)
+ */
+export function resolveFinalSettings(
+  model: PricedModel,
+  settings: SettingsInput | null | undefined
+): FinalSettings {
+  const settingsConfig = model.required_fields?.settings || {}
+  const duration = settings?.duration || settingsConfig.duration?.default || 4
+
+  return {
+    resolution: (settings?.resolution || settingsConfig.resolution?.default || 'auto') as 'auto' | '720p',
+    aspect_ratio: (settings?.aspect_ratio || settingsConfig.aspect_ratio?.default || 'auto') as 'auto' | '9:16' | '16:9',
+    duration: duration as VideoDuration
+  }
+}
+
+export function calculateCost(
+  activeModel: PricedModel,
+  settings: FinalSettings | null,
+  requiredFields: PricedModel['required_fields'],
+  options: PricingOptions = {}
+): CostCalculationResult {
+  if (options.rule && settings) {
+    const evaluation = evaluatePricingRule(options.rule, settings, options)
+    return {
+      costInDollars: evaluation.cost_in_dollars,
+      creditsToDeduct: evaluation.credits,
+      pricingType: evaluation.pricing_type,
+      duration: evaluation.pricing_type === 'per_second' ? settings.duration : undefined,
+      pricingRuleId: evaluation.rule_id,
+      breakdown: evaluation.steps
+    }
+  }
+
+  let costInDollars: number
+  let creditsToDeduct: number
+  let duration: number | undefined
+  let pricingType: PricingType
+  const breakdown: PricingStep[] = []
+  const dollarsPerCredit = getDefaultDollarsPerCredit()
+
+  if (activeModel.pricing_type === 'per_second') {
+    duration = settings?.duration || 
+               requiredFields?.settings?.duration?.default || 
+               4
+    costInDollars = (activeModel.base_price || 0) * duration
+    breakdown.push({
+      step: 'per_second',
+      description: `$${activeModel.base_price || 0} × ${duration}s`,
+      dollars: costInDollars
+    })
+    // Convert dollars to credits (default $0.1 = 1 credit)
+    // Example: $0.4 = 4 credits
+    creditsToDeduct = convertToCredits(costInDollars, dollarsPerCredit, 0, breakdown).credits
+    pricingType = 'per_second'
+  } else if (activeModel.pricing_type === 'per_video') {
+    costInDollars = activeModel.base_price || 0
+    breakdown.push({ step: 'base_price', description: `Base price $${costInDollars}`, dollars: costInDollars })
+    // Convert dollars to credits (default $0.1 = 1 credit)
+    creditsToDeduct = convertToCredits(costInDollars, dollarsPerCredit, 0, breakdown).credits
+    pricingType = 'per_video'
+  } else {
+    // Fallback: use cost_per_generation (already in credits)
+    creditsToDeduct = activeModel.cost_per_generation || 0
+    costInDollars = creditsToDeduct * dollarsPerCredit  // Convert back to dollars for reporting
+    breakdown.push({
+      step: 'base_price',
+      description: `Flat ${creditsToDeduct} credits per generation`,
+      dollars: costInDollars,
+      credits: creditsToDeduct
+    })
+    pricingType = 'per_generation'
+  }
+
+  return {
+    costInDollars,
+    creditsToDeduct,
+    pricingType,
+    duration,
+    pricingRuleId: null,
+    breakdown
+  }
+}
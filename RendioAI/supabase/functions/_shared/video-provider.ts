@@ -0,0 +1,209 @@
+/**
+ * Video Provider Registry
+ *
+ * Every video generation backend implements VideoProvider and is registered
+ * under its models.provider value ('fal', 'runway', ...) in video-providers.ts.
+ * generate-video and get-video-status only talk to providers through
+ * getVideoProvider(), so adding a provider never touches the handlers.
+ */
+
+import type { FinalSettings, SettingsInput } from './video-pricing.ts'
+import { HttpError, isRetryableStatus, isSafeToResend, type RetryOptions } from './retry.ts'
+
+export type ProviderJobStatus = 'IN_QUEUE' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED'
+
+export type InputMode = 'image_to_video' | 'text_to_video'
+
+export const INPUT_MODES: InputMode[] = ['image_to_video', 'text_to_video']
+
+/**
+ * models.endpoint_paths: per-model URL path templates, for adapters whose
+ * API paths depend on the model (FalAI). Missing keys use the adapter's defaults.
+ */
+export interface ProviderEndpointPaths {
+  submit?: string
+  submit_text_to_video?: string // Submit for text_to_video jobs (submit is image_to_video)
+  status?: string
+  result?: string
+  cancel?: string
+}
+
+export interface ProviderSubmitRequest {
+  modelId: string      // models.provider_model_id
+  prompt: string
+  inputMode: InputMode
+  imageUrl?: string    // Set for image_to_video only
+  settings: FinalSettings
+  endpointPaths?: ProviderEndpointPaths | null
+}
+
+export interface ProviderSubmitResult {
+  request_id: string
+}
+
+export interface ProviderLog {
+  message: string
+  timestamp?: string
+}
+
+export interface ProviderStatus {
+  status: ProviderJobStatus
+  video?: { url?: string }
+  response_url?: string
+  error?: string
+  queue_position?: number // IN_QUEUE: jobs ahead of this one, when the provider says
+  progress?: number       // IN_PROGRESS: 0-100, when the provider reports it
+  logs?: ProviderLog[]
+}
+
+export interface ProviderResult {
+  videoUrl: string | null
+  result?: any
+}
+
+export interface ProviderCapabilities {
+  name: string
+  supports_cancel: boolean
+  input_modes: InputMode[]
+  durations?: number[]
+  aspect_ratios?: string[]
+  resolutions?: string[]
+}
+
+export interface VideoProvider {
+  /** models.provider value this adapter serves */
+  readonly id: string
+
+  describe(): ProviderCapabilities
+  submit(request: ProviderSubmitRequest): Promise<ProviderSubmitResult>
+  getStatus(modelId: string, requestId: string, endpointPaths?: ProviderEndpointPaths | null): Promise<ProviderStatus>
+  /** Resolve the video URL of a COMPLETED job (may reuse what getStatus returned) */
+  getResult(
+    modelId: string,
+    requestId: string,
+    status?: ProviderStatus,
+    endpointPaths?: ProviderEndpointPaths | null
+  ): Promise<ProviderResult>
+  /** Returns false when the provider can't (or no longer can) cancel the job */
+  cancel(modelId: string, requestId: string, endpointPaths?: ProviderEndpointPaths | null): Promise<boolean>
+}
+
+/**
+ * Non-2xx response from a provider API
+ */
+export class ProviderError extends HttpError {
+  constructor(message: string, status: number) {
+    super(message, status)
+    this.name = 'ProviderError'
+  }
+}
+
+/**
+ * Retry policy for provider API calls (adapters use fetchWithRetry)
+ * Kept short: a provider that is still down after this goes to failover.
+ */
+export const PROVIDER_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 2,
+  baseDelay: 500,
+  maxDelay: 5000,
+  timeoutMs: 30000
+}
+
+/**
+ * Retry policy for submissions (they create a paid job at the provider)
+ * Only resent when the provider can't have accepted them (see isSafeToResend);
+ * the shorter timeout keeps submit + failover inside the function's wall clock.
+ */
+export const PROVIDER_SUBMIT_RETRY_OPTIONS: RetryOptions = {
+  ...PROVIDER_RETRY_OPTIONS,
+  timeoutMs: 15000,
+  isRetryable: isSafeToResend
+}
+
+const PROVIDER_SIDE_MESSAGE = /quota|capacity|overloaded|rate limit|timed? ?out|unavailable/i
+
+/**
+ * Whether an error is the provider's fault, so another provider may succeed
+ * - 5xx, 408 and 429 responses
+ * - network failures and timeouts
+ * - quota / capacity messages
+ * Request problems (4xx, unsupported settings, missing API key) are not.
+ */
+export function isProviderSideError(error: unknown): boolean {
+  if (error instanceof ProviderError) {
+    return isRetryableStatus(error.status) || PROVIDER_SIDE_MESSAGE.test(error.message)
+  }
+  if (!(error instanceof Error)) {
+    return false
+  }
+  // fetch() rejects with TypeError on connection failures; AbortSignal.timeout() with TimeoutError
+  if (error.name === 'TypeError' || error.name === 'TimeoutError' || error.name === 'AbortError') {
+    return true
+  }
+  return PROVIDER_SIDE_MESSAGE.test(error.message)
+}
+
+const providers = new Map<string, VideoProvider>()
+
+/**
+ * Register an adapter (see video-providers.ts)
+ */
+export function registerVideoProvider(provider: VideoProvider): void {
+  providers.set(provider.id, provider)
+}
+
+/**
+ * Look up the adapter for a models.provider value
+ *
+ * @throws Error if no adapter is registered for the provider
+ */
+export function getVideoProvider(providerId: string): VideoProvider {
+  const provider = providers.get(providerId)
+  if (!provider) {
+    throw new Error(`Provider ${providerId} not yet implemented`)
+  }
+  return provider
+}
+
+/**
+ * Look up the adapter for a models.provider value (null if none is registered)
+ */
+export function findVideoProvider(providerId: string): VideoProvider | null {
+  return providers.get(providerId) ?? null
+}
+
+/**
+ * Check requested settings against what the provider can render
+ *
+ * @returns Error message for the first unsupported setting, or null
+ */
+export function validateProviderSettings(
+  provider: VideoProvider,
+  settings: SettingsInput
+): string | null {
+  const capabilities = provider.describe()
+
+  if (settings.duration && capabilities.durations && !capabilities.durations.includes(settings.duration)) {
+    return `Invalid duration. ${capabilities.name} supports: ${capabilities.durations.join(', ')}`
+  }
+
+  if (settings.aspect_ratio && capabilities.aspect_ratios && !capabilities.aspect_ratios.includes(settings.aspect_ratio)) {
+    return `Invalid aspect_ratio. ${capabilities.name} supports: ${capabilities.aspect_ratios.join(', ')}`
+  }
+
+  if (settings.resolution && capabilities.resolutions && !capabilities.resolutions.includes(settings.resolution)) {
+    return `Invalid resolution. ${capabilities.name} supports: ${capabilities.resolutions.join(', ')}`
+  }
+
+  return null
+}
+
+/**
+ * All registered providers with their capabilities
+ */
+export function listVideoProviders(): Array<{ id: string } & ProviderCapabilities> {
+  return Array.from(providers.values()).map((provider) => ({
+    id: provider.id,
+    ...provider.describe()
+  }))
+}
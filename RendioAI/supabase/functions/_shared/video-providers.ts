@@ -0,0 +1,41 @@
+/**
+ * Video Providers
+ *
+ * Registers every adapter with the provider registry.
+ * Import providers from here (not from video-provider.ts) so the
+ * registry is populated before the first lookup.
+ *
+ * Adding a provider: implement VideoProvider in its own adapter module,
+ * register it below, and allow its id in the models.provider CHECK constraint.
+ */
+
+import { registerVideoProvider } from './video-provider.ts'
+import { falAIProvider } from './falai-adapter.ts'
+import { runwayProvider } from './runway-adapter.ts'
+import { pikaProvider } from './pika-adapter.ts'
+import { mockProvider } from './mock-provider.ts'
+
+registerVideoProvider(falAIProvider)
+registerVideoProvider(runwayProvider)
+registerVideoProvider(pikaProvider)
+registerVideoProvider(mockProvider)
+
+export {
+  getVideoProvider,
+  findVideoProvider,
+  listVideoProviders,
+  validateProviderSettings,
+  isProviderSideError,
+  ProviderError,
+  INPUT_MODES
+} from './video-provider.ts'
+export type {
+  VideoProvider,
+  ProviderStatus,
+  ProviderLog,
+  ProviderResult,
+  ProviderCapabilities,
+  ProviderEndpointPaths,
+  ProviderJobStatus,
+  InputMode
+} from './video-provider.ts'
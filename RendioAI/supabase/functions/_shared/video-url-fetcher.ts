@@ -0,0 +1,62 @@
+/**
+ * Video URL Fetcher
+ * 
+ * Resolves the video URL of a completed job through its provider adapter
+ * (each adapter applies its own fallback strategies)
+ */
+
+import { logEvent } from './logger.ts'
+import type { ProviderEndpointPaths, ProviderStatus, VideoProvider } from './video-providers.ts'
+
+export type { ProviderStatus }
+
+export interface VideoUrlResult {
+  videoUrl: string | null
+  result?: any
+}
+
+/**
+ * Fetches video URL for a job the provider reported COMPLETED
+ */
+export async function fetchVideoUrl(
+  provider: VideoProvider,
+  providerStatus: ProviderStatus,
+  providerModelId: string,
+  providerJobId: string,
+  jobId: string,
+  endpointPaths?: ProviderEndpointPaths | null
+): Promise<VideoUrlResult> {
+  let result: any = null
+
+  try {
+    const providerResult = await provider.getResult(providerModelId, providerJobId, providerStatus, endpointPaths)
+    result = providerResult.result
+
+    if (providerResult.videoUrl) {
+      return { videoUrl: providerResult.videoUrl, result }
+    }
+  } catch (resultError: any) {
+    console.error('[video-url-fetcher] Error fetching provider result:', resultError.message)
+
+    logEvent('get_provider_result_error', {
+      job_id: jobId,
+      provider: provider.id,
+      provider_job_id: providerJobId,
+      error: resultError.message
+    }, 'error')
+  }
+
+  // No video URL found
+  console.error('[video-url-fetcher] Video URL not found after all strategies', {
+    job_id: jobId,
+    provider_job_id: providerJobId
+  })
+  
+  logEvent('video_url_missing_after_completion', {
+    job_id: jobId,
+    provider: provider.id,
+    provider_job_id: providerJobId
+  }, 'error')
+
+  return { videoUrl: null, result }
+}
@@ -0,0 +1,236 @@
+/**
+ * Consumption Service
+ *
+ * Answers CONSUMPTION_REQUEST notifications (a customer asked Apple for a refund)
+ * with Send Consumption Information, so Apple can weigh actual usage.
+ *
+ * Usage figures come from get_apple_consumption_data (quota_log + video_jobs;
+ * lifetime spend from the prices in apple_transaction_prices) and are mapped to Apple's ConsumptionRequest enums here.
+ * Every outbound call is recorded in apple_consumption_requests.
+ *
+ * Optional Secrets:
+ * - APPLE_CONSUMPTION_CUSTOMER_CONSENTED: 'true' enables reporting, once the app asks customers
+ *   for consent to share consumption data (anything else = no consent, nothing is sent)
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  sendConsumptionInformation,
+  type AppleTransactionPayload,
+  type ConsumptionRequest
+} from '../_shared/apple-iap-verifier.ts'
+import { logEvent } from '../_shared/logger.ts'
+
+interface ConsumptionData {
+  found: boolean
+  user_id?: string
+  purchase_status?: string
+  credits_purchased?: number
+  credits_spent_on_completed?: number
+  credits_remaining?: number
+  account_created_at?: string
+  lifetime_dollars_purchased?: number | null // USD; null when a purchase has no USD price on record
+  lifetime_dollars_refunded?: number | null
+  generation_frozen?: boolean
+  initial_grant_claimed?: boolean
+}
+
+/**
+ * Compute and send consumption information for a transaction
+ *
+ * sendConsumptionInformation already retries network errors, 429 and 5xx responses;
+ * if it still fails with one of those we throw, so the notification is marked
+ * failed and Apple re-delivers it.
+ */
+export async function reportConsumption(
+  supabase: SupabaseClient,
+  notificationUUID: string,
+  transaction: AppleTransactionPayload
+): Promise<void> {
+  const transactionId = transaction.transactionId
+
+  const customerConsented = Deno.env.get('APPLE_CONSUMPTION_CUSTOMER_CONSENTED') === 'true'
+  if (!customerConsented) {
+    logEvent('apple_consumption_reporting_disabled', { transaction_id: transactionId }, 'info')
+    return
+  }
+
+  // 1. Usage figures
+  const { data, error: dataError } = await supabase.rpc('get_apple_consumption_data', {
+    p_transaction_id: transactionId
+  })
+
+  if (dataError) {
+    throw new Error(`Failed to load consumption data: ${dataError.message}`)
+  }
+
+  const consumption = data as ConsumptionData
+  const requestBody = buildConsumptionRequest(consumption, customerConsented, transaction.appAccountToken)
+
+  // 2. Record the outbound call (re-deliveries reuse the same row)
+  const { data: record, error: recordError } = await supabase
+    .from('apple_consumption_requests')
+    .upsert({
+      notification_uuid: notificationUUID,
+      transaction_id: transactionId,
+      user_id: consumption.user_id ?? null,
+      environment: transaction.environment,
+      request_body: requestBody,
+      status: 'pending'
+    }, { onConflict: 'notification_uuid' })
+    .select('id, attempts')
+    .single()
+
+  if (recordError) {
+    throw new Error(`Failed to record consumption request: ${recordError.message}`)
+  }
+
+  const attempts = record.attempts + 1
+
+  // 3. Send (transient failures are retried inside sendConsumptionInformation)
+  let status: number | null = null
+  let errorMessage: string | null = null
+
+  try {
+    const response = await sendConsumptionInformation(transactionId, requestBody, transaction.environment)
+    status = response.status
+    errorMessage = response.error ?? null
+
+    if (response.ok) {
+      await supabase
+        .from('apple_consumption_requests')
+        .update({
+          status: 'sent',
+          attempts,
+          last_status_code: status,
+          last_error: null,
+          sent_at: new Date().toISOString()
+        })
+        .eq('id', record.id)
+
+      logEvent('apple_consumption_sent', {
+        transaction_id: transactionId,
+        user_id: consumption.user_id,
+        consumption_status: requestBody.consumptionStatus,
+        refund_preference: requestBody.refundPreference,
+        attempts
+      }, 'info')
+      return
+    }
+  } catch (error) {
+    errorMessage = error.message
+  }
+
+  const retryable = status === null || status === 429 || status >= 500
+
+  await supabase
+    .from('apple_consumption_requests')
+    .update({
+      status: 'failed',
+      attempts,
+      last_status_code: status,
+      last_error: errorMessage
+    })
+    .eq('id', record.id)
+
+  logEvent('apple_consumption_send_failed', {
+    transaction_id: transactionId,
+    attempts,
+    status,
+    error: errorMessage,
+    retryable
+  }, retryable ? 'warn' : 'error')
+
+  // 4xx: Apple rejected the body - re-sending the same data won't help
+  if (retryable) {
+    throw new Error(`Send Consumption Information failed: ${status ?? errorMessage}`)
+  }
+}
+
+/**
+ * Map raw usage figures to Apple's ConsumptionRequest
+ * https://developer.apple.com/documentation/appstoreserverapi/consumptionrequest
+ */
+export function buildConsumptionRequest(
+  data: ConsumptionData,
+  customerConsented: boolean,
+  appAccountToken?: string
+): ConsumptionRequest {
+  // Purchase never credited: declare nothing but "other" delivery issue
+  if (!data.found) {
+    return {
+      accountTenure: 0,
+      appAccountToken: appAccountToken ?? '',
+      consumptionStatus: 0,
+      customerConsented,
+      deliveryStatus: 5,
+      lifetimeDollarsPurchased: 0,
+      lifetimeDollarsRefunded: 0,
+      platform: 1,
+      playTime: 0,
+      refundPreference: 0,
+      sampleContentProvided: false,
+      userStatus: 0
+    }
+  }
+
+  const purchased = data.credits_purchased ?? 0
+  const consumed = Math.min(purchased, data.credits_spent_on_completed ?? 0)
+
+  // 1 = not consumed, 2 = partially consumed, 3 = fully consumed
+  let consumptionStatus = 1
+  if (consumed >= purchased && purchased > 0) {
+    consumptionStatus = 3
+  } else if (consumed > 0) {
+    consumptionStatus = 2
+  }
+
+  return {
+    accountTenure: accountTenureBucket(data.account_created_at),
+    appAccountToken: appAccountToken ?? '',
+    consumptionStatus,
+    customerConsented,
+    deliveryStatus: 0, // Credits were added to the balance
+    lifetimeDollarsPurchased: dollarsBucket(data.lifetime_dollars_purchased),
+    lifetimeDollarsRefunded: dollarsBucket(data.lifetime_dollars_refunded),
+    platform: 1, // Apple platform
+    playTime: 0, // Undeclared - we don't track session time
+    refundPreference: consumed > 0 ? 2 : 1, // 2 = prefer decline, 1 = prefer grant
+    sampleContentProvided: data.initial_grant_claimed ?? false, // Free starter credits
+    userStatus: data.generation_frozen ? 2 : 1 // 2 = suspended, 1 = active
+  }
+}
+
+/**
+ * Account age → accountTenure (0 = undeclared)
+ */
+function accountTenureBucket(createdAt?: string): number {
+  if (!createdAt) {
+    return 0
+  }
+
+  const days = (Date.now() - new Date(createdAt).getTime()) / (24 * 60 * 60 * 1000)
+
+  if (days < 3) return 1
+  if (days < 10) return 2
+  if (days < 30) return 3
+  if (days < 90) return 4
+  if (days < 180) return 5
+  if (days < 365) return 6
+  return 7
+}
+
+/**
+ * USD amount → lifetimeDollarsPurchased / lifetimeDollarsRefunded bucket
+ * (0 = undeclared: we don't know the USD total)
+ */
+function dollarsBucket(amount: number | null | undefined): number {
+  if (amount == null) return 0
+  if (amount <= 0) return 1
+  if (amount < 50) return 2
+  if (amount < 100) return 3
+  if (amount < 500) return 4
+  if (amount < 1000) return 5
+  if (amount < 2000) return 6
+  return 7
+}
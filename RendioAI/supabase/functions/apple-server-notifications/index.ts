@@ -3,10 +3,23 @@
  * Receives notifications from Apple about IAP events (refunds, renewals, etc.)
  *
  * Documentation: https://developer.apple.com/documentation/appstoreservernotifications
+ *
+ * Request Body (V2):
+ * { "signedPayload": "<JWS signed by Apple>" }
+ *
+ * Every notification is verified (x5c chain + bundle ID), persisted to
+ * apple_notifications with its notificationUUID, and processed exactly once:
+ * re-deliveries of an already processed notification return 200 without side effects.
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AppleJWSVerificationError } from '../_shared/apple-jws.ts'
+import { logEvent } from '../_shared/logger.ts'
+import { verifyNotification } from './notification-verifier.ts'
+import { reportConsumption } from './consumption-service.ts'
+import { handleSubscriptionEvent } from './subscription-service.ts'
+import { recordTransactionPrice } from '../_shared/apple-transaction-prices.ts'
 
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
 const SUPABASE_SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
@@ -15,8 +28,14 @@ const SUPABASE_SERVICE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
 const NOTIFICATION_TYPES = {
   REFUND: 'REFUND',
   CONSUMPTION_REQUEST: 'CONSUMPTION_REQUEST',
+  SUBSCRIBED: 'SUBSCRIBED',
   DID_RENEW: 'DID_RENEW',
   DID_FAIL_TO_RENEW: 'DID_FAIL_TO_RENEW',
+  DID_CHANGE_RENEWAL_PREF: 'DID_CHANGE_RENEWAL_PREF',
+  DID_CHANGE_RENEWAL_STATUS: 'DID_CHANGE_RENEWAL_STATUS',
+  GRACE_PERIOD_EXPIRED: 'GRACE_PERIOD_EXPIRED',
+  EXPIRED: 'EXPIRED',
+  REVOKE: 'REVOKE',
 }
 
 serve(async (req) => {
@@ -25,47 +44,126 @@ serve(async (req) => {
     return new Response('Method not allowed', { status: 405 })
   }
 
+  let notificationUUID: string | null = null
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY)
+
   try {
-    const notification = await req.json()
-    console.log('📥 Received Apple notification:', JSON.stringify(notification, null, 2))
+    const body = await req.json().catch(() => null)
+    const signedPayload = body?.signedPayload
 
-    // Extract notification type and transaction info
-    const notificationType = notification.notificationType
-    const transactionInfo = notification.data?.signedTransactionInfo
+    if (!signedPayload || typeof signedPayload !== 'string') {
+      console.log('⚠️ Missing signedPayload')
+      return new Response('Missing signedPayload', { status: 400 })
+    }
 
-    if (!transactionInfo) {
-      console.log('⚠️ No transaction info in notification')
-      return new Response('No transaction info', { status: 400 })
+    // 1. Verify signature chain and bundle ID before trusting anything
+    let verified
+    try {
+      verified = await verifyNotification(signedPayload)
+    } catch (error) {
+      if (error instanceof AppleJWSVerificationError) {
+        logEvent('apple_notification_rejected', { reason: error.message }, 'warn')
+        return new Response(
+          JSON.stringify({ success: false, error: 'Invalid signed payload' }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+      throw error
     }
 
-    // Decode the JWT transaction info (Apple sends it as JWT)
-    // For now, we'll extract the transaction ID from the payload
-    // In production, you should verify the JWT signature
-    const transactionId = notification.data?.transactionId ||
-                         notification.data?.originalTransactionId
+    const { payload, transaction, renewal } = verified
+    const notificationType = payload.notificationType
+    notificationUUID = payload.notificationUUID
+
+    console.log(`📥 Received Apple notification: ${notificationType}${payload.subtype ? ` (${payload.subtype})` : ''}`)
+    console.log(`🆔 Notification UUID: ${notificationUUID}`)
+
+    // 2. Persist and claim (exactly-once processing)
+    const { data: claim, error: claimError } = await supabase.rpc('claim_apple_notification', {
+      p_notification_uuid: notificationUUID,
+      p_notification_type: notificationType,
+      p_subtype: payload.subtype ?? null,
+      p_environment: payload.data?.environment ?? null,
+      p_bundle_id: payload.data?.bundleId ?? null,
+      p_transaction_id: transaction?.transactionId ?? null,
+      p_original_transaction_id: transaction?.originalTransactionId ?? renewal?.originalTransactionId ?? null,
+      p_signed_payload: signedPayload,
+      p_payload: payload,
+      p_transaction_info: transaction,
+      p_renewal_info: renewal,
+      p_signed_date: new Date(payload.signedDate).toISOString()
+    })
 
-    if (!transactionId) {
-      console.log('⚠️ No transaction ID found')
-      return new Response('No transaction ID', { status: 400 })
+    if (claimError) {
+      throw claimError
     }
 
-    console.log(`📋 Notification Type: ${notificationType}`)
-    console.log(`🆔 Transaction ID: ${transactionId}`)
+    if (!claim.claimed) {
+      logEvent('apple_notification_duplicate', {
+        notification_uuid: notificationUUID,
+        notification_type: notificationType,
+        status: claim.status
+      }, 'info')
+
+      // 'processing' means another delivery holds the lock - ask Apple to retry later
+      if (claim.status === 'processing') {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Notification is being processed' }),
+          { status: 409, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, message: 'Notification already processed' }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // What the customer paid (renewals only reach us here)
+    if (transaction) {
+      await recordTransactionPrice(supabase, transaction.transactionId, transaction.price, transaction.currency)
+    }
 
-    // Handle different notification types
+    // 3. Handle different notification types
     switch (notificationType) {
       case NOTIFICATION_TYPES.REFUND:
-        await handleRefund(transactionId)
+        if (transaction) {
+          await handleRefund(transaction.transactionId, transaction.revocationReason ?? null)
+          // Refunded subscription transaction also ends the subscription
+          await handleSubscriptionEvent(supabase, payload, transaction, renewal)
+        } else {
+          console.log('⚠️ REFUND notification without transaction info')
+        }
         break
 
       case NOTIFICATION_TYPES.CONSUMPTION_REQUEST:
-        await handleConsumptionRequest(transactionId)
+        if (transaction) {
+          console.log(`📊 Consumption request for transaction: ${transaction.transactionId}`)
+          await reportConsumption(supabase, notificationUUID, transaction)
+        } else {
+          console.log('⚠️ CONSUMPTION_REQUEST notification without transaction info')
+        }
+        break
+
+      case NOTIFICATION_TYPES.SUBSCRIBED:
+      case NOTIFICATION_TYPES.DID_RENEW:
+      case NOTIFICATION_TYPES.DID_FAIL_TO_RENEW:
+      case NOTIFICATION_TYPES.DID_CHANGE_RENEWAL_PREF:
+      case NOTIFICATION_TYPES.DID_CHANGE_RENEWAL_STATUS:
+      case NOTIFICATION_TYPES.GRACE_PERIOD_EXPIRED:
+      case NOTIFICATION_TYPES.EXPIRED:
+      case NOTIFICATION_TYPES.REVOKE:
+        if (!transaction || !await handleSubscriptionEvent(supabase, payload, transaction, renewal)) {
+          console.log(`ℹ️ ${notificationType} for a non-subscription product, ignoring`)
+        }
         break
 
       default:
         console.log(`ℹ️ Unhandled notification type: ${notificationType}`)
     }
 
+    await completeNotification(supabase, notificationUUID, true)
+
     return new Response(
       JSON.stringify({ success: true, message: 'Notification processed' }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
@@ -73,6 +171,12 @@ serve(async (req) => {
 
   } catch (error) {
     console.error('❌ Error processing notification:', error)
+
+    // Release the claim so Apple's retry can process it again
+    if (notificationUUID) {
+      await completeNotification(supabase, notificationUUID, false, error.message)
+    }
+
     return new Response(
       JSON.stringify({ success: false, error: error.message }),
       { status: 500, headers: { 'Content-Type': 'application/json' } }
@@ -80,110 +184,80 @@ serve(async (req) => {
   }
 })
 
+/**
+ * Mark a claimed notification as processed/failed
+ * Failures here are logged only - the response to Apple must still go out
+ */
+async function completeNotification(
+  supabase: SupabaseClient,
+  notificationUUID: string,
+  success: boolean,
+  errorMessage?: string
+) {
+  const { error } = await supabase.rpc('complete_apple_notification', {
+    p_notification_uuid: notificationUUID,
+    p_success: success,
+    p_error: errorMessage ?? null
+  })
+
+  if (error) {
+    logEvent('apple_notification_complete_failed', {
+      notification_uuid: notificationUUID,
+      success,
+      error: error.message
+    }, 'error')
+  }
+}
+
 /**
  * Handle REFUND notification
- * Deduct credits from user when Apple refunds a purchase
+ * Claw back credits when Apple refunds a purchase
+ *
+ * Everything happens inside process_apple_refund (one transaction).
+ * APPLE_REFUND_POLICY decides what happens when the credits were already spent:
+ * allow_negative (default) | freeze_generation | flag_for_review
  */
-async function handleRefund(transactionId: string) {
+async function handleRefund(transactionId: string, revocationReason: number | null) {
   console.log(`🔄 Processing refund for transaction: ${transactionId}`)
 
   const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY)
+  const policy = Deno.env.get('APPLE_REFUND_POLICY') ?? 'allow_negative'
 
-  // 1. Find the original purchase in quota_log
-  const { data: purchase, error: fetchError } = await supabase
-    .from('quota_log')
-    .select('*')
-    .eq('transaction_id', transactionId)
-    .eq('status', 'completed')
-    .single()
-
-  if (fetchError || !purchase) {
-    console.log(`⚠️ Purchase not found or already refunded: ${transactionId}`)
-    return
-  }
-
-  console.log(`✅ Found purchase:`, purchase)
+  const { data: result, error: rpcError } = await supabase.rpc('process_apple_refund', {
+    p_transaction_id: transactionId,
+    p_policy: policy,
+    p_revocation_reason: revocationReason
+  })
 
-  const userId = purchase.user_id
-  const creditsToDeduct = purchase.change // This was a positive number when added
-
-  // 2. Deduct credits from user
-  const { data: user, error: userError } = await supabase
-    .from('users')
-    .select('credits_remaining')
-    .eq('id', userId)
-    .single()
-
-  if (userError || !user) {
-    console.error(`❌ User not found: ${userId}`)
-    throw new Error('User not found')
+  if (rpcError) {
+    console.error(`❌ process_apple_refund failed:`, rpcError)
+    throw new Error(`Failed to process refund: ${rpcError.message}`)
   }
 
-  const newBalance = user.credits_remaining - creditsToDeduct
-
-  // Update user credits
-  const { error: updateError } = await supabase
-    .from('users')
-    .update({ credits_remaining: newBalance })
-    .eq('id', userId)
-
-  if (updateError) {
-    console.error(`❌ Failed to update user credits:`, updateError)
-    throw new Error('Failed to update credits')
+  if (!result.success) {
+    // Unknown purchase: nothing to claw back, don't make Apple retry forever
+    if (result.error === 'Purchase not found') {
+      logEvent('apple_refund_purchase_not_found', { transaction_id: transactionId }, 'warn')
+      return
+    }
+    throw new Error(`Failed to process refund: ${result.error}`)
   }
 
-  console.log(`💳 Deducted ${creditsToDeduct} credits from user ${userId}`)
-  console.log(`📊 New balance: ${newBalance}`)
-
-  // 3. Mark the purchase as refunded
-  const { error: statusError } = await supabase
-    .from('quota_log')
-    .update({ status: 'refunded' })
-    .eq('transaction_id', transactionId)
-
-  if (statusError) {
-    console.error(`❌ Failed to mark as refunded:`, statusError)
-    throw new Error('Failed to update status')
+  if (result.already_refunded) {
+    console.log(`ℹ️ Transaction already refunded: ${transactionId}`)
+    return
   }
 
-  // 4. Create a refund log entry
-  const { error: logError } = await supabase
-    .from('quota_log')
-    .insert({
-      user_id: userId,
-      change: -creditsToDeduct,
-      reason: 'apple_refund',
-      transaction_id: `${transactionId}_refund`,
-      balance_after: newBalance,
-    })
-
-  if (logError) {
-    console.error(`❌ Failed to create refund log:`, logError)
-  }
+  logEvent('apple_refund_processed', {
+    transaction_id: transactionId,
+    user_id: result.user_id,
+    credits_clawed_back: result.credits_clawed_back,
+    shortfall: result.shortfall,
+    policy: result.policy,
+    generation_frozen: result.generation_frozen,
+    review_status: result.review_status,
+    credits_remaining: result.credits_remaining
+  }, result.shortfall > 0 ? 'warn' : 'info')
 
   console.log(`✅ Refund processed successfully for ${transactionId}`)
 }
-
-/**
- * Handle CONSUMPTION_REQUEST notification
- * Apple asks if the user has consumed the credits
- * We respond with consumption status (always consumed for credits)
- */
-async function handleConsumptionRequest(transactionId: string) {
-  console.log(`📊 Consumption request for transaction: ${transactionId}`)
-
-  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY)
-
-  // Check if credits were used
-  const { data: purchase } = await supabase
-    .from('quota_log')
-    .select('*')
-    .eq('transaction_id', transactionId)
-    .single()
-
-  if (purchase) {
-    // Credits are consumable and always considered "consumed"
-    console.log(`✅ Credits consumed for transaction: ${transactionId}`)
-    // Apple expects us to respond via their API, but for now just log
-  }
-}
@@ -0,0 +1,97 @@
+/**
+ * Notification Verifier
+ *
+ * Decodes and verifies an App Store Server Notification V2 request body:
+ * { "signedPayload": "<JWS>" }
+ *
+ * signedPayload, data.signedTransactionInfo and data.signedRenewalInfo are each
+ * verified against Apple's x5c certificate chain (see _shared/apple-jws.ts).
+ * Anything forged, or issued for another app's bundle ID, is rejected.
+ */
+
+import { AppleJWSVerificationError, verifyAppleSignedData } from '../_shared/apple-jws.ts'
+import type { AppleRenewalInfoPayload, AppleTransactionPayload } from '../_shared/apple-iap-verifier.ts'
+
+/**
+ * Decoded signedPayload (responseBodyV2DecodedPayload)
+ * https://developer.apple.com/documentation/appstoreservernotifications/responsebodyv2decodedpayload
+ */
+export interface NotificationPayload {
+  notificationType: string
+  subtype?: string
+  notificationUUID: string
+  version?: string
+  signedDate: number
+  data?: {
+    appAppleId?: number
+    bundleId: string
+    bundleVersion?: string
+    environment: 'Production' | 'Sandbox'
+    signedTransactionInfo?: string
+    signedRenewalInfo?: string
+    status?: number
+    consumptionRequestReason?: string
+  }
+  summary?: Record<string, unknown>
+}
+
+export interface VerifiedNotification {
+  payload: NotificationPayload
+  transaction: AppleTransactionPayload | null
+  renewal: AppleRenewalInfoPayload | null
+}
+
+/**
+ * Verify a V2 notification and its nested signed data
+ *
+ * @param signedPayload - JWS from the request body
+ * @returns Verified payloads, throws AppleJWSVerificationError if anything is off
+ */
+export async function verifyNotification(signedPayload: string): Promise<VerifiedNotification> {
+  const expectedBundleId = Deno.env.get('APPLE_BUNDLE_ID')
+  if (!expectedBundleId) {
+    throw new Error('Missing APPLE_BUNDLE_ID secret')
+  }
+
+  // 1. Outer envelope
+  const payload = await verifyAppleSignedData<NotificationPayload>(signedPayload)
+
+  if (!payload.notificationUUID || !payload.notificationType) {
+    throw new AppleJWSVerificationError('Notification is missing notificationUUID or notificationType')
+  }
+
+  // Summary notifications (renewal date extensions) carry no data block
+  if (!payload.data) {
+    return { payload, transaction: null, renewal: null }
+  }
+
+  if (payload.data.bundleId !== expectedBundleId) {
+    throw new AppleJWSVerificationError(`Bundle ID mismatch: ${payload.data.bundleId}`)
+  }
+
+  // 2. Transaction info
+  let transaction: AppleTransactionPayload | null = null
+  if (payload.data.signedTransactionInfo) {
+    transaction = await verifyAppleSignedData<AppleTransactionPayload>(payload.data.signedTransactionInfo)
+
+    if (transaction.bundleId !== expectedBundleId) {
+      throw new AppleJWSVerificationError(`Transaction bundle ID mismatch: ${transaction.bundleId}`)
+    }
+
+    if (transaction.environment !== payload.data.environment) {
+      throw new AppleJWSVerificationError('Transaction environment does not match notification')
+    }
+  }
+
+  // 3. Renewal info (auto-renewable subscriptions only)
+  let renewal: AppleRenewalInfoPayload | null = null
+  if (payload.data.signedRenewalInfo) {
+    renewal = await verifyAppleSignedData<AppleRenewalInfoPayload>(payload.data.signedRenewalInfo)
+
+    if (transaction && renewal.originalTransactionId !== transaction.originalTransactionId) {
+      throw new AppleJWSVerificationError('Renewal info does not belong to the notification transaction')
+    }
+  }
+
+  return { payload, transaction, renewal }
+}
@@ -0,0 +1,132 @@
+/**
+ * Subscription Service
+ *
+ * Maps subscription notifications to apply_subscription_event:
+ * - SUBSCRIBED / DID_RENEW              → active, grant monthly credits
+ * - DID_CHANGE_RENEWAL_PREF (UPGRADE)   → active on the new plan, grant its monthly credits
+ * - DID_CHANGE_RENEWAL_PREF (DOWNGRADE) → next plan recorded, applied on DID_RENEW
+ * - DID_CHANGE_RENEWAL_STATUS           → auto-renew flag only
+ * - DID_FAIL_TO_RENEW (GRACE_PERIOD)    → grace_period (tier kept)
+ * - DID_FAIL_TO_RENEW                   → billing_retry (tier → free)
+ * - GRACE_PERIOD_EXPIRED                → billing_retry (tier → free)
+ * - EXPIRED                             → expired (tier → free)
+ * - REVOKE / REFUND                     → revoked (tier → free)
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  getSubscriptionForProduct,
+  type AppleRenewalInfoPayload,
+  type AppleTransactionPayload
+} from '../_shared/apple-iap-verifier.ts'
+import { logEvent } from '../_shared/logger.ts'
+import type { NotificationPayload } from './notification-verifier.ts'
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Apply a subscription notification
+ *
+ * @returns false if the transaction isn't for a subscription product (caller handles it)
+ */
+export async function handleSubscriptionEvent(
+  supabase: SupabaseClient,
+  payload: NotificationPayload,
+  transaction: AppleTransactionPayload,
+  renewal: AppleRenewalInfoPayload | null
+): Promise<boolean> {
+  const product = await getSubscriptionForProduct(transaction.productId)
+  if (!product) {
+    return false
+  }
+
+  const { notificationType, subtype } = payload
+
+  let status: string | null = null
+  let grantCredits = 0
+
+  switch (notificationType) {
+    case 'SUBSCRIBED':
+    case 'DID_RENEW':
+      status = 'active'
+      grantCredits = product.monthly_credits
+      break
+
+    case 'DID_CHANGE_RENEWAL_PREF':
+      if (subtype === 'UPGRADE') {
+        // Upgrades start a new, fully paid period right away (Apple refunds the rest of the
+        // old one), so this is the same grant update-credits makes for the transaction
+        status = 'active'
+        grantCredits = product.monthly_credits
+      }
+      break
+
+    case 'DID_FAIL_TO_RENEW':
+      status = subtype === 'GRACE_PERIOD' ? 'grace_period' : 'billing_retry'
+      break
+
+    case 'GRACE_PERIOD_EXPIRED':
+      status = 'billing_retry'
+      break
+
+    case 'EXPIRED':
+      status = 'expired'
+      break
+
+    case 'REVOKE':
+    case 'REFUND':
+      status = 'revoked'
+      break
+  }
+
+  // First event for this subscription may carry our user id as appAccountToken
+  const appAccountToken = transaction.appAccountToken
+  const userId = appAccountToken && UUID_REGEX.test(appAccountToken) ? appAccountToken : null
+
+  const { data: result, error } = await supabase.rpc('apply_subscription_event', {
+    p_original_transaction_id: transaction.originalTransactionId,
+    p_transaction_id: transaction.transactionId,
+    p_product_id: transaction.productId,
+    p_tier: product.tier,
+    p_status: status,
+    p_event_type: subtype ? `${notificationType}:${subtype}` : notificationType,
+    p_event_at: new Date(payload.signedDate).toISOString(),
+    p_user_id: userId,
+    p_expires_at: transaction.expiresDate ? new Date(transaction.expiresDate).toISOString() : null,
+    p_grace_period_expires_at: renewal?.gracePeriodExpiresDate
+      ? new Date(renewal.gracePeriodExpiresDate).toISOString()
+      : null,
+    p_auto_renew_status: renewal ? renewal.autoRenewStatus === 1 : null,
+    p_auto_renew_product_id: renewal?.autoRenewProductId ?? null,
+    p_environment: transaction.environment,
+    p_grant_credits: grantCredits
+  })
+
+  if (error) {
+    throw new Error(`Failed to apply subscription event: ${error.message}`)
+  }
+
+  if (!result.success) {
+    // Not linked yet: the app links it via update-credits, which re-reads state from Apple
+    logEvent('apple_subscription_event_skipped', {
+      notification_type: notificationType,
+      subtype,
+      original_transaction_id: transaction.originalTransactionId,
+      reason: result.error
+    }, 'warn')
+    return true
+  }
+
+  logEvent('apple_subscription_event_applied', {
+    notification_type: notificationType,
+    subtype,
+    original_transaction_id: transaction.originalTransactionId,
+    user_id: result.user_id,
+    status: result.status,
+    tier: result.tier,
+    credits_granted: result.credits_granted,
+    stale: result.stale
+  }, 'info')
+
+  return true
+}
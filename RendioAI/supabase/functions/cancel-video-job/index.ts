@@ -0,0 +1,273 @@
+/**
+ * Cancel Video Job Endpoint
+ *
+ * Purpose: Stop an in-flight generation and give the credits back
+ *
+ * Endpoint: POST /cancel-video-job
+ *
+ * Headers:
+ * - Authorization (required): Bearer <Supabase access token>
+ *
+ * Request Body:
+ * {
+ *   "job_id": "uuid",
+ *   "user_id": "uuid" (optional, legacy - must match the authenticated user)
+ * }
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "job_id": "uuid",
+ *   "status": "cancelled",
+ *   "credits_refunded": 4,
+ *   "credits_remaining": 20,
+ *   "provider_cancelled": true
+ * }
+ *
+ * Note: Only pending/processing jobs can be cancelled (409 otherwise).
+ * The provider is asked to stop first. If it doesn't, the job is checked with
+ * the provider: one that already completed or failed is settled like a status
+ * poll would (video kept, or refunded as a failure) and answered with 409.
+ * Otherwise the job is cancelled and refunded (provider_cancelled: false).
+ * Cancelling twice returns the original refund.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { logEvent } from '../_shared/logger.ts'
+import { requireAuth } from '../_shared/auth-helper.ts'
+import { isValidUUID, validationError } from '../_shared/validation.ts'
+import { getVideoProvider } from '../_shared/video-providers.ts'
+import {
+  getJobProvider,
+  handleCompletedStatus,
+  handleFailedStatus,
+  JOB_STATUS_SELECT,
+  type JobData
+} from '../_shared/status-handlers.ts'
+
+serve(async (req) => {
+  try {
+    // 1. Validate HTTP method
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          status: 405,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // 2. Parse request body
+    let body: { job_id?: string; user_id?: string }
+    try {
+      body = await req.json()
+    } catch (jsonError) {
+      logEvent('cancel_video_job_invalid_json', {
+        error: jsonError.message
+      }, 'error')
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid JSON in request body',
+          details: jsonError.message
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const { job_id } = body
+
+    // 3. Validate required fields
+    if (!job_id) {
+      return new Response(
+        JSON.stringify({ error: 'job_id is required' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
+    if (!isValidUUID(job_id)) {
+      return validationError('job_id', 'Must be valid UUID format')
+    }
+
+    // 4. Initialize Supabase client with service role key
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Resolve caller from access token (never trust user_id from the request)
+    const { user_id } = await requireAuth(req, supabaseClient, body.user_id)
+
+    logEvent('cancel_video_job_request', { job_id, user_id }, 'info')
+
+    // 5. Load job and verify ownership (same response as missing job so IDs can't be probed)
+    const { data: job, error: jobError } = await supabaseClient
+      .from('video_jobs')
+      .select(JOB_STATUS_SELECT)
+      .eq('job_id', job_id)
+      .maybeSingle()
+
+    const jobData = job as unknown as JobData | null
+    if (jobError || !jobData || jobData.user_id !== user_id) {
+      logEvent('cancel_video_job_not_found', {
+        job_id,
+        user_id,
+        error: jobError?.message
+      }, 'warn')
+      return new Response(
+        JSON.stringify({ error: 'Job not found' }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (jobData.status === 'completed' || jobData.status === 'failed') {
+      return new Response(
+        JSON.stringify({ error: 'Job already finished', status: jobData.status }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // 6. Ask the provider to stop
+    let providerCancelled = false
+    if (jobData.status !== 'cancelled' && jobData.provider_job_id) {
+      const { provider: providerId, providerModelId, endpointPaths } = getJobProvider(jobData)
+      const provider = getVideoProvider(providerId)
+      try {
+        if (provider.describe().supports_cancel) {
+          providerCancelled = await provider.cancel(providerModelId, jobData.provider_job_id, endpointPaths)
+        }
+      } catch (cancelError) {
+        logEvent('cancel_video_job_provider_error', {
+          job_id,
+          provider: providerId,
+          provider_job_id: jobData.provider_job_id,
+          error: cancelError.message
+        }, 'warn')
+      }
+
+      // 6a. Not stopped (e.g. FalAI 400, Pika 409, Runway 404): it may have finished
+      // meanwhile - settle it like a status poll instead of refunding a delivered video
+      if (!providerCancelled) {
+        let providerStatus
+        try {
+          providerStatus = await provider.getStatus(providerModelId, jobData.provider_job_id, endpointPaths)
+        } catch (statusError) {
+          logEvent('cancel_video_job_status_error', {
+            job_id,
+            provider: providerId,
+            provider_job_id: jobData.provider_job_id,
+            error: statusError.message
+          }, 'error')
+          return new Response(
+            JSON.stringify({ error: 'Could not confirm the job state with the provider, try again' }),
+            {
+              status: 502,
+              headers: { 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        const settled = providerStatus.status === 'COMPLETED'
+          ? await handleCompletedStatus(jobData, providerStatus, supabaseClient)
+          : providerStatus.status === 'FAILED'
+            ? await handleFailedStatus(jobData, providerStatus, supabaseClient)
+            : null
+
+        // null: still running, or completed without a video - cancel below
+        if (settled) {
+          logEvent('cancel_video_job_already_finished', {
+            job_id,
+            user_id,
+            provider: providerId,
+            status: settled.status,
+            credits_refunded: settled.credits_refunded
+          }, 'info')
+          return new Response(
+            JSON.stringify({ error: 'Job already finished', ...settled }),
+            {
+              status: 409,
+              headers: { 'Content-Type': 'application/json' }
+            }
+          )
+        }
+      }
+    }
+
+    // 7. Cancel + refund atomically (once per job)
+    const { data: result, error: cancelError } = await supabaseClient.rpc('cancel_video_job', {
+      p_job_id: job_id,
+      p_user_id: user_id
+    })
+
+    if (cancelError) {
+      logEvent('cancel_video_job_error', { job_id, error: cancelError.message }, 'error')
+      throw cancelError
+    }
+
+    if (!result.success) {
+      // Finished while we were talking to the provider
+      const status = result.status ? 409 : 404
+      return new Response(
+        JSON.stringify({ error: result.error, status: result.status }),
+        {
+          status,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    logEvent('cancel_video_job_success', {
+      job_id,
+      user_id,
+      changed: result.changed,
+      credits_refunded: result.credits_refunded,
+      provider_cancelled: providerCancelled
+    }, 'info')
+
+    // 8. Return cancelled state
+    return new Response(
+      JSON.stringify({
+        success: true,
+        job_id,
+        status: 'cancelled',
+        credits_refunded: result.credits_refunded ?? 0,
+        credits_remaining: result.credits_remaining ?? null,
+        provider_cancelled: providerCancelled
+      }),
+      {
+        headers: { 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    // Auth failures are thrown as ready-made 401/403 responses
+    if (error instanceof Response) {
+      return error
+    }
+
+    logEvent('cancel_video_job_unexpected_error', {
+      error: error.message,
+      stack: error.stack
+    }, 'error')
+
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
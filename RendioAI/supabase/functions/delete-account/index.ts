@@ -5,9 +5,12 @@
  *
  * Endpoint: POST /delete-account
  *
- * Request Body:
+ * Headers:
+ * - Authorization (required): Bearer <Supabase access token>
+ *
+ * Request Body (optional):
  * {
- *   "user_id": "uuid"
+ *   "user_id": "uuid" (legacy - must match the authenticated user)
  * }
  *
  * Response:
@@ -24,6 +27,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { logEvent } from '../_shared/logger.ts'
+import { requireAuth } from '../_shared/auth-helper.ts'
 
 serve(async (req) => {
   try {
@@ -34,20 +38,17 @@ serve(async (req) => {
       })
     }
 
-    const { user_id } = await req.json()
-
-    if (!user_id) {
-      return new Response(JSON.stringify({ error: 'user_id required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' }
-      })
-    }
+    // Body is optional now that identity comes from the access token
+    const body = await req.json().catch(() => ({}))
 
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
+    // Resolve caller from access token (never trust user_id from the request)
+    const { user_id } = await requireAuth(req, supabase, body?.user_id)
+
     logEvent('delete_account_request', { user_id }, 'info')
 
     // Verify user exists before deletion
@@ -90,6 +91,11 @@ serve(async (req) => {
     })
 
   } catch (error) {
+    // Auth failures are thrown as ready-made 401/403 responses
+    if (error instanceof Response) {
+      return error
+    }
+
     logEvent('delete_account_unexpected_error', { error: error.message }, 'error')
 
     return new Response(JSON.stringify({ error: error.message }), {
@@ -5,10 +5,13 @@
  * 
  * Endpoint: POST /delete-video-job
  * 
+ * Headers:
+ * - Authorization (required): Bearer <Supabase access token>
+ * 
  * Request Body:
  * {
  *   "job_id": "uuid",
- *   "user_id": "uuid"
+ *   "user_id": "uuid" (optional, legacy - must match the authenticated user)
  * }
  * 
  * Response:
@@ -22,6 +25,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { logEvent } from '../_shared/logger.ts'
+import { requireAuth } from '../_shared/auth-helper.ts'
 
 serve(async (req) => {
   try {
@@ -56,16 +60,15 @@ serve(async (req) => {
       )
     }
 
-    const { job_id, user_id } = body
+    const { job_id } = body
 
     // 3. Validate required fields
-    if (!job_id || !user_id) {
+    if (!job_id) {
       logEvent('delete_video_job_missing_fields', { 
-        has_job_id: !!job_id,
-        has_user_id: !!user_id 
+        has_job_id: !!job_id
       }, 'warn')
       return new Response(
-        JSON.stringify({ error: 'job_id and user_id are required' }),
+        JSON.stringify({ error: 'job_id is required' }),
         { 
           status: 400, 
           headers: { 'Content-Type': 'application/json' } 
@@ -79,6 +82,9 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
+    // Resolve caller from access token (never trust user_id from the request)
+    const { user_id } = await requireAuth(req, supabaseClient, body.user_id)
+
     logEvent('delete_video_job_request', { 
       job_id,
       user_id 
@@ -168,6 +174,11 @@ serve(async (req) => {
     )
 
   } catch (error) {
+    // Auth failures are thrown as ready-made 401/403 responses
+    if (error instanceof Response) {
+      return error
+    }
+
     logEvent('delete_video_job_unexpected_error', { 
       error: error.message,
       stack: error.stack 
@@ -0,0 +1,168 @@
+/**
+ * FalAI Webhook Handler
+ * Receives FalAI queue results so jobs complete even when the app isn't polling
+ *
+ * Documentation: https://docs.fal.ai/model-endpoints/webhooks
+ *
+ * Request Body:
+ * {
+ *   "request_id": "string",          // video_jobs.provider_job_id
+ *   "status": "OK" | "ERROR",
+ *   "payload": { "video": { "url": "..." } },
+ *   "error": "string"                // ERROR only
+ * }
+ *
+ * Every delivery is signature-checked (see signature-verifier.ts), then drives
+ * the same completion/failure handlers as get-video-status. Deliveries for jobs
+ * that already finished are acknowledged without side effects.
+ *
+ * Deploy without JWT verification (FalAI can't send a Supabase token):
+ *   supabase functions deploy falai-webhook --no-verify-jwt
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { logEvent } from '../_shared/logger.ts'
+import {
+  handleCompletedStatus,
+  handleFailedStatus,
+  getJobProvider,
+  JOB_STATUS_SELECT,
+  type JobData
+} from '../_shared/status-handlers.ts'
+import { FalWebhookVerificationError, verifyFalWebhook } from './signature-verifier.ts'
+
+interface FalWebhookBody {
+  request_id?: string
+  gateway_request_id?: string
+  status?: 'OK' | 'ERROR'
+  payload?: { video?: { url?: string } } | null
+  error?: string | null
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 })
+  }
+
+  try {
+    // 1. Verify before trusting anything in the body
+    const rawBody = await req.arrayBuffer()
+    try {
+      await verifyFalWebhook(req.headers, rawBody)
+    } catch (error) {
+      if (error instanceof FalWebhookVerificationError) {
+        logEvent('falai_webhook_rejected', { reason: error.message }, 'warn')
+        return new Response(
+          JSON.stringify({ success: false, error: 'Invalid signature' }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+      throw error
+    }
+
+    let body: FalWebhookBody
+    try {
+      body = JSON.parse(new TextDecoder().decode(rawBody))
+    } catch (_jsonError) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Invalid JSON in request body' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const requestId = body.request_id ?? body.gateway_request_id
+    if (!requestId || (body.status !== 'OK' && body.status !== 'ERROR')) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Missing request_id or status' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    logEvent('falai_webhook_received', { request_id: requestId, status: body.status }, 'info')
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // 2. Find the job FalAI is reporting on
+    const { data: job, error: jobError } = await supabaseClient
+      .from('video_jobs')
+      .select(JOB_STATUS_SELECT)
+      .eq('provider_job_id', requestId)
+      .maybeSingle()
+
+    if (jobError) {
+      throw jobError
+    }
+
+    const jobData = job as unknown as JobData | null
+    if (!jobData || getJobProvider(jobData).provider !== 'fal') {
+      // Acknowledge so FalAI stops retrying - there is nothing to update
+      logEvent('falai_webhook_job_not_found', { request_id: requestId }, 'warn')
+      return new Response(
+        JSON.stringify({ success: true, message: 'No matching job' }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // 3. Already resolved (by polling or an earlier delivery)
+    if (jobData.status !== 'pending' && jobData.status !== 'processing') {
+      logEvent('falai_webhook_duplicate', {
+        job_id: jobData.job_id,
+        status: jobData.status
+      }, 'info')
+      return new Response(
+        JSON.stringify({ success: true, message: 'Job already finished', status: jobData.status }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // 4. Same handlers as get-video-status
+    if (body.status === 'OK') {
+      const response = await handleCompletedStatus(
+        jobData,
+        { status: 'COMPLETED', video: body.payload?.video },
+        supabaseClient
+      )
+
+      // No URL yet - job stays processing and polling picks it up
+      const status = response?.status ?? jobData.status
+      logEvent('falai_webhook_processed', { job_id: jobData.job_id, status }, 'info')
+      return new Response(
+        JSON.stringify({ success: true, status }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const response = await handleFailedStatus(
+      jobData,
+      { status: 'FAILED', error: body.error ?? undefined },
+      supabaseClient
+    )
+
+    logEvent('falai_webhook_processed', {
+      job_id: jobData.job_id,
+      status: response.status,
+      credits_refunded: response.credits_refunded
+    }, 'info')
+
+    return new Response(
+      JSON.stringify({ success: true, status: response.status }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    // 500 makes FalAI retry the delivery
+    logEvent('falai_webhook_error', {
+      error: error.message,
+      stack: error.stack
+    }, 'error')
+
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,127 @@
+/**
+ * Signature Verifier
+ *
+ * Verifies FalAI webhook deliveries (ED25519, keys from FalAI's JWKS).
+ * Signed message: request_id \n user_id \n timestamp \n sha256_hex(body)
+ * https://docs.fal.ai/model-endpoints/webhooks#verifying-webhook-signatures
+ *
+ * Deliveries older/newer than TIMESTAMP_TOLERANCE_SECONDS are rejected (replays).
+ */
+
+const FALAI_JWKS_URL = 'https://rest.alpha.fal.ai/.well-known/jwks.json'
+const JWKS_TTL_MS = 24 * 60 * 60 * 1000
+const TIMESTAMP_TOLERANCE_SECONDS = 300
+
+export class FalWebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FalWebhookVerificationError'
+  }
+}
+
+interface JsonWebKey {
+  kty: string
+  crv?: string
+  x?: string
+}
+
+let jwksCache: { keys: CryptoKey[], loadedAt: number } | null = null
+
+function base64UrlToBytes(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=')
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+}
+
+function hexToBytes(hex: string) {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+    return null
+  }
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * FalAI's public keys (cached per function instance)
+ */
+async function getFalAIPublicKeys(): Promise<CryptoKey[]> {
+  if (jwksCache && Date.now() - jwksCache.loadedAt < JWKS_TTL_MS) {
+    return jwksCache.keys
+  }
+
+  const response = await fetch(FALAI_JWKS_URL)
+  if (!response.ok) {
+    // Keep verifying with the old keys rather than rejecting every delivery
+    if (jwksCache) {
+      console.error('⚠️ Failed to refresh FalAI JWKS, using cached keys:', response.status)
+      return jwksCache.keys
+    }
+    throw new Error(`FalAI JWKS fetch error: ${response.status} ${response.statusText}`)
+  }
+
+  const jwks = await response.json() as { keys?: JsonWebKey[] }
+  const keys: CryptoKey[] = []
+  for (const jwk of jwks.keys || []) {
+    if (jwk.kty !== 'OKP' || jwk.crv !== 'Ed25519' || !jwk.x) {
+      continue
+    }
+    keys.push(await crypto.subtle.importKey('raw', base64UrlToBytes(jwk.x), { name: 'Ed25519' }, false, ['verify']))
+  }
+
+  if (keys.length === 0) {
+    throw new Error('FalAI JWKS has no Ed25519 keys')
+  }
+
+  jwksCache = { keys, loadedAt: Date.now() }
+  return keys
+}
+
+/**
+ * Verify a webhook delivery
+ *
+ * @param headers - Request headers (X-Fal-Webhook-*)
+ * @param rawBody - Request body exactly as received
+ * @throws FalWebhookVerificationError if the delivery is not from FalAI
+ */
+export async function verifyFalWebhook(headers: Headers, rawBody: ArrayBuffer): Promise<void> {
+  const requestId = headers.get('X-Fal-Webhook-Request-Id')
+  const userId = headers.get('X-Fal-Webhook-User-Id')
+  const timestamp = headers.get('X-Fal-Webhook-Timestamp')
+  const signatureHex = headers.get('X-Fal-Webhook-Signature')
+
+  if (!requestId || !userId || !timestamp || !signatureHex) {
+    throw new FalWebhookVerificationError('Missing X-Fal-Webhook-* headers')
+  }
+
+  const timestampSeconds = parseInt(timestamp, 10)
+  if (!Number.isFinite(timestampSeconds) ||
+      Math.abs(Date.now() / 1000 - timestampSeconds) > TIMESTAMP_TOLERANCE_SECONDS) {
+    throw new FalWebhookVerificationError('Webhook timestamp outside tolerance')
+  }
+
+  const signature = hexToBytes(signatureHex)
+  if (!signature) {
+    throw new FalWebhookVerificationError('Malformed webhook signature')
+  }
+
+  const message = new TextEncoder().encode(
+    [requestId, userId, timestamp, await sha256Hex(rawBody)].join('\n')
+  )
+
+  for (const key of await getFalAIPublicKeys()) {
+    if (await crypto.subtle.verify({ name: 'Ed25519' }, key, signature, message)) {
+      return
+    }
+  }
+
+  throw new FalWebhookVerificationError('Webhook signature does not match any FalAI key')
+}
@@ -1,6 +1,7 @@
 /**
  * Credit Service
- * Handles credit deduction and refund operations
+ * Handles direct credit deduction
+ * (video generation uses holds - see _shared/credit-reservations.ts)
  */
 
 import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
@@ -23,18 +24,3 @@ export async function deductCredits(
     p_reason: 'video_generation'
   })
 }
-
-export async function refundCredits(
-  supabaseClient: SupabaseClient,
-  user_id: string,
-  amount: number,
-  reason: string = 'generation_failed_refund'
-): Promise<{ error: any }> {
-  return await supabaseClient.rpc('add_credits', {
-    p_user_id: user_id,
-    p_amount: amount,
-    p_reason: reason,
-    p_transaction_id: null
-  })
-}
-
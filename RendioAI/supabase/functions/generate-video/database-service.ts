@@ -5,18 +5,69 @@
 
 import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import type { ActiveModel, Theme, VideoJob } from './types.ts'
+import type { ProviderEndpointPaths } from '../_shared/video-providers.ts'
 
+const MODEL_FIELDS = 'id, cost_per_generation, provider, provider_model_id, is_available, pricing_type, base_price, required_fields, input_modes, min_tier, fallback_model_ids, endpoint_paths'
+
+/**
+ * Default model (is_active), used when the request has no model_id
+ */
 export async function fetchActiveModel(
   supabaseClient: SupabaseClient
 ): Promise<{ data: ActiveModel | null; error: any }> {
   return await supabaseClient
     .from('models')
-    .select('id, cost_per_generation, provider, provider_model_id, is_available, pricing_type, base_price, required_fields')
+    .select(MODEL_FIELDS)
     .eq('is_active', true)
     .eq('is_available', true)
     .single()
 }
 
+/**
+ * Model chosen by the client (any available model)
+ */
+export async function fetchModel(
+  supabaseClient: SupabaseClient,
+  model_id: string
+): Promise<{ data: ActiveModel | null; error: any }> {
+  return await supabaseClient
+    .from('models')
+    .select(MODEL_FIELDS)
+    .eq('id', model_id)
+    .eq('is_available', true)
+    .maybeSingle()
+}
+
+/**
+ * A model's fallback models, in the order it lists them
+ * Unavailable fallbacks are skipped
+ */
+export async function fetchFallbackModels(
+  supabaseClient: SupabaseClient,
+  model: ActiveModel
+): Promise<{ data: ActiveModel[]; error: any }> {
+  const ids = (model.fallback_model_ids || []).filter((id) => id !== model.id)
+  if (ids.length === 0) {
+    return { data: [], error: null }
+  }
+
+  const { data, error } = await supabaseClient
+    .from('models')
+    .select(MODEL_FIELDS)
+    .in('id', ids)
+    .eq('is_available', true)
+
+  if (error || !data) {
+    return { data: [], error }
+  }
+
+  const byId = new Map((data as ActiveModel[]).map((fallback) => [fallback.id, fallback]))
+  return {
+    data: ids.map((id) => byId.get(id)).filter((fallback): fallback is ActiveModel => !!fallback),
+    error: null
+  }
+}
+
 export async function fetchTheme(
   supabaseClient: SupabaseClient,
   theme_id: string
@@ -51,18 +102,45 @@ export async function createVideoJob(
     .single()
 }
 
-export async function updateVideoJob(
+/**
+ * Move a job out of `pending` (after the provider submission)
+ * Only changes a job that is still pending: cancel-video-job may have
+ * cancelled and refunded it while the submission was in flight.
+ *
+ * @returns updated: false when the job had already left `pending`
+ */
+export async function updatePendingVideoJob(
   supabaseClient: SupabaseClient,
   job_id: string,
   updates: {
     provider_job_id?: string
+    provider?: string
+    provider_model_id?: string
+    provider_endpoint_paths?: ProviderEndpointPaths | null
+    executed_model_id?: string
     status?: string
     error_message?: string
   }
-): Promise<{ error: any }> {
-  return await supabaseClient
+): Promise<{ updated: boolean; error: any }> {
+  const { data, error } = await supabaseClient
     .from('video_jobs')
     .update(updates)
     .eq('job_id', job_id)
+    .eq('status', 'pending')
+    .select('job_id')
+
+  return { updated: (data?.length ?? 0) > 0, error }
 }
 
+export async function fetchVideoJobStatus(
+  supabaseClient: SupabaseClient,
+  job_id: string
+): Promise<{ data: string | null; error: any }> {
+  const { data, error } = await supabaseClient
+    .from('video_jobs')
+    .select('status')
+    .eq('job_id', job_id)
+    .maybeSingle()
+
+  return { data: data?.status ?? null, error }
+}
@@ -10,19 +10,24 @@ import { createLogger, logRateLimit, logEvent } from '../_shared/logger.ts'
 import { initSentry, captureException, flush } from '../_shared/sentry.ts'
 import { alertRateLimitViolation } from '../_shared/telegram.ts'
 import { isValidUUID, isValidLength, validationError } from '../_shared/validation.ts'
+import { requireAuth } from '../_shared/auth-helper.ts'
+import { isTierAllowed } from '../_shared/model-access.ts'
 
 import type { GenerateVideoRequest, ActiveModel, FinalSettings } from './types.ts'
 import {
   validateHttpMethod,
   validateIdempotencyKey,
   validateRequiredFields,
-  validateModelRequirements
+  validateModelRequirements,
+  resolveInputMode
 } from './validators.ts'
 import { checkIdempotency, storeIdempotencyRecord } from './idempotency-service.ts'
-import { fetchActiveModel, fetchTheme, createVideoJob, updateVideoJob } from './database-service.ts'
-import { calculateCost } from './cost-calculator.ts'
-import { refundCredits } from './credit-service.ts'
-import { submitProviderJob } from './provider-service.ts'
+import { fetchActiveModel, fetchModel, fetchFallbackModels, fetchTheme, createVideoJob, updatePendingVideoJob, fetchVideoJobStatus } from './database-service.ts'
+import { calculateCost, resolveFinalSettings } from '../_shared/video-pricing.ts'
+import { getPricingRule } from '../_shared/pricing-rules.ts'
+import { releaseCreditReservation } from '../_shared/credit-reservations.ts'
+import { cancelSubmittedJob, checkProviderAvailability, submitWithFailover } from './provider-service.ts'
+import { ProviderUnavailableError, COOLDOWN_SECONDS } from '../_shared/provider-circuit.ts'
 
 // Phase 5 Debug Helpers (toggle via env DEBUG_PHASE5=true)
 const DEBUG_PHASE5 = Deno.env.get('DEBUG_PHASE5') === 'true'
@@ -30,6 +35,25 @@ function p5log(...args: any[]) { if (DEBUG_PHASE5) console.log(...args) }
 function p5time(label: string) { const t = Date.now(); return () => Date.now() - t }
 function truncate(s: string, max = 120) { return s.length > max ? s.substring(0, max) + '...' : s }
 
+/**
+ * 503 while provider circuits are open (client should retry after Retry-After)
+ */
+function providerUnavailableResponse(retryAfterSeconds: number): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'Video generation is temporarily unavailable',
+      retry_after_seconds: retryAfterSeconds
+    }),
+    {
+      status: 503,
+      headers: {
+        'Content-Type': 'application/json',
+        'Retry-After': String(retryAfterSeconds)
+      }
+    }
+  )
+}
+
 // Initialize monitoring
 initSentry('generate-video')
 const logger = createLogger('generate-video')
@@ -85,7 +109,17 @@ serve(async (req) => {
         }
       )
     }
-    const { user_id, theme_id, prompt, image_url, settings } = body
+    const { theme_id, model_id, prompt, image_url, settings } = body
+
+    // Initialize Supabase client
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Resolve caller from access token (never trust user_id from the request body)
+    const { user_id, tier } = await requireAuth(req, supabaseClient, body.user_id)
+
     console.log('[STEP 3] Request data:', {
       user_id,
       theme_id,
@@ -108,7 +142,6 @@ serve(async (req) => {
     if (fieldsError) {
       p5log('[P5][GenerateVideo][ERR]', { step: 'field_validation', requestId })
       logEvent('generate_video_missing_fields', {
-        has_user_id: !!user_id,
         has_theme_id: !!theme_id,
         has_prompt: !!prompt
       }, 'warn')
@@ -118,18 +151,18 @@ serve(async (req) => {
     // STEP 4a: Validate input formats
     console.log('[STEP 4a] Validating input formats...')
 
-    // Validate user_id is UUID
-    if (!isValidUUID(user_id)) {
-      logEvent('generate_video_invalid_user_id', { user_id }, 'warn')
-      return validationError('user_id', 'Must be valid UUID format')
-    }
-
     // Validate theme_id is UUID
     if (!isValidUUID(theme_id)) {
       logEvent('generate_video_invalid_theme_id', { theme_id }, 'warn')
       return validationError('theme_id', 'Must be valid UUID format')
     }
 
+    // Validate model_id is UUID if provided
+    if (model_id !== undefined && !isValidUUID(model_id)) {
+      logEvent('generate_video_invalid_model_id', { model_id }, 'warn')
+      return validationError('model_id', 'Must be valid UUID format')
+    }
+
     // Validate prompt length (1-5000 chars)
     if (!isValidLength(prompt, 1, 5000)) {
       logEvent('generate_video_invalid_prompt_length', { length: prompt?.length }, 'warn')
@@ -149,20 +182,12 @@ serve(async (req) => {
     if (originalFieldsError) {
       p5log('[P5][GenerateVideo][ERR]', { step: 'field_validation_double_check', requestId })
       logEvent('generate_video_missing_fields_after_validation', {
-        has_user_id: !!user_id,
         has_theme_id: !!theme_id,
         has_prompt: !!prompt
       }, 'warn')
-      return fieldsError
+      return originalFieldsError
     }
 
-    // 4. Initialize Supabase client
-    console.log('[STEP 5] Initializing Supabase client...')
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
-
     // 5. Check idempotency
     // STEP C: Idempotency check
     p5log('[P5][GenerateVideo][IdemCheck][START]', { idempotencyKey, user_id, requestId })
@@ -194,10 +219,12 @@ serve(async (req) => {
       )
     }
 
-    // 6. Fetch active model
-    console.log('[STEP 7] Fetching active model from database...')
-    const { data: activeModel, error: modelError } = await fetchActiveModel(supabaseClient)
-    console.log('[STEP 7] Active model fetch result:', { 
+    // 6. Fetch requested model, or the default (active) model
+    console.log('[STEP 7] Fetching model from database...', { requested_model_id: model_id ?? null })
+    const { data: activeModel, error: modelError } = model_id
+      ? await fetchModel(supabaseClient, model_id)
+      : await fetchActiveModel(supabaseClient)
+    console.log('[STEP 7] Model fetch result:', { 
       found: !!activeModel, 
       error: modelError?.message,
       model_id: activeModel?.id,
@@ -208,8 +235,16 @@ serve(async (req) => {
     })
 
     if (modelError || !activeModel) {
-      console.log('[STEP 7] ERROR: No active model found')
       p5log('[P5][GenerateVideo][ERR]', { step: 'model_fetch', error: modelError?.message, requestId })
+      if (model_id) {
+        console.log('[STEP 7] ERROR: Requested model not available')
+        logEvent('generate_video_model_not_found', { model_id, error: modelError?.message }, 'warn')
+        return new Response(
+          JSON.stringify({ error: 'Model not found or not available' }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+      console.log('[STEP 7] ERROR: No active model found')
       logEvent('generate_video_no_active_model', { error: modelError?.message }, 'error')
       return new Response(
         JSON.stringify({ error: 'No active model found. Please contact support.' }),
@@ -217,6 +252,23 @@ serve(async (req) => {
       )
     }
 
+    if (!isTierAllowed(tier, activeModel.min_tier)) {
+      p5log('[P5][GenerateVideo][ERR]', { step: 'model_tier', requestId })
+      logEvent('generate_video_model_tier_denied', {
+        user_id,
+        model_id: activeModel.id,
+        tier,
+        min_tier: activeModel.min_tier
+      }, 'warn')
+      return new Response(
+        JSON.stringify({
+          error: 'Model not available on your plan',
+          min_tier: activeModel.min_tier
+        }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
     // 7. Fetch theme
     console.log('[STEP 8] Fetching theme from database...')
     const { data: theme, error: themeError } = await fetchTheme(supabaseClient, theme_id)
@@ -252,24 +304,25 @@ serve(async (req) => {
       requires_settings: requiredFields.requires_settings
     })
 
-    const validationError = validateModelRequirements(activeModel, prompt, image_url, settings)
-    if (validationError) {
+    const inputModeResult = resolveInputMode(activeModel, body.input_mode, image_url)
+    if ('error' in inputModeResult) {
+      p5log('[P5][GenerateVideo][ERR]', { step: 'input_mode', requestId })
+      return inputModeResult.error
+    }
+    const inputMode = inputModeResult.mode
+    console.log('[STEP 9] Input mode:', inputMode)
+
+    const requirementsError = validateModelRequirements(activeModel, prompt, image_url, settings, inputMode)
+    if (requirementsError) {
       console.log('[STEP 9] Validation failed')
       p5log('[P5][GenerateVideo][ERR]', { step: 'model_requirements', requestId })
-      return validationError
+      return requirementsError
     }
     console.log('[STEP 9] Validation passed')
 
     // 9. Build final settings and calculate cost
     console.log('[STEP 10] Building final settings and calculating cost...')
-    const settingsConfig = requiredFields.settings || {}
-    const duration = settings?.duration || settingsConfig.duration?.default || 4
-    
-    const finalSettings: FinalSettings = {
-      resolution: (settings?.resolution || settingsConfig.resolution?.default || 'auto') as 'auto' | '720p',
-      aspect_ratio: (settings?.aspect_ratio || settingsConfig.aspect_ratio?.default || 'auto') as 'auto' | '9:16' | '16:9',
-      duration: duration as 4 | 8 | 12
-    }
+    const finalSettings: FinalSettings = resolveFinalSettings(activeModel, settings)
     
     console.log('[STEP 10] Final settings:', {
       resolution: finalSettings.resolution,
@@ -282,7 +335,11 @@ serve(async (req) => {
     console.log('[STEP 10] Pricing type:', activeModel.pricing_type)
     console.log('[STEP 10] Base price:', activeModel.base_price)
 
-    const costResult = calculateCost(activeModel, finalSettings, requiredFields)
+    const pricingRule = await getPricingRule(supabaseClient, activeModel.id)
+    const costResult = calculateCost(activeModel, finalSettings, requiredFields, {
+      rule: pricingRule,
+      tier
+    })
 
     // STEP D: Cost calc / model lookup
     p5log('[P5][GenerateVideo][Cost][CALC]', {
@@ -290,6 +347,7 @@ serve(async (req) => {
       pricing_type: activeModel.pricing_type,
       credits: costResult.creditsToDeduct,
       duration: costResult.duration,
+      pricing_rule_id: costResult.pricingRuleId,
       requestId
     })
 
@@ -300,6 +358,34 @@ serve(async (req) => {
       pricing_type: activeModel.pricing_type
     })
 
+    // 9a. Refuse early while every provider that could run the job is down (no credits held yet)
+    // Fallbacks are only tried on provider-side errors (see provider-service.ts)
+    const { data: fallbackModels, error: fallbackError } = await fetchFallbackModels(supabaseClient, activeModel)
+    if (fallbackError) {
+      logEvent('generate_video_fallback_fetch_error', {
+        model_id: activeModel.id,
+        error: fallbackError.message
+      }, 'warn')
+    }
+
+    const availability = await checkProviderAvailability(
+      supabaseClient,
+      activeModel,
+      fallbackModels,
+      inputMode,
+      finalSettings
+    )
+    if (!availability.allowed) {
+      p5log('[P5][GenerateVideo][ERR]', { step: 'provider_circuit_open', requestId })
+      logEvent('generate_video_provider_unavailable', {
+        user_id,
+        model_id: activeModel.id,
+        provider: activeModel.provider,
+        retry_after_seconds: availability.retry_after_seconds
+      }, 'warn')
+      return providerUnavailableResponse(availability.retry_after_seconds ?? COOLDOWN_SECONDS)
+    }
+
     // 10. Check rate limiting BEFORE deducting credits
     console.log('[STEP 10.5] Checking rate limit...')
     const { data: rateLimitResult, error: rateLimitError } = await supabaseClient.rpc(
@@ -408,7 +494,13 @@ serve(async (req) => {
       p_model_id: activeModel.id,
       p_prompt: prompt,
       p_settings: settings || {},
-      p_idempotency_key: idempotencyKey
+      p_idempotency_key: idempotencyKey,
+      // Charge exactly what calculateCost priced; the job keeps this as its price snapshot
+      p_credits_cost: costResult.creditsToDeduct,
+      p_cost_in_dollars: costResult.costInDollars,
+      p_pricing_type: costResult.pricingType,
+      p_duration: costResult.duration ?? finalSettings.duration,
+      p_input_mode: inputMode
     })
 
     console.log('[STEP 11] Atomic operation result:', {
@@ -441,6 +533,18 @@ serve(async (req) => {
         )
       }
 
+      // Generation frozen after a refund of already-spent credits
+      if (atomicError.code === 'P0003') {
+        logEvent('generate_video_generation_frozen', {
+          user_id,
+          model_id: activeModel.id
+        }, 'warn')
+        return new Response(
+          JSON.stringify({ error: 'Video generation is disabled for this account' }),
+          { status: 403, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+
       // Other database errors
       logEvent('generate_video_atomic_error', {
         user_id,
@@ -459,8 +563,9 @@ serve(async (req) => {
     })
     console.log('[STEP 11] Atomic operation successful - credits deducted and job created')
 
-    // Extract job_id from atomic result
+    // Extract job_id and charged amount from atomic result
     const job = { job_id: atomicResult.job_id }
+    const creditsCharged: number = atomicResult.credits_used
 
     // 12. Submit to provider
     // STEP F: Provider submit
@@ -471,30 +576,33 @@ serve(async (req) => {
       job_id: job!.job_id,
       requestId
     })
-    console.log('[STEP 13] Calling FalAI API...')
+    console.log('[STEP 13] Calling provider API:', activeModel.provider)
     console.log('[STEP 13] Using model:', activeModel.provider_model_id)
     console.log('[STEP 13] Using user\'s prompt (may be modified from theme default)')
     console.log('[STEP 13] Image URL:', image_url ? 'provided' : 'missing')
 
     try {
-      if (!image_url && activeModel.required_fields?.requires_image) {
-        throw new Error('image_url is required for this model')
-      }
-
-      console.log('[STEP 13] Submitting FalAI job with final settings:', finalSettings)
-      const providerResult = await submitProviderJob(
+      console.log('[STEP 13] Submitting provider job with final settings:', finalSettings)
+      const providerResult = await submitWithFailover(
+        supabaseClient,
         activeModel,
+        fallbackModels,
+        job!.job_id,
         prompt,
-        image_url!,
+        inputMode,
+        image_url,
         finalSettings
       )
+      const servingModel = providerResult.model
 
       p5log('[P5][GenerateVideo][Provider][OK]', {
+        provider: servingModel.provider,
         provider_job_id: providerResult.request_id,
+        attempts: providerResult.attempts,
         ms: tProvider(),
         requestId
       })
-      console.log('[STEP 13] FalAI job submitted successfully, provider_job_id:', providerResult.request_id)
+      console.log('[STEP 13] Provider job submitted successfully, provider_job_id:', providerResult.request_id)
 
       // 14. Update job with provider_job_id
       // STEP G: Job update (pending -> processing)
@@ -504,18 +612,53 @@ serve(async (req) => {
         requestId
       })
       console.log('[STEP 14] Updating job with provider_job_id...')
-      await updateVideoJob(supabaseClient, job!.job_id, {
+      const { updated, error: updateError } = await updatePendingVideoJob(supabaseClient, job!.job_id, {
         provider_job_id: providerResult.request_id,
+        provider: servingModel.provider,
+        provider_model_id: servingModel.provider_model_id,
+        provider_endpoint_paths: servingModel.endpoint_paths,
+        executed_model_id: servingModel.id,
         status: 'processing'
       })
+
+      // Nothing tracks the provider job unless it's recorded - stop it
+      if (updateError || !updated) {
+        const providerCancelled = await cancelSubmittedJob(servingModel, providerResult.request_id, job!.job_id)
+
+        if (updateError) {
+          throw new Error(`Failed to record provider job: ${updateError.message}`)
+        }
+
+        // Cancelled (and refunded) by cancel-video-job while the submission was in flight
+        const { data: currentStatus } = await fetchVideoJobStatus(supabaseClient, job!.job_id)
+        logEvent('generate_video_job_left_pending', {
+          user_id,
+          job_id: job!.job_id,
+          status: currentStatus,
+          provider: servingModel.provider,
+          provider_job_id: providerResult.request_id,
+          provider_cancelled: providerCancelled
+        }, 'warn')
+
+        return new Response(
+          JSON.stringify({
+            error: 'Job was cancelled before it started',
+            job_id: job!.job_id,
+            status: currentStatus
+          }),
+          { status: 409, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
       p5log('[P5][GenerateVideo][JobUpdate][OK]', { job_id: job!.job_id, requestId })
       console.log('[STEP 14] Job updated to processing status')
 
-      logEvent('falai_job_submitted', {
+      logEvent('provider_job_submitted', {
         user_id,
+        provider: servingModel.provider,
         job_id: job!.job_id,
         provider_job_id: providerResult.request_id,
-        model_id: activeModel.provider_model_id,
+        model_id: servingModel.provider_model_id,
+        failover: servingModel.id !== activeModel.id,
         settings: finalSettings
       })
     } catch (providerError) {
@@ -524,7 +667,7 @@ serve(async (req) => {
         ms: tProvider(),
         requestId
       })
-      console.log('[STEP 13] ERROR: FalAI API call failed:', providerError.message)
+      console.log('[STEP 13] ERROR: Provider API call failed:', providerError.message)
 
       // STEP G: Job update (pending -> failed)
       p5log('[P5][GenerateVideo][JobUpdate][CALL]', {
@@ -532,23 +675,47 @@ serve(async (req) => {
         status: 'pending->failed',
         requestId
       })
-      // Update job status to failed
-      await updateVideoJob(supabaseClient, job!.job_id, {
+      // Update job status to failed (unless it was cancelled meanwhile)
+      const { error: failError } = await updatePendingVideoJob(supabaseClient, job!.job_id, {
         status: 'failed',
         error_message: providerError.message
       })
+      if (failError) {
+        logEvent('generate_video_job_update_error', {
+          job_id: job!.job_id,
+          error: failError.message
+        }, 'error')
+      }
 
-      // Refund credits since provider failed after successful atomic operation
-      p5log('[P5][GenerateVideo][Refund][CALL]', {
-        user_id,
-        amount: costResult.creditsToDeduct,
-        requestId
-      })
-      const refundResult = await refundCredits(supabaseClient, user_id, costResult.creditsToDeduct)
-      p5log('[P5][GenerateVideo][Refund][RESULT]', {
-        error: refundResult.error ? truncate(refundResult.error.message, 120) : null,
+      // Release the credit hold since every provider option failed after successful atomic operation
+      p5log('[P5][GenerateVideo][Release][CALL]', {
+        job_id: job!.job_id,
+        amount: creditsCharged,
         requestId
       })
+      try {
+        const releaseResult = await releaseCreditReservation(supabaseClient, job!.job_id, 'provider_submit_failed')
+        p5log('[P5][GenerateVideo][Release][RESULT]', {
+          changed: releaseResult.changed,
+          requestId
+        })
+      } catch (releaseError) {
+        // Hold expires on its own (release_expired_credit_reservations)
+        p5log('[P5][GenerateVideo][Release][ERR]', {
+          msg: truncate(releaseError.message, 120),
+          requestId
+        })
+      }
+
+      // Circuits opened between the pre-flight check and submission
+      if (providerError instanceof ProviderUnavailableError) {
+        logEvent('generate_video_provider_unavailable', {
+          user_id,
+          job_id: job!.job_id,
+          retry_after_seconds: providerError.retryAfterSeconds
+        }, 'warn')
+        return providerUnavailableResponse(providerError.retryAfterSeconds)
+      }
 
       logEvent('generate_video_provider_error', {
         user_id,
@@ -570,7 +737,9 @@ serve(async (req) => {
     const responseBody = {
       job_id: job!.job_id,
       status: 'pending',
-      credits_used: costResult.creditsToDeduct
+      credits_used: creditsCharged,
+      model_id: activeModel.id,
+      input_mode: inputMode
     }
     console.log('[STEP 15] Note: Idempotency record was stored atomically in STEP 11')
 
@@ -579,8 +748,10 @@ serve(async (req) => {
       job_id: job!.job_id,
       model_id: activeModel.id,
       provider: activeModel.provider,
-      credits_used: costResult.creditsToDeduct,
-      pricing_type: activeModel.pricing_type,
+      input_mode: inputMode,
+      credits_used: creditsCharged,
+      cost_in_dollars: costResult.costInDollars,
+      pricing_type: costResult.pricingType,
       duration: costResult.duration
     })
 
@@ -598,6 +769,11 @@ serve(async (req) => {
     )
 
   } catch (error) {
+    // Auth failures are thrown as ready-made 401/403 responses
+    if (error instanceof Response) {
+      return error
+    }
+
     p5log('[P5][GenerateVideo][ERR]', {
       step: 'uncaught_exception',
       msg: truncate(error.message, 120),
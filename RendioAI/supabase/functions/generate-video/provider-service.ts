@@ -1,27 +1,240 @@
 /**
  * Provider Service
- * Handles AI provider API integration (FalAI, etc.)
+ * Hands jobs to the model's VideoProvider (see _shared/video-providers.ts)
+ *
+ * Failover: when a submission fails on the provider's side (5xx, timeout,
+ * quota), the model's fallback models are tried in order. Request errors
+ * (bad input, unsupported settings) fail immediately - another provider
+ * would reject them too.
+ *
+ * Circuit breaker: models whose provider circuit is open are skipped (see
+ * _shared/provider-circuit.ts), and every attempt's outcome is recorded.
  */
 
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
 import type { ActiveModel, FinalSettings } from './types.ts'
-import { submitFalAIJob } from '../_shared/falai-adapter.ts'
+import {
+  getVideoProvider,
+  findVideoProvider,
+  validateProviderSettings,
+  isProviderSideError,
+  type InputMode
+} from '../_shared/video-providers.ts'
+import { validateSettingsOptions } from '../_shared/video-pricing.ts'
+import { logEvent } from '../_shared/logger.ts'
+import {
+  checkProviderCircuit,
+  recordProviderResult,
+  ProviderUnavailableError,
+  COOLDOWN_SECONDS,
+  type CircuitCheck
+} from '../_shared/provider-circuit.ts'
+
+export interface ProviderSubmission {
+  request_id: string
+  model: ActiveModel // Model that accepted the job
+  attempts: number
+}
 
 export async function submitProviderJob(
   activeModel: ActiveModel,
   prompt: string,
-  image_url: string,
+  inputMode: InputMode,
+  image_url: string | undefined,
   finalSettings: FinalSettings
 ): Promise<{ request_id: string }> {
-  if (activeModel.provider === 'fal') {
-    const result = await submitFalAIJob(
-      activeModel.provider_model_id,
-      prompt,
-      image_url,
-      finalSettings
-    )
-    return { request_id: result.request_id }
-  } else {
-    throw new Error(`Provider ${activeModel.provider} not yet implemented`)
+  const provider = getVideoProvider(activeModel.provider)
+  return await provider.submit({
+    modelId: activeModel.provider_model_id,
+    prompt,
+    inputMode,
+    imageUrl: inputMode === 'image_to_video' ? image_url : undefined,
+    settings: finalSettings,
+    endpointPaths: activeModel.endpoint_paths
+  })
+}
+
+/**
+ * Best-effort cancel of a job we submitted but can no longer track
+ * (e.g. the user cancelled it while the submission was in flight)
+ *
+ * @returns true when the provider stopped it
+ */
+export async function cancelSubmittedJob(
+  model: ActiveModel,
+  request_id: string,
+  job_id: string
+): Promise<boolean> {
+  const provider = getVideoProvider(model.provider)
+  if (!provider.describe().supports_cancel) {
+    return false
+  }
+
+  try {
+    return await provider.cancel(model.provider_model_id, request_id, model.endpoint_paths)
+  } catch (error) {
+    logEvent('provider_cancel_failed', {
+      job_id,
+      provider: model.provider,
+      provider_job_id: request_id,
+      error: error instanceof Error ? error.message : String(error)
+    }, 'warn')
+    return false
+  }
+}
+
+/**
+ * Whether a fallback model can run the job exactly as requested
+ */
+export function canServeRequest(
+  model: ActiveModel,
+  inputMode: InputMode,
+  finalSettings: FinalSettings
+): boolean {
+  const provider = findVideoProvider(model.provider)
+  if (!provider) {
+    return false
+  }
+  if (!(model.input_modes ?? ['image_to_video']).includes(inputMode)) {
+    return false
+  }
+  if (!provider.describe().input_modes.includes(inputMode)) {
+    return false
+  }
+  const requiredFields = model.required_fields || {}
+  if (requiredFields.requires_settings && validateSettingsOptions(requiredFields.settings || {}, finalSettings)) {
+    return false
+  }
+  return validateProviderSettings(provider, finalSettings) === null
+}
+
+/**
+ * Requested model first, then the fallbacks that can run the job as requested
+ */
+function getCandidates(
+  activeModel: ActiveModel,
+  fallbackModels: ActiveModel[],
+  inputMode: InputMode,
+  finalSettings: FinalSettings
+): ActiveModel[] {
+  return [
+    activeModel,
+    ...fallbackModels.filter((model) => canServeRequest(model, inputMode, finalSettings))
+  ]
+}
+
+/**
+ * Pre-flight check before credits are held: is any candidate's circuit closed?
+ * Doesn't take the half-open probe - submitWithFailover does that.
+ *
+ * @returns allowed: false with the shortest retry_after_seconds when every circuit is open
+ */
+export async function checkProviderAvailability(
+  supabaseClient: SupabaseClient,
+  activeModel: ActiveModel,
+  fallbackModels: ActiveModel[],
+  inputMode: InputMode,
+  finalSettings: FinalSettings
+): Promise<CircuitCheck> {
+  const providers = [...new Set(
+    getCandidates(activeModel, fallbackModels, inputMode, finalSettings).map((model) => model.provider)
+  )]
+
+  let retryAfterSeconds = Infinity
+  for (const provider of providers) {
+    const check = await checkProviderCircuit(supabaseClient, provider, false)
+    if (check.allowed) {
+      return check
+    }
+    retryAfterSeconds = Math.min(retryAfterSeconds, check.retry_after_seconds ?? Infinity)
+  }
+
+  return {
+    allowed: false,
+    state: 'open',
+    retry_after_seconds: Number.isFinite(retryAfterSeconds) ? retryAfterSeconds : COOLDOWN_SECONDS
   }
 }
 
+/**
+ * Submit to the requested model, then to each fallback on provider-side errors
+ *
+ * @throws ProviderUnavailableError when every candidate's circuit is open
+ * @throws The last submission error when every option failed
+ */
+export async function submitWithFailover(
+  supabaseClient: SupabaseClient,
+  activeModel: ActiveModel,
+  fallbackModels: ActiveModel[],
+  job_id: string,
+  prompt: string,
+  inputMode: InputMode,
+  image_url: string | undefined,
+  finalSettings: FinalSettings
+): Promise<ProviderSubmission> {
+  const candidates = getCandidates(activeModel, fallbackModels, inputMode, finalSettings)
+
+  let lastError: unknown
+  let attempts = 0
+  let retryAfterSeconds = Infinity
+  for (let index = 0; index < candidates.length; index++) {
+    const model = candidates[index]
+
+    const circuit = await checkProviderCircuit(supabaseClient, model.provider)
+    if (!circuit.allowed) {
+      retryAfterSeconds = Math.min(retryAfterSeconds, circuit.retry_after_seconds ?? Infinity)
+      logEvent('provider_circuit_skipped', {
+        job_id,
+        model_id: model.id,
+        provider: model.provider,
+        state: circuit.state,
+        retry_after_seconds: circuit.retry_after_seconds
+      }, 'warn')
+      continue
+    }
+
+    attempts++
+    try {
+      const result = await submitProviderJob(model, prompt, inputMode, image_url, finalSettings)
+      await recordProviderResult(supabaseClient, model.provider)
+      if (index > 0) {
+        logEvent('provider_failover_succeeded', {
+          job_id,
+          requested_model_id: activeModel.id,
+          model_id: model.id,
+          provider: model.provider,
+          attempts
+        }, 'warn')
+      }
+      return { request_id: result.request_id, model, attempts }
+    } catch (error) {
+      lastError = error
+      await recordProviderResult(supabaseClient, model.provider, error)
+
+      const hasNext = index < candidates.length - 1
+      const failover = hasNext && isProviderSideError(error)
+
+      logEvent('provider_submit_failed', {
+        job_id,
+        model_id: model.id,
+        provider: model.provider,
+        error: error instanceof Error ? error.message : String(error),
+        failover
+      }, failover ? 'warn' : 'error')
+
+      if (!failover) {
+        break
+      }
+    }
+  }
+
+  if (attempts === 0) {
+    throw new ProviderUnavailableError(
+      'Video generation is temporarily unavailable',
+      Number.isFinite(retryAfterSeconds) ? retryAfterSeconds : COOLDOWN_SECONDS
+    )
+  }
+
+  throw lastError
+}
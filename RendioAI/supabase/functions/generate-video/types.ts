@@ -2,36 +2,30 @@
  * Types and Interfaces for Generate Video Endpoint
  */
 
+import type { PricedModel, FinalSettings, SettingsInput } from '../_shared/video-pricing.ts'
+import type { InputMode, ProviderEndpointPaths } from '../_shared/video-providers.ts'
+
+export type { FinalSettings }
+
 export interface GenerateVideoRequest {
-  user_id: string
+  user_id?: string // Legacy - identity comes from the access token; must match if sent
   theme_id: string
+  model_id?: string // Defaults to the active (default) model
   prompt: string
+  input_mode?: InputMode // Defaults to image_to_video when image_url is sent, text_to_video otherwise
   image_url?: string
-  settings?: {
-    resolution?: 'auto' | '720p'
-    aspect_ratio?: 'auto' | '9:16' | '16:9'
-    duration?: 4 | 8 | 12
-  }
+  settings?: SettingsInput
 }
 
-export interface ActiveModel {
+export interface ActiveModel extends PricedModel {
   id: string
-  cost_per_generation: number
   provider: string
   provider_model_id: string
   is_available: boolean
-  pricing_type: 'per_second' | 'per_video' | null
-  base_price: number | null
-  required_fields: {
-    requires_prompt?: boolean
-    requires_image?: boolean
-    requires_settings?: boolean
-    settings?: {
-      resolution?: { default?: string; options?: string[] }
-      aspect_ratio?: { default?: string; options?: string[] }
-      duration?: { default?: number; options?: number[] }
-    }
-  } | null
+  input_modes: InputMode[] | null
+  min_tier: string | null
+  fallback_model_ids: string[] | null // Tried in order when the provider fails a submission
+  endpoint_paths: ProviderEndpointPaths | null // Provider URL path templates (FalAI)
 }
 
 export interface Theme {
@@ -42,12 +36,6 @@ export interface Theme {
   default_settings: Record<string, any> | null
 }
 
-export interface FinalSettings {
-  resolution: 'auto' | '720p'
-  aspect_ratio: 'auto' | '9:16' | '16:9'
-  duration: 4 | 8 | 12
-}
-
 export interface VideoJob {
   job_id: string
   user_id: string
@@ -3,6 +3,13 @@
  */
 
 import type { GenerateVideoRequest, ActiveModel } from './types.ts'
+import { validateSettingsOptions } from '../_shared/video-pricing.ts'
+import {
+  findVideoProvider,
+  validateProviderSettings,
+  INPUT_MODES,
+  type InputMode
+} from '../_shared/video-providers.ts'
 
 export function validateHttpMethod(method: string): Response | null {
   if (method !== 'POST') {
@@ -33,11 +40,11 @@ export function validateIdempotencyKey(key: string | null): Response | null {
 export function validateRequiredFields(
   body: GenerateVideoRequest
 ): Response | null {
-  const { user_id, theme_id, prompt } = body
+  const { theme_id, prompt } = body
   
-  if (!user_id || !theme_id || !prompt) {
+  if (!theme_id || !prompt) {
     return new Response(
-      JSON.stringify({ error: 'Missing required fields: user_id, theme_id, prompt' }),
+      JSON.stringify({ error: 'Missing required fields: theme_id, prompt' }),
       { 
         status: 400, 
         headers: { 'Content-Type': 'application/json' } 
@@ -47,11 +54,59 @@ export function validateRequiredFields(
   return null
 }
 
+/**
+ * Decide which input mode a request uses
+ * Explicit input_mode wins; otherwise an image means image_to_video,
+ * no image means text_to_video (if the model supports it)
+ */
+export function resolveInputMode(
+  activeModel: ActiveModel,
+  requestedMode: string | undefined,
+  image_url: string | undefined
+): { mode: InputMode } | { error: Response } {
+  const supportedModes = activeModel.input_modes?.length ? activeModel.input_modes : ['image_to_video' as InputMode]
+
+  if (requestedMode !== undefined) {
+    if (!INPUT_MODES.includes(requestedMode as InputMode) || !supportedModes.includes(requestedMode as InputMode)) {
+      return {
+        error: new Response(
+          JSON.stringify({ error: `Invalid input_mode. This model supports: ${supportedModes.join(', ')}` }),
+          { 
+            status: 400, 
+            headers: { 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+    }
+
+    if (requestedMode === 'text_to_video' && image_url) {
+      return {
+        error: new Response(
+          JSON.stringify({ error: 'image_url is not used for text_to_video' }),
+          { 
+            status: 400, 
+            headers: { 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+    }
+
+    return { mode: requestedMode as InputMode }
+  }
+
+  if (!image_url && supportedModes.includes('text_to_video')) {
+    return { mode: 'text_to_video' }
+  }
+
+  return { mode: 'image_to_video' }
+}
+
 export function validateModelRequirements(
   activeModel: ActiveModel,
   prompt: string,
   image_url: string | undefined,
-  settings: GenerateVideoRequest['settings']
+  settings: GenerateVideoRequest['settings'],
+  inputMode: InputMode = 'image_to_video'
 ): Response | null {
   const requiredFields = activeModel.required_fields || {}
 
@@ -66,8 +121,8 @@ export function validateModelRequirements(
     )
   }
 
-  // Validate image_url
-  if (requiredFields.requires_image && !image_url) {
+  // Validate image_url (text_to_video never needs one)
+  if (inputMode === 'image_to_video' && !image_url) {
     return new Response(
       JSON.stringify({ error: 'image_url is required for this model' }),
       { 
@@ -79,54 +134,32 @@ export function validateModelRequirements(
 
   // Validate settings
   if (requiredFields.requires_settings && settings) {
-    const settingsConfig = requiredFields.settings || {}
-    
-    if (settings.duration && settingsConfig.duration) {
-      const allowedDurations = settingsConfig.duration.options || []
-      if (!allowedDurations.includes(settings.duration)) {
-        return new Response(
-          JSON.stringify({ 
-            error: `Invalid duration. Allowed values: ${allowedDurations.join(', ')}` 
-          }),
-          { 
-            status: 400, 
-            headers: { 'Content-Type': 'application/json' } 
-          }
-        )
-      }
-    }
-    
-    if (settings.aspect_ratio && settingsConfig.aspect_ratio) {
-      const allowedAspectRatios = settingsConfig.aspect_ratio.options || []
-      if (!allowedAspectRatios.includes(settings.aspect_ratio)) {
-        return new Response(
-          JSON.stringify({ 
-            error: `Invalid aspect_ratio. Allowed values: ${allowedAspectRatios.join(', ')}` 
-          }),
-          { 
-            status: 400, 
-            headers: { 'Content-Type': 'application/json' } 
-          }
-        )
-      }
+    const settingsError = validateSettingsOptions(requiredFields.settings || {}, settings)
+    if (settingsError) {
+      return new Response(
+        JSON.stringify({ error: settingsError }),
+        { 
+          status: 400, 
+          headers: { 'Content-Type': 'application/json' } 
+        }
+      )
     }
-    
-    if (settings.resolution && settingsConfig.resolution) {
-      const allowedResolutions = settingsConfig.resolution.options || []
-      if (!allowedResolutions.includes(settings.resolution)) {
-        return new Response(
-          JSON.stringify({ 
-            error: `Invalid resolution. Allowed values: ${allowedResolutions.join(', ')}` 
-          }),
-          { 
-            status: 400, 
-            headers: { 'Content-Type': 'application/json' } 
-          }
-        )
-      }
+  }
+
+  // Validate settings against what the provider can render
+  const provider = findVideoProvider(activeModel.provider)
+  if (provider && settings) {
+    const providerError = validateProviderSettings(provider, settings)
+    if (providerError) {
+      return new Response(
+        JSON.stringify({ error: providerError }),
+        { 
+          status: 400, 
+          headers: { 'Content-Type': 'application/json' } 
+        }
+      )
     }
   }
 
   return null
 }
-
@@ -14,19 +14,44 @@
  *       "id": "uuid",
  *       "name": "string",
  *       "category": "string",
+ *       "description": "string|null",
  *       "thumbnail_url": "string|null",
- *       "is_featured": true
+ *       "is_featured": true,
+ *       "is_default": true,
+ *       "min_tier": "free" | "premium",
+ *       "has_audio": false,
+ *       "input_modes": ["image_to_video", "text_to_video"],
+ *       "requires_prompt": true,
+ *       "requires_image": false,
+ *       "settings": {
+ *         "resolution": { "default": "auto", "options": ["auto", "720p"] },
+ *         "aspect_ratio": { "default": "auto", "options": ["auto", "9:16", "16:9"] },
+ *         "duration": { "default": 8, "options": [4, 8, 12] }
+ *       },
+ *       "pricing": {
+ *         "pricing_type": "per_second" | "per_video" | "per_generation",
+ *         "base_price": 0.1,
+ *         "pricing_rule_id": "uuid|null",
+ *         "default_credits": 8,
+ *         "default_cost_in_dollars": 0.8
+ *       }
  *     }
  *   ]
  * }
  * 
  * Note: Returns only available models, ordered by featured status then name.
- * This replaces direct REST API calls for better consistency and future enhancements.
+ * is_default marks the model generate-video uses when no model_id is sent.
+ * default_credits is the price at default settings before tier discounts;
+ * quote-video gives the exact price for a user and settings.
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { logEvent } from '../_shared/logger.ts'
+import { calculateCost, resolveFinalSettings, type PricedModel } from '../_shared/video-pricing.ts'
+import { getPricingRules } from '../_shared/pricing-rules.ts'
+
+const MODEL_FIELDS = 'id, name, category, description, thumbnail_url, is_featured, is_active, min_tier, has_audio, input_modes, required_fields, pricing_type, base_price, cost_per_generation'
 
 // Phase 5 Debug Helpers (toggle via env DEBUG_PHASE5=true)
 const DEBUG_PHASE5 = Deno.env.get('DEBUG_PHASE5') === 'true'
@@ -65,7 +90,7 @@ serve(async (req) => {
     // Order: Featured first, then alphabetical by name
     const { data: models, error } = await supabaseClient
       .from('models')
-      .select('id, name, category, thumbnail_url, is_featured')
+      .select(MODEL_FIELDS)
       .eq('is_available', true)
       .order('is_featured', { ascending: false })
       .order('name', { ascending: true })
@@ -81,6 +106,38 @@ serve(async (req) => {
     // STEP B: DB result
     p5log('[P5][GetModels][DB][OK]', { count: models?.length || 0, requestId })
 
+    // 3a. Picker details: input modes, settings schema, price at default settings
+    const pricingRules = await getPricingRules(supabaseClient, (models || []).map((model) => model.id))
+    const modelList = (models || []).map((model) => {
+      const pricedModel = model as PricedModel
+      const requiredFields = pricedModel.required_fields || {}
+      const rule = pricingRules.get(model.id) ?? null
+      const cost = calculateCost(pricedModel, resolveFinalSettings(pricedModel, undefined), requiredFields, { rule })
+
+      return {
+        id: model.id,
+        name: model.name,
+        category: model.category,
+        description: model.description,
+        thumbnail_url: model.thumbnail_url,
+        is_featured: model.is_featured,
+        is_default: model.is_active === true,
+        min_tier: model.min_tier ?? 'free',
+        has_audio: model.has_audio ?? false,
+        input_modes: model.input_modes ?? ['image_to_video'],
+        requires_prompt: requiredFields.requires_prompt ?? true,
+        requires_image: requiredFields.requires_image ?? false,
+        settings: requiredFields.settings ?? {},
+        pricing: {
+          pricing_type: cost.pricingType,
+          base_price: pricedModel.base_price,
+          pricing_rule_id: cost.pricingRuleId,
+          default_credits: cost.creditsToDeduct,
+          default_cost_in_dollars: cost.costInDollars
+        }
+      }
+    })
+
     logEvent('get_models_success', {
       model_count: models?.length || 0
     }, 'info')
@@ -88,7 +145,7 @@ serve(async (req) => {
     // 4. Generate ETag from models content
     // STEP C: ETag build
     p5log('[P5][GetModels][ETag][BUILD]', { requestId })
-    const content = JSON.stringify(models || [])
+    const content = JSON.stringify(modelList)
     const encoder = new TextEncoder()
     const data = encoder.encode(content)
     const hashBuffer = await crypto.subtle.digest('MD5', data)
@@ -119,7 +176,7 @@ serve(async (req) => {
     p5log('[P5][GetModels][ETag][MISS]', { etag, size: content.length, requestId })
     p5log('[P5][GetModels][EXIT]', { status: 200, totalMs: tAll(), requestId })
     return new Response(
-      JSON.stringify({ models: models || [] }),
+      JSON.stringify({ models: modelList }),
       {
         headers: {
           'Content-Type': 'application/json',
@@ -0,0 +1,146 @@
+/**
+ * Get Products Endpoint
+ *
+ * Purpose: List the in-app purchase products the store screen should show
+ *
+ * Endpoint: GET /get-products
+ *
+ * Query Parameters:
+ * - platform (optional): "ios" (default) | "android"
+ *
+ * Response:
+ * {
+ *   "products": [
+ *     {
+ *       "product_id": "com.rendio.credits.50",
+ *       "name": "Popular Pack",
+ *       "description": "50 credits",
+ *       "product_type": "consumable" | "auto_renewable_subscription",
+ *       "credits": 50,
+ *       "bonus_credits": 5,
+ *       "total_credits": 55,
+ *       "tier": null,
+ *       "is_featured": false,
+ *       "display_order": 2,
+ *       "valid_until": "2025-12-31T00:00:00Z" | null
+ *     }
+ *   ]
+ * }
+ *
+ * Note: Only active products inside their valid_from/valid_until window are returned,
+ * ordered by display_order. Prices come from StoreKit on the device, not from here.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { logEvent } from '../_shared/logger.ts'
+import { getProductCatalog, isProductAvailable } from '../_shared/product-catalog.ts'
+
+const SUPPORTED_PLATFORMS = ['ios', 'android']
+
+serve(async (req) => {
+  try {
+    // 1. Validate HTTP method
+    if (req.method !== 'GET') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          status: 405,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // 2. Parse query parameters
+    const url = new URL(req.url)
+    const platform = url.searchParams.get('platform') ?? 'ios'
+
+    if (!SUPPORTED_PLATFORMS.includes(platform)) {
+      return new Response(
+        JSON.stringify({ error: `platform must be one of: ${SUPPORTED_PLATFORMS.join(', ')}` }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // 3. Initialize Supabase client with service role key
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    logEvent('get_products_request', { platform }, 'info')
+
+    // 4. Load catalog (cached) and keep what's on sale right now
+    const catalog = await getProductCatalog(supabaseClient)
+    const now = new Date()
+
+    const products = Array.from(catalog.values())
+      .filter((product) => isProductAvailable(product, platform, now))
+      .sort((a, b) => a.display_order - b.display_order)
+      .map((product) => ({
+        product_id: product.product_id,
+        name: product.name,
+        description: product.description,
+        product_type: product.product_type,
+        credits: product.credits,
+        bonus_credits: product.bonus_credits,
+        total_credits: product.credits + product.bonus_credits,
+        tier: product.tier,
+        is_featured: product.is_featured,
+        display_order: product.display_order,
+        valid_until: product.valid_until
+      }))
+
+    logEvent('get_products_success', {
+      platform,
+      product_count: products.length
+    }, 'info')
+
+    // 5. ETag for cache validation
+    const content = JSON.stringify(products)
+    const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content))
+    const hashHex = Array.from(new Uint8Array(hashBuffer))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('')
+    const etag = `"${hashHex}"`
+
+    if (req.headers.get('If-None-Match') === etag) {
+      return new Response(null, {
+        status: 304,
+        headers: {
+          'ETag': etag,
+          'Cache-Control': 'public, max-age=300'
+        }
+      })
+    }
+
+    // 6. Return products (short max-age: promotions start/end on a schedule)
+    return new Response(
+      JSON.stringify({ products }),
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'ETag': etag,
+          'Cache-Control': 'public, max-age=300'
+        }
+      }
+    )
+
+  } catch (error) {
+    logEvent('get_products_unexpected_error', {
+      error: error.message,
+      stack: error.stack
+    }, 'error')
+
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
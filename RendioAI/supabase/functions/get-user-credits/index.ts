@@ -3,16 +3,25 @@
  * 
  * Purpose: Retrieve user's current credit balance
  * 
- * Endpoint: GET /get-user-credits?user_id={uuid}
+ * Endpoint: GET /get-user-credits
+ * 
+ * Headers:
+ * - Authorization (required): Bearer <Supabase access token>
  * 
  * Query Parameters:
- * - user_id (required): UUID of the user
+ * - user_id (optional, legacy): Must match the authenticated user if provided
  * 
  * Response:
  * {
- *   "credits_remaining": 10
+ *   "credits_remaining": 10,
+ *   "credits_available": 10,
+ *   "credits_held": 4
  * }
  * 
+ * credits_available (= credits_remaining) is what the user can spend now;
+ * credits_held is reserved by in-flight generations (captured on completion,
+ * returned on failure).
+ * 
  * Note: This is a simple read-only endpoint for checking credit balance.
  * For full user profile, use get-user-profile endpoint (Phase 3).
  */
@@ -20,6 +29,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { logEvent } from '../_shared/logger.ts'
+import { requireAuth } from '../_shared/auth-helper.ts'
 
 serve(async (req) => {
   try {
@@ -36,18 +46,7 @@ serve(async (req) => {
 
     // Parse query parameters
     const url = new URL(req.url)
-    const user_id = url.searchParams.get('user_id')
-
-    // Validate input
-    if (!user_id) {
-      return new Response(
-        JSON.stringify({ error: 'user_id query parameter is required' }),
-        { 
-          status: 400, 
-          headers: { 'Content-Type': 'application/json' } 
-        }
-      )
-    }
+    const requestedUserId = url.searchParams.get('user_id')
 
     // Initialize Supabase client with service role key
     const supabaseClient = createClient(
@@ -55,12 +54,15 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
+    // Resolve caller from access token (never trust user_id from the request)
+    const { user_id } = await requireAuth(req, supabaseClient, requestedUserId)
+
     logEvent('get_user_credits_request', { user_id }, 'info')
 
     // Query user's credit balance
     const { data: user, error } = await supabaseClient
       .from('users')
-      .select('credits_remaining')
+      .select('credits_remaining, credits_held')
       .eq('id', user_id)
       .single()
 
@@ -86,13 +88,16 @@ serve(async (req) => {
 
     logEvent('get_user_credits_success', { 
       user_id,
-      credits_remaining: user.credits_remaining 
+      credits_remaining: user.credits_remaining,
+      credits_held: user.credits_held 
     }, 'info')
 
     // Return credit balance
     return new Response(
       JSON.stringify({ 
-        credits_remaining: user.credits_remaining 
+        credits_remaining: user.credits_remaining,
+        credits_available: user.credits_remaining,
+        credits_held: user.credits_held 
       }),
       { 
         headers: { 'Content-Type': 'application/json' } 
@@ -100,6 +105,11 @@ serve(async (req) => {
     )
 
   } catch (error) {
+    // Auth failures are thrown as ready-made 401/403 responses
+    if (error instanceof Response) {
+      return error
+    }
+
     logEvent('get_user_credits_unexpected_error', { 
       error: error.message,
       stack: error.stack 
@@ -3,10 +3,13 @@
  * 
  * Purpose: Retrieve full user profile data
  * 
- * Endpoint: GET /get-user-profile?user_id={uuid}
+ * Endpoint: GET /get-user-profile
+ * 
+ * Headers:
+ * - Authorization (required): Bearer <Supabase access token>
  * 
  * Query Parameters:
- * - user_id (required): UUID of the user
+ * - user_id (optional, legacy): Must match the authenticated user if provided
  * 
  * Response:
  * {
@@ -22,7 +25,17 @@
  *   "language": "en",
  *   "theme_preference": "system",
  *   "created_at": "2025-01-XXT00:00:00Z",
- *   "updated_at": "2025-01-XXT00:00:00Z"
+ *   "updated_at": "2025-01-XXT00:00:00Z",
+ *   "subscription": {
+ *     "product_id": "com.rendio.premium.monthly",
+ *     "tier": "premium",
+ *     "status": "active" | "grace_period" | "billing_retry" | "expired" | "revoked",
+ *     "expires_at": "2025-02-XXT00:00:00Z",
+ *     "grace_period_expires_at": null,
+ *     "auto_renew_status": true,
+ *     "auto_renew_product_id": "com.rendio.premium.monthly",
+ *     "monthly_credits": 100
+ *   } | null
  * }
  * 
  * Note: Returns all user fields. iOS handles snake_case to camelCase conversion.
@@ -31,6 +44,8 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { logEvent } from '../_shared/logger.ts'
+import { requireAuth } from '../_shared/auth-helper.ts'
+import { getSubscriptionForProduct } from '../_shared/apple-iap-verifier.ts'
 
 serve(async (req) => {
   try {
@@ -47,26 +62,17 @@ serve(async (req) => {
 
     // 2. Parse query parameters
     const url = new URL(req.url)
-    const user_id = url.searchParams.get('user_id')
+    const requestedUserId = url.searchParams.get('user_id')
 
-    // 3. Validate required parameters
-    if (!user_id) {
-      logEvent('get_user_profile_missing_user_id', {}, 'warn')
-      return new Response(
-        JSON.stringify({ error: 'user_id query parameter is required' }),
-        { 
-          status: 400, 
-          headers: { 'Content-Type': 'application/json' } 
-        }
-      )
-    }
-
-    // 4. Initialize Supabase client with service role key
+    // 3. Initialize Supabase client with service role key
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
+    // 4. Resolve caller from access token (never trust user_id from the request)
+    const { user_id } = await requireAuth(req, supabaseClient, requestedUserId)
+
     logEvent('get_user_profile_request', { user_id }, 'info')
 
     // 5. Query user profile
@@ -96,21 +102,56 @@ serve(async (req) => {
       throw error
     }
 
+    // 6. Latest subscription (if any)
+    const { data: subscription, error: subscriptionError } = await supabaseClient
+      .from('subscriptions')
+      .select('product_id, tier, status, expires_at, grace_period_expires_at, auto_renew_status, auto_renew_product_id')
+      .eq('user_id', user_id)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (subscriptionError) {
+      logEvent('get_user_profile_subscription_error', { 
+        error: subscriptionError.message,
+        user_id 
+      }, 'error')
+      throw subscriptionError
+    }
+
     logEvent('get_user_profile_success', { 
       user_id,
       is_guest: user.is_guest,
-      credits_remaining: user.credits_remaining 
+      credits_remaining: user.credits_remaining,
+      subscription_status: subscription?.status ?? null
     }, 'info')
 
-    // 6. Return user profile (no transformation needed - matches iOS User model)
+    const subscriptionProduct = subscription
+      ? await getSubscriptionForProduct(subscription.product_id)
+      : null
+
+    // 7. Return user profile (matches iOS User model, plus subscription state)
     return new Response(
-      JSON.stringify(user),
+      JSON.stringify({
+        ...user,
+        subscription: subscription
+          ? {
+              ...subscription,
+              monthly_credits: subscriptionProduct?.monthly_credits ?? null
+            }
+          : null
+      }),
       { 
         headers: { 'Content-Type': 'application/json' } 
       }
     )
 
   } catch (error) {
+    // Auth failures are thrown as ready-made 401/403 responses
+    if (error instanceof Response) {
+      return error
+    }
+
     logEvent('get_user_profile_unexpected_error', { 
       error: error.message,
       stack: error.stack 
@@ -3,10 +3,13 @@
  * 
  * Purpose: Retrieve user's video generation history with pagination
  * 
- * Endpoint: GET /get-video-jobs?user_id={uuid}&limit={number}&offset={number}
+ * Endpoint: GET /get-video-jobs?limit={number}&offset={number}
+ * 
+ * Headers:
+ * - Authorization (required): Bearer <Supabase access token>
  * 
  * Query Parameters:
- * - user_id (required): UUID of the user
+ * - user_id (optional, legacy): Must match the authenticated user if provided
  * - limit (optional): Number of jobs to return (default: 20)
  * - offset (optional): Number of jobs to skip (default: 0)
  * 
@@ -18,7 +21,8 @@
  *       "prompt": "string",
  *       "model_name": "string",
  *       "credits_used": 4,
- *       "status": "completed",
+ *       "credits_refunded": 0,
+ *       "status": "pending" | "processing" | "completed" | "failed" | "cancelled",
  *       "video_url": "string|null",
  *       "thumbnail_url": "string|null",
  *       "created_at": "2025-01-XXT00:00:00Z"
@@ -32,6 +36,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { logEvent } from '../_shared/logger.ts'
+import { requireAuth } from '../_shared/auth-helper.ts'
 
 serve(async (req) => {
   try {
@@ -48,23 +53,11 @@ serve(async (req) => {
 
     // 2. Parse query parameters
     const url = new URL(req.url)
-    const user_id = url.searchParams.get('user_id')
+    const requestedUserId = url.searchParams.get('user_id')
     const limitParam = url.searchParams.get('limit')
     const offsetParam = url.searchParams.get('offset')
 
-    // 3. Validate required parameters
-    if (!user_id) {
-      logEvent('get_video_jobs_missing_user_id', {}, 'warn')
-      return new Response(
-        JSON.stringify({ error: 'user_id query parameter is required' }),
-        { 
-          status: 400, 
-          headers: { 'Content-Type': 'application/json' } 
-        }
-      )
-    }
-
-    // 4. Parse pagination parameters with defaults
+    // 3. Parse pagination parameters with defaults
     const limit = limitParam ? parseInt(limitParam, 10) : 20
     const offset = offsetParam ? parseInt(offsetParam, 10) : 0
 
@@ -89,12 +82,15 @@ serve(async (req) => {
       )
     }
 
-    // 5. Initialize Supabase client with service role key
+    // 4. Initialize Supabase client with service role key
     const supabaseClient = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
+    // 5. Resolve caller from access token (never trust user_id from the request)
+    const { user_id } = await requireAuth(req, supabaseClient, requestedUserId)
+
     logEvent('get_video_jobs_request', { 
       user_id,
       limit,
@@ -111,6 +107,7 @@ serve(async (req) => {
         video_url,
         thumbnail_url,
         credits_used,
+        credits_refunded,
         created_at,
         models!inner(name)
       `)
@@ -134,6 +131,7 @@ serve(async (req) => {
         prompt: job.prompt,
         model_name: model?.name || 'Unknown Model',
         credits_used: job.credits_used,
+        credits_refunded: job.credits_refunded ?? 0,
         status: job.status,
         video_url: job.video_url,
         thumbnail_url: job.thumbnail_url,
@@ -157,6 +155,11 @@ serve(async (req) => {
     )
 
   } catch (error) {
+    // Auth failures are thrown as ready-made 401/403 responses
+    if (error instanceof Response) {
+      return error
+    }
+
     logEvent('get_video_jobs_unexpected_error', { 
       error: error.message,
       stack: error.stack 
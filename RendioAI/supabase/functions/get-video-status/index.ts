@@ -2,13 +2,17 @@
  * Get Video Status Endpoint
  * 
  * Polls video generation progress and updates job status in database.
- * Checks FalAI queue status and updates job when completed.
+ * Checks the job's provider (via the provider registry) and updates job when completed.
+ * Requires a Supabase access token; only the job owner can read a job.
+ * While the provider is working, the response also has queue_position,
+ * progress (0-100) and eta_seconds (see _shared/job-progress.ts).
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { logEvent } from '../_shared/logger.ts'
-import { checkFalAIStatus } from '../_shared/falai-adapter.ts'
+import { requireAuth } from '../_shared/auth-helper.ts'
+import { getVideoProvider } from '../_shared/video-providers.ts'
 import {
   handleFinalStatus,
   handlePendingWithoutProvider,
@@ -16,8 +20,11 @@ import {
   handleFailedStatus,
   handleInProgressStatus,
   handleProviderError,
+  getJobProvider,
+  JOB_STATUS_SELECT,
+  ACTIVE_JOB_STATUSES,
   type JobData
-} from './status-handlers.ts'
+} from '../_shared/status-handlers.ts'
 
 serve(async (req) => {
   try {
@@ -53,24 +60,13 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
+    // Resolve caller from access token
+    const caller = await requireAuth(req, supabaseClient)
+
     // 4. Get job from database
     const { data: job, error: jobError } = await supabaseClient
       .from('video_jobs')
-      .select(`
-        job_id,
-        user_id,
-        model_id,
-        prompt,
-        status,
-        video_url,
-        thumbnail_url,
-        credits_used,
-        provider_job_id,
-        error_message,
-        created_at,
-        completed_at,
-        models!inner(provider_model_id, provider, name)
-      `)
+      .select(JOB_STATUS_SELECT)
       .eq('job_id', job_id)
       .single()
 
@@ -88,10 +84,26 @@ serve(async (req) => {
       )
     }
 
+    // Verify ownership (same response as missing job so IDs can't be probed)
+    if (job.user_id !== caller.user_id) {
+      logEvent('get_video_status_unauthorized', {
+        job_id,
+        job_user_id: job.user_id,
+        request_user_id: caller.user_id
+      }, 'warn')
+      return new Response(
+        JSON.stringify({ error: 'Job not found' }),
+        { 
+          status: 404, 
+          headers: { 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
     const jobData = job as unknown as JobData
       
-    // 5. If job is already completed or failed, return current status
-    if (jobData.status === 'completed' || jobData.status === 'failed') {
+    // 5. If job is already completed, failed or cancelled, return current status
+    if (!ACTIVE_JOB_STATUSES.includes(jobData.status)) {
       const response = handleFinalStatus(jobData)
       return new Response(
         JSON.stringify(response),
@@ -101,7 +113,7 @@ serve(async (req) => {
       )
     }
 
-    // 6. If still pending/processing, check FalAI status
+    // 6. If still pending/processing, check provider status
     if (jobData.status === 'pending' || jobData.status === 'processing') {
       // No provider_job_id - return current status
       if (!jobData.provider_job_id) {
@@ -115,16 +127,19 @@ serve(async (req) => {
       }
 
       try {
-        const model = jobData.models as any
-        const providerStatus = await checkFalAIStatus(
-          model.provider_model_id,
-          jobData.provider_job_id
+        const jobProvider = getJobProvider(jobData)
+        const provider = getVideoProvider(jobProvider.provider)
+        const providerStatus = await provider.getStatus(
+          jobProvider.providerModelId,
+          jobData.provider_job_id,
+          jobProvider.endpointPaths
         )
 
-        logEvent('falai_status_check', {
+        logEvent('provider_status_check', {
           job_id,
+          provider: provider.id,
           provider_job_id: jobData.provider_job_id,
-          falai_status: providerStatus.status
+          provider_status: providerStatus.status
         })
 
         // Handle different provider statuses
@@ -196,6 +211,11 @@ serve(async (req) => {
     )
 
   } catch (error) {
+    // Auth failures are thrown as ready-made 401/403 responses
+    if (error instanceof Response) {
+      return error
+    }
+
     logEvent('get_video_status_error', { 
       error: error.message,
       stack: error.stack 
@@ -0,0 +1,149 @@
+/**
+ * Provider Health Endpoint
+ *
+ * Purpose: Current circuit breaker state of every video provider
+ *
+ * Endpoint: GET /provider-health
+ *
+ * Headers:
+ * - Authorization (required): Bearer <service role key>
+ *   (operators only - last_failure_message carries raw provider errors)
+ *
+ * Response:
+ * {
+ *   "providers": [
+ *     {
+ *       "provider": "fal",
+ *       "state": "closed" | "open" | "half_open",
+ *       "error_rate": 0.2,              // failures / requests in the current window
+ *       "window_requests": 10,
+ *       "window_failures": 2,
+ *       "consecutive_failures": 0,
+ *       "opened_at": "ISO8601|null",
+ *       "retry_after_seconds": 0,       // until an open circuit lets a probe through
+ *       "last_failure_at": "ISO8601|null",
+ *       "last_failure_message": "string|null",
+ *       "last_success_at": "ISO8601|null"
+ *     }
+ *   ],
+ *   "checked_at": "ISO8601"
+ * }
+ *
+ * Note: Lists every registered provider; providers with no recorded
+ * submissions are reported closed with empty counters.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { logEvent } from '../_shared/logger.ts'
+import { requireServiceRole } from '../_shared/auth-helper.ts'
+import { listVideoProviders } from '../_shared/video-providers.ts'
+import { COOLDOWN_SECONDS, getProviderHealth } from '../_shared/provider-circuit.ts'
+
+serve(async (req) => {
+  try {
+    // 1. Validate HTTP method
+    if (req.method !== 'GET') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          status: 405,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // 2. Operators only
+    requireServiceRole(req)
+
+    // 3. Initialize Supabase client with service role key
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // 4. Load recorded circuit state
+    const rows = await getProviderHealth(supabaseClient)
+    const rowsByProvider = new Map(rows.map((row) => [row.provider, row]))
+
+    // 5. Merge with the provider registry (providers without history are closed)
+    const now = Date.now()
+    const providerIds = [...new Set([
+      ...listVideoProviders().map((provider) => provider.id),
+      ...rows.map((row) => row.provider)
+    ])].sort()
+
+    const providers = providerIds.map((provider) => {
+      const row = rowsByProvider.get(provider)
+      if (!row) {
+        return {
+          provider,
+          state: 'closed',
+          error_rate: 0,
+          window_requests: 0,
+          window_failures: 0,
+          consecutive_failures: 0,
+          opened_at: null,
+          retry_after_seconds: 0,
+          last_failure_at: null,
+          last_failure_message: null,
+          last_success_at: null
+        }
+      }
+
+      const retryAfterSeconds = row.state === 'open' && row.opened_at
+        ? Math.max(0, Math.ceil((Date.parse(row.opened_at) + COOLDOWN_SECONDS * 1000 - now) / 1000))
+        : 0
+
+      return {
+        provider,
+        state: row.state,
+        error_rate: row.window_requests > 0
+          ? Math.round((row.window_failures / row.window_requests) * 1000) / 1000
+          : 0,
+        window_requests: row.window_requests,
+        window_failures: row.window_failures,
+        consecutive_failures: row.consecutive_failures,
+        opened_at: row.opened_at,
+        retry_after_seconds: retryAfterSeconds,
+        last_failure_at: row.last_failure_at,
+        last_failure_message: row.last_failure_message,
+        last_success_at: row.last_success_at
+      }
+    })
+
+    logEvent('provider_health_checked', {
+      open: providers.filter((provider) => provider.state !== 'closed').map((provider) => provider.provider)
+    }, 'info')
+
+    // 6. Return state
+    return new Response(
+      JSON.stringify({
+        providers,
+        checked_at: new Date(now).toISOString()
+      }),
+      {
+        headers: { 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    // Auth failures are thrown as ready-made 401/403 responses
+    if (error instanceof Response) {
+      return error
+    }
+
+    logEvent('provider_health_error', {
+      error: error.message,
+      stack: error.stack
+    }, 'error')
+
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -0,0 +1,269 @@
+/**
+ * Quote Video Endpoint
+ *
+ * Purpose: Tell the app what a generation will cost before it calls generate-video
+ *
+ * Endpoint: POST /quote-video
+ *
+ * Headers:
+ * - Authorization (required): Bearer <Supabase access token>
+ *
+ * Request Body:
+ * {
+ *   "model_id": "uuid" (optional, defaults to the active model),
+ *   "theme_id": "uuid" (optional, must be an available theme if sent),
+ *   "settings": { "resolution": "720p", "aspect_ratio": "9:16", "duration": 8 } (optional)
+ * }
+ *
+ * Response:
+ * {
+ *   "model_id": "uuid",
+ *   "credits": 8,
+ *   "cost_in_dollars": 0.8,
+ *   "pricing_type": "per_second" | "per_video" | "per_generation",
+ *   "duration": 8,
+ *   "settings": { "resolution": "720p", "aspect_ratio": "9:16", "duration": 8 },
+ *   "pricing_rule_id": "uuid" | null,
+ *   "breakdown": [
+ *     { "step": "per_second", "description": "$0.1 × 8s", "dollars": 0.8 },
+ *     { "step": "tier_discount", "description": "premium tier 20% off", "dollars": 0.64 },
+ *     { "step": "credit_conversion", "description": "$0.64 ÷ $0.1 per credit", "dollars": 0.64, "credits": 6 }
+ *   ],
+ *   "credits_remaining": 20,
+ *   "can_afford": true,
+ *   "generation_frozen": false,
+ *   "tier_allowed": true,
+ *   "rate_limit": { "allowed": true, "limit": 10, "remaining": 7, "reset_at": "..." },
+ *   "allowed": true
+ * }
+ *
+ * Note: Uses the same settings resolution and calculateCost as generate-video.
+ * A quote is not a reservation - balance and rate limit can change before generating.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { logEvent } from '../_shared/logger.ts'
+import { requireAuth } from '../_shared/auth-helper.ts'
+import { isValidUUID, validationError } from '../_shared/validation.ts'
+import {
+  calculateCost,
+  resolveFinalSettings,
+  validateSettingsOptions,
+  type PricedModel,
+  type SettingsInput
+} from '../_shared/video-pricing.ts'
+import { getPricingRule } from '../_shared/pricing-rules.ts'
+import { isTierAllowed } from '../_shared/model-access.ts'
+import { findVideoProvider, validateProviderSettings } from '../_shared/video-providers.ts'
+
+interface QuoteVideoRequest {
+  user_id?: string // Legacy - identity comes from the access token; must match if sent
+  model_id?: string
+  theme_id?: string
+  settings?: SettingsInput
+}
+
+const MODEL_FIELDS = 'id, provider, cost_per_generation, pricing_type, base_price, required_fields, min_tier'
+
+serve(async (req) => {
+  try {
+    // 1. Validate HTTP method
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          status: 405,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // 2. Parse request body
+    let body: QuoteVideoRequest
+    try {
+      body = await req.json()
+    } catch (_jsonError) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON in request body' }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
+    const { model_id, theme_id, settings } = body
+
+    if (model_id && !isValidUUID(model_id)) {
+      return validationError('model_id', 'Must be valid UUID format')
+    }
+    if (theme_id && !isValidUUID(theme_id)) {
+      return validationError('theme_id', 'Must be valid UUID format')
+    }
+
+    // 3. Initialize Supabase client with service role key
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Resolve caller from access token
+    const { user_id, tier } = await requireAuth(req, supabaseClient, body.user_id)
+
+    logEvent('quote_video_request', { user_id, model_id, theme_id }, 'info')
+
+    // 4. Model lookup (same rule as generate-video: the active model unless one is named)
+    const modelQuery = supabaseClient
+      .from('models')
+      .select(MODEL_FIELDS)
+      .eq('is_available', true)
+    const { data: model, error: modelError } = model_id
+      ? await modelQuery.eq('id', model_id).single()
+      : await modelQuery.eq('is_active', true).single()
+
+    if (modelError || !model) {
+      logEvent('quote_video_model_not_found', { model_id, error: modelError?.message }, 'warn')
+      return new Response(
+        JSON.stringify({ error: 'Model not found or not available' }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const pricedModel = model as PricedModel & { id: string, provider: string, min_tier: string | null }
+
+    // 5. Theme check (optional)
+    if (theme_id) {
+      const { data: theme, error: themeError } = await supabaseClient
+        .from('themes')
+        .select('id')
+        .eq('id', theme_id)
+        .eq('is_available', true)
+        .single()
+
+      if (themeError || !theme) {
+        return new Response(
+          JSON.stringify({ error: 'Theme not found or not available' }),
+          {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        )
+      }
+    }
+
+    // 6. Settings + cost (identical to generate-video)
+    const requiredFields = pricedModel.required_fields || {}
+    const provider = findVideoProvider(pricedModel.provider)
+    if (settings) {
+      const settingsError = (requiredFields.requires_settings
+        ? validateSettingsOptions(requiredFields.settings || {}, settings)
+        : null) ?? (provider ? validateProviderSettings(provider, settings) : null)
+      if (settingsError) {
+        return new Response(
+          JSON.stringify({ error: settingsError }),
+          {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        )
+      }
+    }
+
+    const finalSettings = resolveFinalSettings(pricedModel, settings)
+    const pricingRule = await getPricingRule(supabaseClient, pricedModel.id)
+    const costResult = calculateCost(pricedModel, finalSettings, requiredFields, {
+      rule: pricingRule,
+      tier
+    })
+
+    // 7. Balance and rate limit (read-only checks)
+    const { data: user, error: userError } = await supabaseClient
+      .from('users')
+      .select('credits_remaining, generation_frozen')
+      .eq('id', user_id)
+      .single()
+
+    if (userError || !user) {
+      logEvent('quote_video_user_error', { user_id, error: userError?.message }, 'error')
+      throw userError ?? new Error('User not found')
+    }
+
+    const { data: rateLimitResult, error: rateLimitError } = await supabaseClient.rpc(
+      'check_rate_limit_dynamic',
+      {
+        p_user_id: user_id,
+        p_action: 'generate_video'
+      }
+    )
+
+    if (rateLimitError) {
+      // generate-video fails open on this error, so the quote does too
+      logEvent('quote_video_rate_limit_error', { user_id, error: rateLimitError.message }, 'warn')
+    }
+
+    const rateLimitAllowed = rateLimitResult ? rateLimitResult.allowed : true
+    const canAfford = user.credits_remaining >= costResult.creditsToDeduct
+    const generationFrozen = !!user.generation_frozen
+    const tierAllowed = isTierAllowed(tier, pricedModel.min_tier)
+
+    const responseBody = {
+      model_id: pricedModel.id,
+      credits: costResult.creditsToDeduct,
+      cost_in_dollars: costResult.costInDollars,
+      pricing_type: costResult.pricingType,
+      duration: costResult.duration ?? finalSettings.duration,
+      settings: finalSettings,
+      pricing_rule_id: costResult.pricingRuleId,
+      breakdown: costResult.breakdown,
+      credits_remaining: user.credits_remaining,
+      can_afford: canAfford,
+      generation_frozen: generationFrozen,
+      tier_allowed: tierAllowed,
+      rate_limit: rateLimitResult
+        ? {
+            allowed: rateLimitResult.allowed,
+            limit: rateLimitResult.limit,
+            remaining: rateLimitResult.remaining,
+            reset_at: rateLimitResult.reset_at
+          }
+        : null,
+      allowed: canAfford && rateLimitAllowed && !generationFrozen && tierAllowed
+    }
+
+    logEvent('quote_video_success', {
+      user_id,
+      model_id: pricedModel.id,
+      credits: costResult.creditsToDeduct,
+      allowed: responseBody.allowed
+    }, 'info')
+
+    return new Response(
+      JSON.stringify(responseBody),
+      {
+        headers: { 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    // Auth failures are thrown as ready-made 401/403 responses
+    if (error instanceof Response) {
+      return error
+    }
+
+    logEvent('quote_video_unexpected_error', {
+      error: error.message,
+      stack: error.stack
+    }, 'error')
+
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -5,9 +5,12 @@
  * 
  * Endpoint: POST /update-credits
  * 
+ * Headers:
+ * - Authorization (required): Bearer <Supabase access token>
+ * 
  * Request Body:
  * {
- *   "user_id": "uuid",
+ *   "user_id": "uuid" (optional, legacy - must match the authenticated user),
  *   "transaction_id": "apple-transaction-id"
  * }
  * 
@@ -18,14 +21,19 @@
  *   "credits_remaining": 60
  * }
  * 
- * Note: For Phase 1, Apple IAP verification is simplified (mock).
- * Real Apple App Store Server API verification will be implemented in Phase 0.5.
+ * Subscription products also return "tier" and "subscription_status"
+ * (renewals are handled by apple-server-notifications).
+ * 
+ * Transactions are verified with the App Store Server API (see _shared/apple-iap-verifier.ts).
+ * Refunded/revoked transactions are rejected.
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { logEvent } from '../_shared/logger.ts'
-import { verifyWithApple, getCreditsForProduct } from '../_shared/apple-iap-verifier.ts'
+import { verifyWithApple, getCreditsForProduct, getSubscriptionForProduct } from '../_shared/apple-iap-verifier.ts'
+import { requireAuth } from '../_shared/auth-helper.ts'
+import { recordTransactionPrice } from '../_shared/apple-transaction-prices.ts'
 
 serve(async (req) => {
   try {
@@ -40,12 +48,13 @@ serve(async (req) => {
       )
     }
 
-    const { user_id, transaction_id } = await req.json()
+    const body = await req.json()
+    const { transaction_id } = body
 
     // Validate input
-    if (!user_id || !transaction_id) {
+    if (!transaction_id) {
       return new Response(
-        JSON.stringify({ error: 'user_id and transaction_id are required' }),
+        JSON.stringify({ error: 'transaction_id is required' }),
         { 
           status: 400, 
           headers: { 'Content-Type': 'application/json' } 
@@ -59,6 +68,9 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
+    // Resolve caller from access token (never trust user_id from the request)
+    const { user_id } = await requireAuth(req, supabaseClient, body.user_id)
+
     logEvent('update_credits_request', { 
       user_id, 
       transaction_id 
@@ -70,7 +82,8 @@ serve(async (req) => {
     if (!verification.valid) {
       logEvent('update_credits_invalid_transaction', { 
         user_id, 
-        transaction_id 
+        transaction_id,
+        reason: verification.error
       }, 'warn')
 
       return new Response(
@@ -82,8 +95,100 @@ serve(async (req) => {
       )
     }
 
-    // 2. Get credits amount for product (NEVER trust client - always use server-side config)
-    const creditsToAdd = getCreditsForProduct(verification.product_id)
+    if (verification.revoked) {
+      logEvent('update_credits_revoked_transaction', { 
+        user_id, 
+        transaction_id,
+        revocation_date: verification.revocation_date,
+        revocation_reason: verification.revocation_reason
+      }, 'warn')
+
+      return new Response(
+        JSON.stringify({ error: 'Transaction has been refunded or revoked' }),
+        { 
+          status: 400, 
+          headers: { 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    // What the customer paid (lifetime spend in consumption reports)
+    await recordTransactionPrice(
+      supabaseClient,
+      verification.transaction_id ?? transaction_id,
+      verification.price,
+      verification.currency
+    )
+
+    // 2a. Subscription product: link subscription to caller, set tier, grant monthly credits
+    const subscription = await getSubscriptionForProduct(verification.product_id)
+
+    if (subscription) {
+      const isActive = !verification.expires_date || new Date(verification.expires_date) > new Date()
+
+      const { data: subResult, error: subError } = await supabaseClient.rpc('apply_subscription_event', {
+        p_original_transaction_id: verification.original_transaction_id,
+        p_transaction_id: verification.transaction_id,
+        p_product_id: verification.product_id,
+        p_tier: subscription.tier,
+        p_status: isActive ? 'active' : 'expired',
+        p_event_type: 'CLIENT_PURCHASE',
+        p_event_at: verification.purchase_date,
+        p_user_id: user_id,
+        p_expires_at: verification.expires_date,
+        p_environment: verification.environment,
+        p_grant_credits: isActive ? subscription.monthly_credits : 0
+      })
+
+      if (subError) {
+        logEvent('update_credits_rpc_error', { 
+          error: subError.message,
+          user_id 
+        }, 'error')
+        throw subError
+      }
+
+      if (!subResult.success) {
+        logEvent('update_credits_subscription_failed', { 
+          error: subResult.error,
+          user_id,
+          transaction_id 
+        }, 'warn')
+
+        return new Response(
+          JSON.stringify({ error: subResult.error }),
+          { 
+            status: 400, 
+            headers: { 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      logEvent('update_credits_subscription_success', { 
+        user_id,
+        product_id: verification.product_id,
+        status: subResult.status,
+        tier: subResult.tier,
+        credits_added: subResult.credits_granted,
+        transaction_id 
+      }, 'info')
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          credits_added: subResult.credits_granted,
+          credits_remaining: subResult.credits_remaining,
+          tier: subResult.tier,
+          subscription_status: subResult.status
+        }),
+        { 
+          headers: { 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    // 2b. Get credits amount for product (NEVER trust client - always use server-side config)
+    const creditsToAdd = await getCreditsForProduct(verification.product_id)
 
     if (!creditsToAdd) {
       logEvent('update_credits_unknown_product', { 
@@ -137,7 +242,8 @@ serve(async (req) => {
       user_id,
       credits_added: creditsToAdd,
       credits_remaining: result.credits_remaining,
-      transaction_id 
+      transaction_id,
+      environment: verification.environment
     }, 'info')
 
     // 4. Return success response
@@ -153,6 +259,11 @@ serve(async (req) => {
     )
 
   } catch (error) {
+    // Auth failures are thrown as ready-made 401/403 responses
+    if (error instanceof Response) {
+      return error
+    }
+
     logEvent('update_credits_unexpected_error', { 
       error: error.message,
       stack: error.stack 
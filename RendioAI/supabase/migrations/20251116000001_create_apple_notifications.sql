@@ -0,0 +1,177 @@
+-- Migration: App Store Server Notifications V2 log
+-- Version: 1.0
+-- Date: 2025-11-16
+-- Purpose: Persist every verified notification and process each one exactly once
+--
+-- Apple re-delivers a notification (same notificationUUID) until it gets a 200.
+-- The edge function claims a notification before acting on it and marks it
+-- processed afterwards, so re-deliveries never apply a refund/renewal twice.
+
+-- =====================================================
+-- Table: apple_notifications
+-- Purpose: Raw signedPayload + decoded payloads, keyed by notificationUUID
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS apple_notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    notification_uuid TEXT NOT NULL UNIQUE,
+    notification_type TEXT NOT NULL,
+    subtype TEXT,
+    environment TEXT CHECK (environment IN ('Production', 'Sandbox')),
+    bundle_id TEXT,
+    transaction_id TEXT,
+    original_transaction_id TEXT,
+
+    -- Raw JWS exactly as received + verified decoded payloads
+    signed_payload TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    transaction_info JSONB,
+    renewal_info JSONB,
+
+    -- Processing state
+    status TEXT NOT NULL DEFAULT 'received'
+        CHECK (status IN ('received', 'processing', 'processed', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    locked_at TIMESTAMPTZ,
+    processed_at TIMESTAMPTZ,
+
+    signed_date TIMESTAMPTZ,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_apple_notifications_transaction_id ON apple_notifications(transaction_id);
+CREATE INDEX idx_apple_notifications_original_transaction_id ON apple_notifications(original_transaction_id);
+CREATE INDEX idx_apple_notifications_status ON apple_notifications(status) WHERE status != 'processed';
+
+CREATE TRIGGER update_apple_notifications_updated_at
+    BEFORE UPDATE ON apple_notifications
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Service role only (no client access)
+ALTER TABLE apple_notifications ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- Function: claim_apple_notification
+-- Purpose: Record a notification and decide whether this delivery should process it
+--
+-- Returns claimed = true only when the notification is new, previously failed,
+-- or stuck in 'processing' longer than p_lock_timeout_seconds.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION claim_apple_notification(
+    p_notification_uuid TEXT,
+    p_notification_type TEXT,
+    p_subtype TEXT,
+    p_environment TEXT,
+    p_bundle_id TEXT,
+    p_transaction_id TEXT,
+    p_original_transaction_id TEXT,
+    p_signed_payload TEXT,
+    p_payload JSONB,
+    p_transaction_info JSONB,
+    p_renewal_info JSONB,
+    p_signed_date TIMESTAMPTZ,
+    p_lock_timeout_seconds INTEGER DEFAULT 300
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_notification apple_notifications%ROWTYPE;
+BEGIN
+    -- 1. Insert on first delivery (re-deliveries hit the unique constraint)
+    INSERT INTO apple_notifications (
+        notification_uuid, notification_type, subtype, environment, bundle_id,
+        transaction_id, original_transaction_id, signed_payload, payload,
+        transaction_info, renewal_info, signed_date
+    ) VALUES (
+        p_notification_uuid, p_notification_type, p_subtype, p_environment, p_bundle_id,
+        p_transaction_id, p_original_transaction_id, p_signed_payload, p_payload,
+        p_transaction_info, p_renewal_info, p_signed_date
+    )
+    ON CONFLICT (notification_uuid) DO NOTHING;
+
+    -- 2. Lock the row so concurrent deliveries serialize here
+    SELECT * INTO v_notification
+    FROM apple_notifications
+    WHERE notification_uuid = p_notification_uuid
+    FOR UPDATE;
+
+    -- 3. Already handled → nothing to do
+    IF v_notification.status = 'processed' THEN
+        RETURN jsonb_build_object(
+            'claimed', false,
+            'status', v_notification.status,
+            'attempts', v_notification.attempts
+        );
+    END IF;
+
+    -- 4. Another delivery is working on it right now
+    IF v_notification.status = 'processing'
+       AND v_notification.locked_at > now() - make_interval(secs => p_lock_timeout_seconds) THEN
+        RETURN jsonb_build_object(
+            'claimed', false,
+            'status', v_notification.status,
+            'attempts', v_notification.attempts
+        );
+    END IF;
+
+    -- 5. Claim it
+    UPDATE apple_notifications
+    SET status = 'processing',
+        attempts = attempts + 1,
+        locked_at = now()
+    WHERE id = v_notification.id;
+
+    RETURN jsonb_build_object(
+        'claimed', true,
+        'status', 'processing',
+        'attempts', v_notification.attempts + 1
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- Function: complete_apple_notification
+-- Purpose: Mark a claimed notification as processed or failed
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION complete_apple_notification(
+    p_notification_uuid TEXT,
+    p_success BOOLEAN,
+    p_error TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE apple_notifications
+    SET status = CASE WHEN p_success THEN 'processed' ELSE 'failed' END,
+        processed_at = CASE WHEN p_success THEN now() ELSE processed_at END,
+        last_error = p_error,
+        locked_at = NULL
+    WHERE notification_uuid = p_notification_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Called by the apple-server-notifications function only
+REVOKE EXECUTE ON FUNCTION claim_apple_notification(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB, JSONB, JSONB, TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_apple_notification(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB, JSONB, JSONB, TIMESTAMPTZ, INTEGER) TO service_role;
+REVOKE EXECUTE ON FUNCTION complete_apple_notification(TEXT, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION complete_apple_notification(TEXT, BOOLEAN, TEXT) TO service_role;
+
+-- =====================================================
+-- Success Summary
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Apple notification log created';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '';
+    RAISE NOTICE '📋 Table: apple_notifications (unique notification_uuid)';
+    RAISE NOTICE '🔒 Functions: claim_apple_notification, complete_apple_notification';
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+END $$;
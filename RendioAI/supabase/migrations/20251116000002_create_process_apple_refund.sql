@@ -0,0 +1,320 @@
+-- Migration: Atomic Apple refund clawback
+-- Version: 1.0
+-- Date: 2025-11-16
+-- Purpose: Replace the read-modify-write refund logic in apple-server-notifications
+--          with a single transactional stored procedure
+--
+-- CHANGES:
+-- 1. quota_log.status / refunded_at: mark original IAP purchases as refunded
+-- 2. users.generation_frozen: block video generation after an abusive refund
+-- 3. apple_refunds: one row per refunded transaction (ledger + review queue)
+-- 4. process_apple_refund(): claw back credits, mark purchase, write ledger atomically
+-- 5. generate_video_atomic(): reject users whose generation is frozen (P0003)
+--
+-- OVERDRAFT POLICIES (user already spent the refunded credits):
+-- - allow_negative:    deduct the full amount, balance may go below zero
+-- - freeze_generation: deduct down to zero and freeze video generation
+-- - flag_for_review:   deduct down to zero and queue the refund for manual review
+
+-- =====================================================
+-- Step 1: Purchase status on quota_log
+-- =====================================================
+
+ALTER TABLE quota_log
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'completed'
+    CHECK (status IN ('completed', 'refunded'));
+
+ALTER TABLE quota_log
+ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMPTZ;
+
+-- =====================================================
+-- Step 2: Generation freeze on users
+-- =====================================================
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS generation_frozen BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS generation_frozen_reason TEXT;
+
+-- =====================================================
+-- Step 3: Table apple_refunds
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS apple_refunds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    transaction_id TEXT NOT NULL UNIQUE,
+    purchase_log_id UUID REFERENCES quota_log(id) ON DELETE SET NULL,
+    credits_purchased INTEGER NOT NULL,
+    credits_clawed_back INTEGER NOT NULL,
+    shortfall INTEGER NOT NULL DEFAULT 0,   -- credits already spent that could not be recovered
+    policy TEXT NOT NULL CHECK (policy IN ('allow_negative', 'freeze_generation', 'flag_for_review')),
+    balance_before INTEGER NOT NULL,
+    balance_after INTEGER NOT NULL,
+    review_status TEXT NOT NULL DEFAULT 'not_required'
+        CHECK (review_status IN ('not_required', 'pending', 'resolved')),
+    revocation_reason INTEGER,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_apple_refunds_user_id ON apple_refunds(user_id);
+CREATE INDEX idx_apple_refunds_review_pending ON apple_refunds(created_at) WHERE review_status = 'pending';
+
+-- Service role only (no client access)
+ALTER TABLE apple_refunds ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- Step 4: Function process_apple_refund
+-- Returns: JSONB with success status and clawback details
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION process_apple_refund(
+    p_transaction_id TEXT,
+    p_policy TEXT DEFAULT 'allow_negative',
+    p_revocation_reason INTEGER DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    v_purchase quota_log%ROWTYPE;
+    v_balance_before INTEGER;
+    v_balance_after INTEGER;
+    v_clawback INTEGER;
+    v_shortfall INTEGER;
+    v_review_status TEXT := 'not_required';
+BEGIN
+    IF p_policy NOT IN ('allow_negative', 'freeze_generation', 'flag_for_review') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'Unknown refund policy: ' || p_policy
+        );
+    END IF;
+
+    -- 1. Lock the original purchase (serializes duplicate refund deliveries)
+    SELECT * INTO v_purchase
+    FROM quota_log
+    WHERE transaction_id = p_transaction_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_purchase.change <= 0 THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'Purchase not found'
+        );
+    END IF;
+
+    IF v_purchase.status = 'refunded' THEN
+        RETURN jsonb_build_object(
+            'success', true,
+            'already_refunded', true,
+            'user_id', v_purchase.user_id
+        );
+    END IF;
+
+    -- 2. Lock user row (same lock generate_video_atomic takes)
+    SELECT credits_remaining INTO v_balance_before
+    FROM users
+    WHERE id = v_purchase.user_id
+    FOR UPDATE;
+
+    IF v_balance_before IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'User not found'
+        );
+    END IF;
+
+    -- 3. Apply overdraft policy
+    v_shortfall := GREATEST(0, v_purchase.change - GREATEST(v_balance_before, 0));
+
+    IF p_policy = 'allow_negative' THEN
+        v_clawback := v_purchase.change;
+    ELSE
+        v_clawback := v_purchase.change - v_shortfall;
+    END IF;
+
+    UPDATE users
+    SET credits_remaining = credits_remaining - v_clawback,
+        credits_total = GREATEST(0, credits_total - v_purchase.change),
+        generation_frozen = CASE
+            WHEN p_policy = 'freeze_generation' AND v_shortfall > 0 THEN true
+            ELSE generation_frozen
+        END,
+        generation_frozen_reason = CASE
+            WHEN p_policy = 'freeze_generation' AND v_shortfall > 0 THEN 'apple_refund:' || p_transaction_id
+            ELSE generation_frozen_reason
+        END,
+        updated_at = now()
+    WHERE id = v_purchase.user_id
+    RETURNING credits_remaining INTO v_balance_after;
+
+    IF p_policy = 'flag_for_review' AND v_shortfall > 0 THEN
+        v_review_status := 'pending';
+    END IF;
+
+    -- 4. Mark original purchase refunded
+    UPDATE quota_log
+    SET status = 'refunded',
+        refunded_at = now()
+    WHERE id = v_purchase.id;
+
+    -- 5. Refund ledger row
+    INSERT INTO quota_log (user_id, change, reason, transaction_id, balance_after)
+    VALUES (v_purchase.user_id, -v_clawback, 'apple_refund', p_transaction_id || '_refund', v_balance_after);
+
+    INSERT INTO apple_refunds (
+        user_id,
+        transaction_id,
+        purchase_log_id,
+        credits_purchased,
+        credits_clawed_back,
+        shortfall,
+        policy,
+        balance_before,
+        balance_after,
+        review_status,
+        revocation_reason
+    ) VALUES (
+        v_purchase.user_id,
+        p_transaction_id,
+        v_purchase.id,
+        v_purchase.change,
+        v_clawback,
+        v_shortfall,
+        p_policy,
+        v_balance_before,
+        v_balance_after,
+        v_review_status,
+        p_revocation_reason
+    );
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'already_refunded', false,
+        'user_id', v_purchase.user_id,
+        'credits_purchased', v_purchase.change,
+        'credits_clawed_back', v_clawback,
+        'shortfall', v_shortfall,
+        'policy', p_policy,
+        'generation_frozen', p_policy = 'freeze_generation' AND v_shortfall > 0,
+        'review_status', v_review_status,
+        'credits_remaining', v_balance_after
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Called by the apple-server-notifications function only
+REVOKE EXECUTE ON FUNCTION process_apple_refund(TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION process_apple_refund(TEXT, TEXT, INTEGER) TO service_role;
+
+-- =====================================================
+-- Step 5: Enforce generation freeze in generate_video_atomic
+-- (Same as 20251108000004 plus the frozen check)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION generate_video_atomic(
+  p_user_id UUID,
+  p_model_id UUID,
+  p_prompt TEXT,
+  p_settings JSONB,
+  p_idempotency_key UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_credits_cost INTEGER;
+  v_user_credits INTEGER;
+  v_generation_frozen BOOLEAN;
+  v_job_id UUID;
+BEGIN
+  -- 1. Lock user row for credit deduction (prevents race conditions)
+  SELECT credits_remaining, generation_frozen INTO v_user_credits, v_generation_frozen
+  FROM users
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  -- Frozen after a refund of already-spent credits
+  IF v_generation_frozen THEN
+    RAISE EXCEPTION 'Generation frozen' USING ERRCODE = 'P0003';
+  END IF;
+
+  -- 2. Calculate cost from model table
+  SELECT cost_per_generation INTO v_credits_cost
+  FROM models
+  WHERE id = p_model_id;
+
+  -- Validate cost exists
+  IF v_credits_cost IS NULL THEN
+    RAISE EXCEPTION 'Model not found or missing cost' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- 3. Check if user has sufficient credits
+  IF v_user_credits < v_credits_cost THEN
+    RAISE EXCEPTION 'Insufficient credits' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- 4. Deduct credits atomically
+  UPDATE users
+  SET credits_remaining = credits_remaining - v_credits_cost
+  WHERE id = p_user_id;
+
+  -- 5. Create video job
+  INSERT INTO video_jobs (user_id, model_id, prompt, settings, credits_used, status)
+  VALUES (p_user_id, p_model_id, p_prompt, p_settings, v_credits_cost, 'pending')
+  RETURNING job_id INTO v_job_id;
+
+  -- 6. Insert idempotency record
+  INSERT INTO idempotency_log (
+    idempotency_key,
+    user_id,
+    job_id,
+    operation_type,
+    response_data,
+    status_code,
+    created_at,
+    expires_at
+  )
+  VALUES (
+    p_idempotency_key,
+    p_user_id,
+    v_job_id,
+    'generate_video',
+    jsonb_build_object(
+      'job_id', v_job_id,
+      'credits_used', v_credits_cost,
+      'status', 'pending'
+    ),
+    200,
+    NOW(),
+    NOW() + INTERVAL '24 hours'
+  );
+
+  -- 7. Return job details as JSON
+  RETURN jsonb_build_object(
+    'job_id', v_job_id,
+    'credits_used', v_credits_cost,
+    'status', 'pending'
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log error and rollback entire transaction
+    RAISE NOTICE 'Transaction rolled back: %', SQLERRM;
+    RAISE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- Success Summary
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Apple refund clawback installed';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '';
+    RAISE NOTICE '🔒 process_apple_refund(transaction_id, policy, revocation_reason)';
+    RAISE NOTICE '📊 Ledger: quota_log (status/refunded_at) + apple_refunds';
+    RAISE NOTICE '🧊 generate_video_atomic now rejects frozen users (P0003)';
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+END $$;
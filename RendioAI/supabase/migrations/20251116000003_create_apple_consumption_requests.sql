@@ -0,0 +1,170 @@
+-- Migration: Apple consumption information
+-- Version: 1.0
+-- Date: 2025-11-16
+-- Purpose: Answer CONSUMPTION_REQUEST notifications with real usage data
+--
+-- CHANGES:
+-- 1. apple_consumption_requests: every outbound "Send Consumption Information" call
+-- 2. apple_transaction_prices: what the customer paid per transaction (from the signed transaction)
+-- 3. get_apple_consumption_data(): usage figures for one purchase, from quota_log + video_jobs
+--
+-- The edge function maps the raw figures to Apple's ConsumptionRequest enums.
+-- Lifetime spend is reported in USD only when every purchase has a USD price on
+-- record (NULL otherwise - no exchange rates here, so it's sent as undeclared).
+
+-- =====================================================
+-- Step 1: Table apple_consumption_requests
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS apple_consumption_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    notification_uuid TEXT NOT NULL UNIQUE,
+    transaction_id TEXT NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    environment TEXT CHECK (environment IN ('Production', 'Sandbox')),
+    request_body JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_status_code INTEGER,
+    last_error TEXT,
+    sent_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_apple_consumption_requests_transaction_id ON apple_consumption_requests(transaction_id);
+CREATE INDEX idx_apple_consumption_requests_pending ON apple_consumption_requests(created_at) WHERE status != 'sent';
+
+CREATE TRIGGER update_apple_consumption_requests_updated_at
+    BEFORE UPDATE ON apple_consumption_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Service role only (no client access)
+ALTER TABLE apple_consumption_requests ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- Step 2: Table apple_transaction_prices
+-- Written by update-credits and apple-server-notifications
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS apple_transaction_prices (
+    transaction_id TEXT PRIMARY KEY,
+    price_milliunits BIGINT NOT NULL CHECK (price_milliunits >= 0),  -- Apple's price × 1000
+    currency TEXT NOT NULL,  -- ISO 4217
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Service role only (no client access)
+ALTER TABLE apple_transaction_prices ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- Step 3: Function get_apple_consumption_data
+-- Returns: JSONB with raw usage figures for the purchase's user
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION get_apple_consumption_data(
+    p_transaction_id TEXT
+) RETURNS JSONB AS $$
+DECLARE
+    v_purchase quota_log%ROWTYPE;
+    v_user users%ROWTYPE;
+    v_spent_on_completed INTEGER;
+    v_purchases INTEGER;
+    v_usd_purchases INTEGER;
+    v_lifetime_purchased NUMERIC;
+    v_refunds INTEGER;
+    v_usd_refunds INTEGER;
+    v_lifetime_refunded NUMERIC;
+    v_completed_videos INTEGER;
+    v_failed_videos INTEGER;
+BEGIN
+    -- 1. Original purchase
+    SELECT * INTO v_purchase
+    FROM quota_log
+    WHERE transaction_id = p_transaction_id
+    AND change > 0;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('found', false);
+    END IF;
+
+    SELECT * INTO v_user
+    FROM users
+    WHERE id = v_purchase.user_id;
+
+    -- 2. Credits spent on completed videos since the purchase
+    SELECT COALESCE(SUM(credits_used), 0), COUNT(*)
+    INTO v_spent_on_completed, v_completed_videos
+    FROM video_jobs
+    WHERE user_id = v_purchase.user_id
+    AND status = 'completed'
+    AND created_at >= v_purchase.created_at;
+
+    SELECT COUNT(*) INTO v_failed_videos
+    FROM video_jobs
+    WHERE user_id = v_purchase.user_id
+    AND status = 'failed'
+    AND created_at >= v_purchase.created_at;
+
+    -- 3. Lifetime spend and refunds (USD paid, credit packs and subscription periods)
+    SELECT COUNT(*),
+           COUNT(*) FILTER (WHERE p.currency = 'USD'),
+           COALESCE(SUM(p.price_milliunits) FILTER (WHERE p.currency = 'USD'), 0) / 1000.0
+    INTO v_purchases, v_usd_purchases, v_lifetime_purchased
+    FROM quota_log q
+    LEFT JOIN apple_transaction_prices p ON p.transaction_id = q.transaction_id
+    WHERE q.user_id = v_purchase.user_id
+    AND q.reason IN ('iap_purchase', 'subscription_credits')
+    AND q.change > 0;
+
+    SELECT COUNT(*),
+           COUNT(*) FILTER (WHERE p.currency = 'USD'),
+           COALESCE(SUM(p.price_milliunits) FILTER (WHERE p.currency = 'USD'), 0) / 1000.0
+    INTO v_refunds, v_usd_refunds, v_lifetime_refunded
+    FROM apple_refunds r
+    LEFT JOIN apple_transaction_prices p ON p.transaction_id = r.transaction_id
+    WHERE r.user_id = v_purchase.user_id;
+
+    RETURN jsonb_build_object(
+        'found', true,
+        'user_id', v_purchase.user_id,
+        'purchase_status', v_purchase.status,
+        'purchased_at', v_purchase.created_at,
+        'credits_purchased', v_purchase.change,
+        'credits_spent_on_completed', v_spent_on_completed,
+        'completed_videos', v_completed_videos,
+        'failed_videos', v_failed_videos,
+        'credits_remaining', v_user.credits_remaining,
+        'account_created_at', v_user.created_at,
+        -- NULL unless every purchase/refund has a USD price on record
+        'lifetime_dollars_purchased', CASE WHEN v_usd_purchases = v_purchases THEN v_lifetime_purchased END,
+        'lifetime_dollars_refunded', CASE WHEN v_usd_refunds = v_refunds THEN v_lifetime_refunded END,
+        'generation_frozen', COALESCE(v_user.generation_frozen, false),
+        'initial_grant_claimed', COALESCE(v_user.initial_grant_claimed, false)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Called by the apple-server-notifications function only
+REVOKE EXECUTE ON FUNCTION get_apple_consumption_data(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_apple_consumption_data(TEXT) TO service_role;
+
+-- =====================================================
+-- Success Summary
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Apple consumption reporting installed';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '';
+    RAISE NOTICE '📋 Table: apple_consumption_requests (one row per CONSUMPTION_REQUEST)';
+    RAISE NOTICE '📋 Table: apple_transaction_prices (price paid per transaction)';
+    RAISE NOTICE '📊 Function: get_apple_consumption_data(transaction_id)';
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+END $$;
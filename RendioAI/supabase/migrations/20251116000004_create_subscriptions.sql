@@ -0,0 +1,206 @@
+-- Migration: Auto-renewable subscriptions
+-- Version: 1.0
+-- Date: 2025-11-16
+-- Purpose: Track subscription state from App Store Server Notifications and
+--          keep users.tier + monthly credit allowance in sync
+--
+-- CHANGES:
+-- 1. subscriptions: one row per original_transaction_id
+-- 2. apply_subscription_event(): update state, users.tier and grant credits atomically
+--
+-- STATUS → TIER:
+-- - active, grace_period              → subscription tier (e.g. premium)
+-- - billing_retry, expired, revoked   → free
+
+-- =====================================================
+-- Step 1: Table subscriptions
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS subscriptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    original_transaction_id TEXT NOT NULL UNIQUE,
+    last_transaction_id TEXT,
+    product_id TEXT NOT NULL,
+    tier TEXT NOT NULL CHECK (tier IN ('free', 'premium')),
+    status TEXT NOT NULL DEFAULT 'active'
+        CHECK (status IN ('active', 'grace_period', 'billing_retry', 'expired', 'revoked')),
+    auto_renew_status BOOLEAN NOT NULL DEFAULT true,
+    auto_renew_product_id TEXT,
+    expires_at TIMESTAMPTZ,
+    grace_period_expires_at TIMESTAMPTZ,
+    environment TEXT CHECK (environment IN ('Production', 'Sandbox')),
+    last_event_type TEXT,
+    last_event_at TIMESTAMPTZ,   -- signedDate of the last applied event (ignores out-of-order deliveries)
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_subscriptions_user_id ON subscriptions(user_id);
+CREATE INDEX idx_subscriptions_expires_at ON subscriptions(expires_at) WHERE status IN ('active', 'grace_period');
+
+CREATE TRIGGER update_subscriptions_updated_at
+    BEFORE UPDATE ON subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own subscriptions (writes go through the service role)
+CREATE POLICY "Users can view own subscriptions"
+    ON subscriptions
+    FOR SELECT
+    USING (user_id IN (SELECT id FROM users WHERE auth_user_id = auth.uid()));
+
+-- =====================================================
+-- Step 2: Function apply_subscription_event
+-- Returns: JSONB with success status, tier and credits granted
+--
+-- p_user_id is only needed the first time (purchase via update-credits or
+-- appAccountToken); afterwards the subscription is found by original_transaction_id.
+-- p_status / p_auto_renew_status NULL = keep current value.
+-- Credits are granted once per p_transaction_id (add_credits dedupes on quota_log).
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION apply_subscription_event(
+    p_original_transaction_id TEXT,
+    p_transaction_id TEXT,
+    p_product_id TEXT,
+    p_tier TEXT,
+    p_status TEXT,
+    p_event_type TEXT,
+    p_event_at TIMESTAMPTZ,
+    p_user_id UUID DEFAULT NULL,
+    p_expires_at TIMESTAMPTZ DEFAULT NULL,
+    p_grace_period_expires_at TIMESTAMPTZ DEFAULT NULL,
+    p_auto_renew_status BOOLEAN DEFAULT NULL,
+    p_auto_renew_product_id TEXT DEFAULT NULL,
+    p_environment TEXT DEFAULT NULL,
+    p_grant_credits INTEGER DEFAULT 0
+) RETURNS JSONB AS $$
+DECLARE
+    v_subscription subscriptions%ROWTYPE;
+    v_status TEXT;
+    v_user_tier TEXT;
+    v_grant JSONB;
+    v_credits_granted INTEGER := 0;
+    v_credits_remaining INTEGER;
+    v_stale BOOLEAN := false;
+BEGIN
+    -- appAccountToken is client-controlled: ignore it unless it names a real user
+    IF p_user_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM users WHERE id = p_user_id) THEN
+        p_user_id := NULL;
+    END IF;
+
+    -- 1. Lock existing subscription
+    SELECT * INTO v_subscription
+    FROM subscriptions
+    WHERE original_transaction_id = p_original_transaction_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        IF p_user_id IS NULL THEN
+            RETURN jsonb_build_object(
+                'success', false,
+                'error', 'Subscription not linked to a user'
+            );
+        END IF;
+
+        INSERT INTO subscriptions (
+            user_id, original_transaction_id, product_id, tier, status, environment
+        ) VALUES (
+            p_user_id, p_original_transaction_id, p_product_id, p_tier,
+            COALESCE(p_status, 'active'), p_environment
+        )
+        RETURNING * INTO v_subscription;
+
+    ELSIF p_user_id IS NOT NULL AND v_subscription.user_id != p_user_id THEN
+        -- Same Apple ID purchase claimed by a different account
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'Subscription belongs to another user'
+        );
+
+    ELSIF v_subscription.last_event_at IS NOT NULL AND p_event_at < v_subscription.last_event_at THEN
+        -- Older than what we already applied (Apple doesn't guarantee ordering):
+        -- keep the newer state, but a renewal's credits are still owed
+        v_stale := true;
+    END IF;
+
+    IF v_stale THEN
+        v_status := v_subscription.status;
+        v_user_tier := CASE WHEN v_status IN ('active', 'grace_period') THEN v_subscription.tier ELSE 'free' END;
+
+        SELECT credits_remaining INTO v_credits_remaining
+        FROM users
+        WHERE id = v_subscription.user_id;
+    ELSE
+        v_status := COALESCE(p_status, v_subscription.status);
+
+        -- 2. Update subscription state
+        UPDATE subscriptions
+        SET product_id = p_product_id,
+            tier = p_tier,
+            status = v_status,
+            last_transaction_id = COALESCE(p_transaction_id, last_transaction_id),
+            expires_at = COALESCE(p_expires_at, expires_at),
+            grace_period_expires_at = p_grace_period_expires_at,
+            auto_renew_status = COALESCE(p_auto_renew_status, auto_renew_status),
+            auto_renew_product_id = COALESCE(p_auto_renew_product_id, auto_renew_product_id),
+            environment = COALESCE(p_environment, environment),
+            last_event_type = p_event_type,
+            last_event_at = p_event_at
+        WHERE id = v_subscription.id;
+
+        -- 3. Sync users.tier
+        v_user_tier := CASE WHEN v_status IN ('active', 'grace_period') THEN p_tier ELSE 'free' END;
+
+        UPDATE users
+        SET tier = v_user_tier,
+            updated_at = now()
+        WHERE id = v_subscription.user_id
+        RETURNING credits_remaining INTO v_credits_remaining;
+    END IF;
+
+    -- 4. Monthly allowance (once per transaction, p_grant_credits > 0 only for paid periods)
+    IF p_grant_credits > 0 AND p_transaction_id IS NOT NULL THEN
+        v_grant := add_credits(v_subscription.user_id, p_grant_credits, 'subscription_credits', p_transaction_id);
+
+        IF (v_grant->>'success')::BOOLEAN THEN
+            v_credits_granted := p_grant_credits;
+            v_credits_remaining := (v_grant->>'credits_remaining')::INTEGER;
+        END IF;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'stale', v_stale,
+        'user_id', v_subscription.user_id,
+        'status', v_status,
+        'tier', v_user_tier,
+        'credits_granted', v_credits_granted,
+        'credits_remaining', v_credits_remaining
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Called by update-credits and apple-server-notifications only
+REVOKE EXECUTE ON FUNCTION apply_subscription_event(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ, UUID, TIMESTAMPTZ, TIMESTAMPTZ, BOOLEAN, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_subscription_event(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ, UUID, TIMESTAMPTZ, TIMESTAMPTZ, BOOLEAN, TEXT, TEXT, INTEGER) TO service_role;
+
+-- =====================================================
+-- Success Summary
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Subscriptions installed';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '';
+    RAISE NOTICE '📋 Table: subscriptions (unique original_transaction_id)';
+    RAISE NOTICE '🔒 Function: apply_subscription_event (state + tier + credits)';
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+END $$;
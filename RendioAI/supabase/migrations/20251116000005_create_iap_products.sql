@@ -0,0 +1,101 @@
+-- Migration: IAP product catalog
+-- Version: 1.0
+-- Date: 2025-11-16
+-- Purpose: Move credit packs and subscription plans out of apple-iap-verifier.ts
+--          so prices, bonuses and promotions change without a redeploy
+--
+-- CHANGES:
+-- 1. iap_products: App Store products with credits, bonus, active window, platform, ordering
+-- 2. Seed: the previously hardcoded credit packs and subscription plans
+--
+-- NOTES:
+-- - Credits granted for a verified purchase = credits + bonus_credits
+--   (subscriptions: granted on every renewal)
+-- - is_active / valid_from / valid_until / platform only control what get-products lists;
+--   a product Apple already charged for is always honoured
+-- - Edge functions cache the catalog for a few minutes
+
+-- =====================================================
+-- Table: iap_products
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS iap_products (
+    product_id TEXT PRIMARY KEY,  -- Matches App Store product ID
+
+    -- Display
+    name TEXT NOT NULL,
+    description TEXT,
+
+    -- Credits
+    credits INTEGER NOT NULL CHECK (credits >= 0),
+    bonus_credits INTEGER NOT NULL DEFAULT 0 CHECK (bonus_credits >= 0),
+
+    -- Product type
+    product_type TEXT NOT NULL DEFAULT 'consumable'
+        CHECK (product_type IN ('consumable', 'auto_renewable_subscription')),
+
+    -- Subscriptions only
+    tier TEXT CHECK (tier IN ('premium')),
+
+    -- Availability
+    platform TEXT NOT NULL DEFAULT 'ios' CHECK (platform IN ('ios', 'android', 'all')),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    is_featured BOOLEAN NOT NULL DEFAULT false,
+    valid_from TIMESTAMPTZ,
+    valid_until TIMESTAMPTZ,
+
+    -- UI
+    display_order INTEGER NOT NULL DEFAULT 0,
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+    CONSTRAINT iap_products_subscription_check CHECK (
+        product_type != 'auto_renewable_subscription'
+        OR tier IS NOT NULL
+    )
+);
+
+CREATE INDEX idx_iap_products_active ON iap_products(is_active, display_order);
+
+CREATE TRIGGER update_iap_products_updated_at
+    BEFORE UPDATE ON iap_products
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE iap_products ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can view active products (only backend can modify)
+CREATE POLICY "Anyone can view active products"
+ON iap_products FOR SELECT
+USING (is_active = true);
+
+-- =====================================================
+-- Seed: previously hardcoded PRODUCT_CONFIG / SUBSCRIPTION_CONFIG
+-- =====================================================
+
+INSERT INTO iap_products (product_id, name, description, credits, product_type, tier, display_order) VALUES
+    ('com.rendio.credits.10', 'Starter Pack', '10 credits', 10, 'consumable', NULL, 1),
+    ('com.rendio.credits.50', 'Popular Pack', '50 credits', 50, 'consumable', NULL, 2),
+    ('com.rendio.credits.100', 'Best Value', '100 credits', 100, 'consumable', NULL, 3),
+    ('com.rendio.premium.monthly', 'Premium', '100 credits every month', 100, 'auto_renewable_subscription', 'premium', 10),
+    ('com.rendio.premium_plus.monthly', 'Premium Plus', '300 credits every month', 300, 'auto_renewable_subscription', 'premium', 11)
+ON CONFLICT (product_id) DO NOTHING;
+
+-- =====================================================
+-- Success Summary
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ IAP product catalog created';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '';
+    RAISE NOTICE '📋 Table: iap_products (5 products seeded)';
+    RAISE NOTICE '🛒 Endpoint: GET /get-products';
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+END $$;
@@ -0,0 +1,348 @@
+-- Migration: Credit hold-and-capture for video generation
+-- Version: 1.0
+-- Date: 2025-11-16
+-- Purpose: Replace deduct-then-refund with reservations
+--
+-- FLOW:
+-- 1. generate_video_atomic places a hold: credits_remaining → credits_held
+-- 2. Provider returns a video       → capture_credit_reservation (held credits are spent)
+-- 3. Provider fails / submit fails  → release_credit_reservation (held credits return)
+-- 4. Job stuck past expires_at      → release_expired_credit_reservations (pg_cron)
+-- 5. Job deleted while held         → trigger releases the hold
+--
+-- users.credits_remaining stays the AVAILABLE balance (what the app displays);
+-- users.credits_held is what in-flight generations have reserved.
+
+-- =====================================================
+-- Step 1: Held balance on users
+-- =====================================================
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS credits_held INTEGER NOT NULL DEFAULT 0 CHECK (credits_held >= 0);
+
+-- =====================================================
+-- Step 2: Table credit_reservations
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS credit_reservations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id UUID NOT NULL UNIQUE REFERENCES video_jobs(job_id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    amount INTEGER NOT NULL CHECK (amount >= 0),
+    status TEXT NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'captured', 'released')),
+    release_reason TEXT,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    resolved_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_credit_reservations_user_id ON credit_reservations(user_id);
+CREATE INDEX idx_credit_reservations_held_expiry ON credit_reservations(expires_at) WHERE status = 'held';
+
+ALTER TABLE credit_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Users can view own reservations (writes go through stored procedures)
+CREATE POLICY "Users can view own reservations"
+    ON credit_reservations
+    FOR SELECT
+    USING (user_id IN (SELECT id FROM users WHERE auth_user_id = auth.uid()));
+
+-- =====================================================
+-- Step 3: Function capture_credit_reservation
+-- Returns: JSONB; captures once, later calls are no-ops
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION capture_credit_reservation(
+    p_job_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+    v_reservation credit_reservations%ROWTYPE;
+    v_balance INTEGER;
+BEGIN
+    SELECT * INTO v_reservation
+    FROM credit_reservations
+    WHERE job_id = p_job_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Reservation not found');
+    END IF;
+
+    IF v_reservation.status != 'held' THEN
+        RETURN jsonb_build_object(
+            'success', true,
+            'changed', false,
+            'status', v_reservation.status,
+            'amount', v_reservation.amount
+        );
+    END IF;
+
+    UPDATE users
+    SET credits_held = GREATEST(0, credits_held - v_reservation.amount),
+        updated_at = now()
+    WHERE id = v_reservation.user_id
+    RETURNING credits_remaining INTO v_balance;
+
+    UPDATE credit_reservations
+    SET status = 'captured',
+        resolved_at = now()
+    WHERE id = v_reservation.id;
+
+    -- Spend is only written to the ledger once it's final
+    INSERT INTO quota_log (user_id, job_id, change, reason, balance_after)
+    VALUES (v_reservation.user_id, p_job_id, -v_reservation.amount, 'video_generation', v_balance);
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'changed', true,
+        'status', 'captured',
+        'amount', v_reservation.amount
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- Step 4: Function release_credit_reservation
+-- Returns: JSONB; releases once, later calls are no-ops
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION release_credit_reservation(
+    p_job_id UUID,
+    p_reason TEXT
+) RETURNS JSONB AS $$
+DECLARE
+    v_reservation credit_reservations%ROWTYPE;
+    v_balance INTEGER;
+BEGIN
+    SELECT * INTO v_reservation
+    FROM credit_reservations
+    WHERE job_id = p_job_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Reservation not found');
+    END IF;
+
+    IF v_reservation.status != 'held' THEN
+        RETURN jsonb_build_object(
+            'success', true,
+            'changed', false,
+            'status', v_reservation.status,
+            'amount', v_reservation.amount
+        );
+    END IF;
+
+    UPDATE users
+    SET credits_held = GREATEST(0, credits_held - v_reservation.amount),
+        credits_remaining = credits_remaining + v_reservation.amount,
+        updated_at = now()
+    WHERE id = v_reservation.user_id
+    RETURNING credits_remaining INTO v_balance;
+
+    UPDATE credit_reservations
+    SET status = 'released',
+        release_reason = p_reason,
+        resolved_at = now()
+    WHERE id = v_reservation.id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'changed', true,
+        'status', 'released',
+        'amount', v_reservation.amount,
+        'credits_remaining', v_balance
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- Step 5: Release holds when a job is deleted
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION release_reservation_on_job_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM release_credit_reservation(OLD.job_id, 'job_deleted');
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER release_reservation_before_job_delete
+    BEFORE DELETE ON video_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION release_reservation_on_job_delete();
+
+-- =====================================================
+-- Step 6: Release expired holds (timeouts)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION release_expired_credit_reservations()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_reservation RECORD;
+  v_released_count INTEGER := 0;
+BEGIN
+  FOR v_reservation IN
+    SELECT job_id
+    FROM public.credit_reservations
+    WHERE status = 'held'
+    AND expires_at < NOW()
+  LOOP
+    PERFORM release_credit_reservation(v_reservation.job_id, 'timeout');
+
+    UPDATE public.video_jobs
+    SET status = 'failed',
+        error_message = 'Video generation timed out'
+    WHERE job_id = v_reservation.job_id
+    AND status IN ('pending', 'processing');
+
+    v_released_count := v_released_count + 1;
+  END LOOP;
+
+  IF v_released_count > 0 THEN
+    INSERT INTO public.audit_log (action, details, created_at)
+    VALUES (
+      'credit_reservations_expired',
+      jsonb_build_object('released_count', v_released_count),
+      NOW()
+    );
+
+    RAISE NOTICE 'Released % expired credit reservations', v_released_count;
+  END IF;
+END;
+$$;
+
+-- Called by edge functions and pg_cron only
+REVOKE EXECUTE ON FUNCTION capture_credit_reservation(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION capture_credit_reservation(UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION release_credit_reservation(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION release_credit_reservation(UUID, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION release_expired_credit_reservations() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION release_expired_credit_reservations() TO service_role;
+
+-- Every 10 minutes
+SELECT cron.schedule(
+  'release-expired-credit-reservations',
+  '*/10 * * * *',
+  'SELECT release_expired_credit_reservations();'
+);
+
+-- =====================================================
+-- Step 7: generate_video_atomic places a hold instead of deducting
+-- (Same as 20251116000002 except step 4)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION generate_video_atomic(
+  p_user_id UUID,
+  p_model_id UUID,
+  p_prompt TEXT,
+  p_settings JSONB,
+  p_idempotency_key UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_credits_cost INTEGER;
+  v_user_credits INTEGER;
+  v_generation_frozen BOOLEAN;
+  v_job_id UUID;
+BEGIN
+  -- 1. Lock user row for credit hold (prevents race conditions)
+  SELECT credits_remaining, generation_frozen INTO v_user_credits, v_generation_frozen
+  FROM users
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  -- Frozen after a refund of already-spent credits
+  IF v_generation_frozen THEN
+    RAISE EXCEPTION 'Generation frozen' USING ERRCODE = 'P0003';
+  END IF;
+
+  -- 2. Calculate cost from model table
+  SELECT cost_per_generation INTO v_credits_cost
+  FROM models
+  WHERE id = p_model_id;
+
+  -- Validate cost exists
+  IF v_credits_cost IS NULL THEN
+    RAISE EXCEPTION 'Model not found or missing cost' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- 3. Check if user has sufficient available credits
+  IF v_user_credits < v_credits_cost THEN
+    RAISE EXCEPTION 'Insufficient credits' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- 4. Place hold (captured on completion, released on failure)
+  UPDATE users
+  SET credits_remaining = credits_remaining - v_credits_cost,
+      credits_held = credits_held + v_credits_cost
+  WHERE id = p_user_id;
+
+  -- 5. Create video job
+  INSERT INTO video_jobs (user_id, model_id, prompt, settings, credits_used, status)
+  VALUES (p_user_id, p_model_id, p_prompt, p_settings, v_credits_cost, 'pending')
+  RETURNING job_id INTO v_job_id;
+
+  INSERT INTO credit_reservations (job_id, user_id, amount, expires_at)
+  VALUES (v_job_id, p_user_id, v_credits_cost, NOW() + INTERVAL '2 hours');
+
+  -- 6. Insert idempotency record
+  INSERT INTO idempotency_log (
+    idempotency_key,
+    user_id,
+    job_id,
+    operation_type,
+    response_data,
+    status_code,
+    created_at,
+    expires_at
+  )
+  VALUES (
+    p_idempotency_key,
+    p_user_id,
+    v_job_id,
+    'generate_video',
+    jsonb_build_object(
+      'job_id', v_job_id,
+      'credits_used', v_credits_cost,
+      'status', 'pending'
+    ),
+    200,
+    NOW(),
+    NOW() + INTERVAL '24 hours'
+  );
+
+  -- 7. Return job details as JSON
+  RETURN jsonb_build_object(
+    'job_id', v_job_id,
+    'credits_used', v_credits_cost,
+    'status', 'pending'
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log error and rollback entire transaction
+    RAISE NOTICE 'Transaction rolled back: %', SQLERRM;
+    RAISE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- Success Summary
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Credit reservations installed';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '';
+    RAISE NOTICE '📋 Table: credit_reservations (one per job)';
+    RAISE NOTICE '🔒 Functions: capture_credit_reservation, release_credit_reservation';
+    RAISE NOTICE '⏰ Cron: release-expired-credit-reservations (every 10 minutes)';
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+END $$;
@@ -0,0 +1,369 @@
+-- Migration: Exactly-once refunds for failed video jobs
+-- Version: 1.0
+-- Date: 2025-11-16
+-- Purpose: Refund provider-side failures once per job, with a ledger entry tied to the job
+--
+-- CHANGES:
+-- 1. video_jobs.credits_refunded / refunded_at: what the status endpoint reports
+-- 2. quota_log: at most one 'generation_refund' row per job (unique index)
+-- 3. Ledger follows the available balance: the hold writes the spend row,
+--    a release writes the refund row, capture writes nothing
+-- 4. refund_failed_job: one entry point for provider failures, also covers
+--    jobs created before reservations existed (credits deducted directly)
+
+-- =====================================================
+-- Step 1: Refund snapshot on video_jobs
+-- =====================================================
+
+ALTER TABLE video_jobs
+ADD COLUMN IF NOT EXISTS credits_refunded INTEGER NOT NULL DEFAULT 0 CHECK (credits_refunded >= 0);
+
+ALTER TABLE video_jobs
+ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMPTZ;
+
+-- =====================================================
+-- Step 2: One refund ledger row per job
+-- =====================================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quota_log_job_refund_unique
+    ON quota_log(job_id)
+    WHERE reason = 'generation_refund';
+
+-- =====================================================
+-- Step 3: capture_credit_reservation no longer writes the ledger
+-- (the spend row is written when the hold is placed)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION capture_credit_reservation(
+    p_job_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+    v_reservation credit_reservations%ROWTYPE;
+BEGIN
+    SELECT * INTO v_reservation
+    FROM credit_reservations
+    WHERE job_id = p_job_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Reservation not found');
+    END IF;
+
+    IF v_reservation.status != 'held' THEN
+        RETURN jsonb_build_object(
+            'success', true,
+            'changed', false,
+            'status', v_reservation.status,
+            'amount', v_reservation.amount
+        );
+    END IF;
+
+    UPDATE users
+    SET credits_held = GREATEST(0, credits_held - v_reservation.amount),
+        updated_at = now()
+    WHERE id = v_reservation.user_id;
+
+    UPDATE credit_reservations
+    SET status = 'captured',
+        resolved_at = now()
+    WHERE id = v_reservation.id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'changed', true,
+        'status', 'captured',
+        'amount', v_reservation.amount
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- Step 4: release_credit_reservation writes the refund row
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION release_credit_reservation(
+    p_job_id UUID,
+    p_reason TEXT
+) RETURNS JSONB AS $$
+DECLARE
+    v_reservation credit_reservations%ROWTYPE;
+    v_balance INTEGER;
+BEGIN
+    SELECT * INTO v_reservation
+    FROM credit_reservations
+    WHERE job_id = p_job_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Reservation not found');
+    END IF;
+
+    IF v_reservation.status != 'held' THEN
+        RETURN jsonb_build_object(
+            'success', true,
+            'changed', false,
+            'status', v_reservation.status,
+            'amount', v_reservation.amount
+        );
+    END IF;
+
+    UPDATE users
+    SET credits_held = GREATEST(0, credits_held - v_reservation.amount),
+        credits_remaining = credits_remaining + v_reservation.amount,
+        updated_at = now()
+    WHERE id = v_reservation.user_id
+    RETURNING credits_remaining INTO v_balance;
+
+    UPDATE credit_reservations
+    SET status = 'released',
+        release_reason = p_reason,
+        resolved_at = now()
+    WHERE id = v_reservation.id;
+
+    INSERT INTO quota_log (user_id, job_id, change, reason, balance_after)
+    VALUES (v_reservation.user_id, p_job_id, v_reservation.amount, 'generation_refund', v_balance);
+
+    -- The delete trigger calls this from BEFORE DELETE, where the job row can't be updated
+    IF p_reason != 'job_deleted' THEN
+        UPDATE video_jobs
+        SET credits_refunded = v_reservation.amount,
+            refunded_at = now()
+        WHERE job_id = p_job_id;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'changed', true,
+        'status', 'released',
+        'amount', v_reservation.amount,
+        'credits_remaining', v_balance
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- Step 5: Function refund_failed_job
+-- Returns: JSONB { success, refunded, credits_refunded, credits_remaining? }
+-- Safe to call on every status poll: the job row lock plus refunded_at
+-- make the refund happen once. Only failed jobs are refunded; the caller
+-- marks the job failed first.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION refund_failed_job(
+    p_job_id UUID,
+    p_reason TEXT DEFAULT 'provider_failed'
+) RETURNS JSONB AS $$
+DECLARE
+    v_job video_jobs%ROWTYPE;
+    v_reservation_status TEXT;
+    v_release JSONB;
+    v_balance INTEGER;
+BEGIN
+    -- 1. Lock the job (serializes concurrent status polls)
+    SELECT * INTO v_job
+    FROM video_jobs
+    WHERE job_id = p_job_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Job not found');
+    END IF;
+
+    -- 2. Already refunded
+    IF v_job.refunded_at IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', true,
+            'refunded', false,
+            'credits_refunded', v_job.credits_refunded
+        );
+    END IF;
+
+    -- 3. Job still running or completed (e.g. a late failure report): nothing to refund
+    IF v_job.status != 'failed' THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'Job has not failed',
+            'status', v_job.status
+        );
+    END IF;
+
+    -- 4. Job with a hold: release it (captured means a video was delivered)
+    SELECT status INTO v_reservation_status
+    FROM credit_reservations
+    WHERE job_id = p_job_id;
+
+    IF FOUND THEN
+        IF v_reservation_status != 'held' THEN
+            RETURN jsonb_build_object(
+                'success', true,
+                'refunded', false,
+                'credits_refunded', v_job.credits_refunded
+            );
+        END IF;
+
+        v_release := release_credit_reservation(p_job_id, p_reason);
+
+        RETURN jsonb_build_object(
+            'success', true,
+            'refunded', true,
+            'credits_refunded', v_release->'amount',
+            'credits_remaining', v_release->'credits_remaining'
+        );
+    END IF;
+
+    -- 5. Job from before reservations: credits were deducted directly
+    IF v_job.credits_used <= 0 THEN
+        RETURN jsonb_build_object('success', true, 'refunded', false, 'credits_refunded', 0);
+    END IF;
+
+    UPDATE users
+    SET credits_remaining = credits_remaining + v_job.credits_used,
+        updated_at = now()
+    WHERE id = v_job.user_id
+    RETURNING credits_remaining INTO v_balance;
+
+    INSERT INTO quota_log (user_id, job_id, change, reason, balance_after)
+    VALUES (v_job.user_id, p_job_id, v_job.credits_used, 'generation_refund', v_balance);
+
+    UPDATE video_jobs
+    SET credits_refunded = v_job.credits_used,
+        refunded_at = now()
+    WHERE job_id = p_job_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'refunded', true,
+        'credits_refunded', v_job.credits_used,
+        'credits_remaining', v_balance
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Called by edge functions only (redefinitions keep their grants; restated here)
+REVOKE EXECUTE ON FUNCTION capture_credit_reservation(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION capture_credit_reservation(UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION release_credit_reservation(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION release_credit_reservation(UUID, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION refund_failed_job(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refund_failed_job(UUID, TEXT) TO service_role;
+
+-- =====================================================
+-- Step 6: generate_video_atomic writes the spend row with the hold
+-- (Same as 20251116000006 except step 4)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION generate_video_atomic(
+  p_user_id UUID,
+  p_model_id UUID,
+  p_prompt TEXT,
+  p_settings JSONB,
+  p_idempotency_key UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_credits_cost INTEGER;
+  v_user_credits INTEGER;
+  v_generation_frozen BOOLEAN;
+  v_job_id UUID;
+BEGIN
+  -- 1. Lock user row for credit hold (prevents race conditions)
+  SELECT credits_remaining, generation_frozen INTO v_user_credits, v_generation_frozen
+  FROM users
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  -- Frozen after a refund of already-spent credits
+  IF v_generation_frozen THEN
+    RAISE EXCEPTION 'Generation frozen' USING ERRCODE = 'P0003';
+  END IF;
+
+  -- 2. Calculate cost from model table
+  SELECT cost_per_generation INTO v_credits_cost
+  FROM models
+  WHERE id = p_model_id;
+
+  -- Validate cost exists
+  IF v_credits_cost IS NULL THEN
+    RAISE EXCEPTION 'Model not found or missing cost' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- 3. Check if user has sufficient available credits
+  IF v_user_credits < v_credits_cost THEN
+    RAISE EXCEPTION 'Insufficient credits' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- 4. Place hold (captured on completion, released on failure)
+  UPDATE users
+  SET credits_remaining = credits_remaining - v_credits_cost,
+      credits_held = credits_held + v_credits_cost
+  WHERE id = p_user_id;
+
+  -- 5. Create video job
+  INSERT INTO video_jobs (user_id, model_id, prompt, settings, credits_used, status)
+  VALUES (p_user_id, p_model_id, p_prompt, p_settings, v_credits_cost, 'pending')
+  RETURNING job_id INTO v_job_id;
+
+  INSERT INTO credit_reservations (job_id, user_id, amount, expires_at)
+  VALUES (v_job_id, p_user_id, v_credits_cost, NOW() + INTERVAL '2 hours');
+
+  -- Ledger row moves with the available balance; a release writes the matching refund
+  INSERT INTO quota_log (user_id, job_id, change, reason, balance_after)
+  VALUES (p_user_id, v_job_id, -v_credits_cost, 'video_generation', v_user_credits - v_credits_cost);
+
+  -- 6. Insert idempotency record
+  INSERT INTO idempotency_log (
+    idempotency_key,
+    user_id,
+    job_id,
+    operation_type,
+    response_data,
+    status_code,
+    created_at,
+    expires_at
+  )
+  VALUES (
+    p_idempotency_key,
+    p_user_id,
+    v_job_id,
+    'generate_video',
+    jsonb_build_object(
+      'job_id', v_job_id,
+      'credits_used', v_credits_cost,
+      'status', 'pending'
+    ),
+    200,
+    NOW(),
+    NOW() + INTERVAL '24 hours'
+  );
+
+  -- 7. Return job details as JSON
+  RETURN jsonb_build_object(
+    'job_id', v_job_id,
+    'credits_used', v_credits_cost,
+    'status', 'pending'
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log error and rollback entire transaction
+    RAISE NOTICE 'Transaction rolled back: %', SQLERRM;
+    RAISE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- Success Summary
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Failed job refunds installed';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '';
+    RAISE NOTICE '💸 Function: refund_failed_job (once per job)';
+    RAISE NOTICE '📊 Ledger: quota_log generation_refund rows (unique per job)';
+    RAISE NOTICE '📋 Columns: video_jobs.credits_refunded, video_jobs.refunded_at';
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+END $$;
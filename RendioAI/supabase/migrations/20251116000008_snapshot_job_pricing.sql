@@ -0,0 +1,201 @@
+-- Migration: Charge the computed price and snapshot it on the job
+-- Version: 1.0
+-- Date: 2025-11-16
+-- Purpose: generate_video_atomic charges what calculateCost computed, and the job keeps a copy
+--
+-- CHANGES:
+-- 1. video_jobs.cost_in_dollars / pricing_type / duration_seconds (with credits_used = the price snapshot)
+-- 2. Snapshot columns are immutable once the job exists
+-- 3. generate_video_atomic takes p_credits_cost, p_cost_in_dollars, p_pricing_type, p_duration
+--    (p_credits_cost NULL keeps the old behaviour: models.cost_per_generation)
+-- 4. generate_video_atomic is service_role only - callers now supply the price
+
+-- =====================================================
+-- Step 1: Price snapshot columns on video_jobs
+-- =====================================================
+
+ALTER TABLE video_jobs
+ADD COLUMN IF NOT EXISTS cost_in_dollars NUMERIC(10,4),
+ADD COLUMN IF NOT EXISTS pricing_type TEXT
+  CHECK (pricing_type IN ('per_second', 'per_video', 'per_generation')),
+ADD COLUMN IF NOT EXISTS duration_seconds INTEGER CHECK (duration_seconds > 0);
+
+-- =====================================================
+-- Step 2: Snapshot is immutable
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION prevent_job_price_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.credits_used IS DISTINCT FROM OLD.credits_used
+       OR NEW.cost_in_dollars IS DISTINCT FROM OLD.cost_in_dollars
+       OR NEW.pricing_type IS DISTINCT FROM OLD.pricing_type
+       OR NEW.duration_seconds IS DISTINCT FROM OLD.duration_seconds THEN
+        RAISE EXCEPTION 'Price snapshot of job % cannot be changed', OLD.job_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_video_job_price_change
+    BEFORE UPDATE ON video_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_job_price_change();
+
+-- =====================================================
+-- Step 3: generate_video_atomic charges the computed price
+-- (Same as 20251116000007 except steps 2 and 5; new signature, so drop the old one)
+-- =====================================================
+
+DROP FUNCTION IF EXISTS generate_video_atomic(UUID, UUID, TEXT, JSONB, UUID);
+
+CREATE OR REPLACE FUNCTION generate_video_atomic(
+  p_user_id UUID,
+  p_model_id UUID,
+  p_prompt TEXT,
+  p_settings JSONB,
+  p_idempotency_key UUID,
+  p_credits_cost INTEGER DEFAULT NULL,
+  p_cost_in_dollars NUMERIC DEFAULT NULL,
+  p_pricing_type TEXT DEFAULT NULL,
+  p_duration INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_credits_cost INTEGER;
+  v_pricing_type TEXT;
+  v_cost_in_dollars NUMERIC;
+  v_user_credits INTEGER;
+  v_generation_frozen BOOLEAN;
+  v_job_id UUID;
+BEGIN
+  -- 1. Lock user row for credit hold (prevents race conditions)
+  SELECT credits_remaining, generation_frozen INTO v_user_credits, v_generation_frozen
+  FROM users
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  -- Frozen after a refund of already-spent credits
+  IF v_generation_frozen THEN
+    RAISE EXCEPTION 'Generation frozen' USING ERRCODE = 'P0003';
+  END IF;
+
+  -- 2. Cost: computed by the caller, or the model's flat cost
+  SELECT cost_per_generation INTO v_credits_cost
+  FROM models
+  WHERE id = p_model_id;
+
+  -- Validate model exists
+  IF NOT FOUND OR (v_credits_cost IS NULL AND p_credits_cost IS NULL) THEN
+    RAISE EXCEPTION 'Model not found or missing cost' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_credits_cost IS NOT NULL THEN
+    IF p_credits_cost < 0 THEN
+      RAISE EXCEPTION 'Invalid credit cost: %', p_credits_cost USING ERRCODE = 'P0004';
+    END IF;
+    v_credits_cost := p_credits_cost;
+    v_pricing_type := COALESCE(p_pricing_type, 'per_generation');
+  ELSE
+    v_pricing_type := 'per_generation';
+  END IF;
+
+  -- $0.1 = 1 credit when the caller didn't price it in dollars
+  v_cost_in_dollars := COALESCE(p_cost_in_dollars, v_credits_cost / 10.0);
+
+  -- 3. Check if user has sufficient available credits
+  IF v_user_credits < v_credits_cost THEN
+    RAISE EXCEPTION 'Insufficient credits' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- 4. Place hold (captured on completion, released on failure)
+  UPDATE users
+  SET credits_remaining = credits_remaining - v_credits_cost,
+      credits_held = credits_held + v_credits_cost
+  WHERE id = p_user_id;
+
+  -- 5. Create video job with its price snapshot
+  INSERT INTO video_jobs (
+    user_id, model_id, prompt, settings, credits_used, status,
+    cost_in_dollars, pricing_type, duration_seconds
+  )
+  VALUES (
+    p_user_id, p_model_id, p_prompt, p_settings, v_credits_cost, 'pending',
+    v_cost_in_dollars, v_pricing_type, p_duration
+  )
+  RETURNING job_id INTO v_job_id;
+
+  INSERT INTO credit_reservations (job_id, user_id, amount, expires_at)
+  VALUES (v_job_id, p_user_id, v_credits_cost, NOW() + INTERVAL '2 hours');
+
+  -- Ledger row moves with the available balance; a release writes the matching refund
+  INSERT INTO quota_log (user_id, job_id, change, reason, balance_after)
+  VALUES (p_user_id, v_job_id, -v_credits_cost, 'video_generation', v_user_credits - v_credits_cost);
+
+  -- 6. Insert idempotency record
+  INSERT INTO idempotency_log (
+    idempotency_key,
+    user_id,
+    job_id,
+    operation_type,
+    response_data,
+    status_code,
+    created_at,
+    expires_at
+  )
+  VALUES (
+    p_idempotency_key,
+    p_user_id,
+    v_job_id,
+    'generate_video',
+    jsonb_build_object(
+      'job_id', v_job_id,
+      'credits_used', v_credits_cost,
+      'status', 'pending'
+    ),
+    200,
+    NOW(),
+    NOW() + INTERVAL '24 hours'
+  );
+
+  -- 7. Return job details as JSON
+  RETURN jsonb_build_object(
+    'job_id', v_job_id,
+    'credits_used', v_credits_cost,
+    'cost_in_dollars', v_cost_in_dollars,
+    'pricing_type', v_pricing_type,
+    'duration', p_duration,
+    'status', 'pending'
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log error and rollback entire transaction
+    RAISE NOTICE 'Transaction rolled back: %', SQLERRM;
+    RAISE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- Step 4: Only edge functions may call it (clients could otherwise pick their own price)
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION generate_video_atomic(UUID, UUID, TEXT, JSONB, UUID, INTEGER, NUMERIC, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION generate_video_atomic(UUID, UUID, TEXT, JSONB, UUID, INTEGER, NUMERIC, TEXT, INTEGER) TO service_role;
+
+-- =====================================================
+-- Success Summary
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Job price snapshot installed';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '';
+    RAISE NOTICE '📋 Columns: video_jobs.cost_in_dollars, pricing_type, duration_seconds';
+    RAISE NOTICE '🔒 Trigger: prevent_video_job_price_change (snapshot is immutable)';
+    RAISE NOTICE '💰 generate_video_atomic charges p_credits_cost when given';
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+END $$;
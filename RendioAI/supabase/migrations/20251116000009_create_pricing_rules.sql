@@ -0,0 +1,121 @@
+-- Migration: Pricing rules per model
+-- Version: 1.0
+-- Date: 2025-11-16
+-- Purpose: Price generations from data instead of models.pricing_type/base_price alone
+--
+-- CHANGES:
+-- 1. pricing_rules: one active rule per model combining
+--    base price + per-second rate, resolution / aspect-ratio multipliers,
+--    tier discounts, a promotional window, dollar-to-credit rate and minimum charge
+--
+-- NOTES:
+-- - Evaluated in _shared/pricing-rules.ts (evaluatePricingRule explains every step)
+-- - Models without an active rule keep the legacy pricing_type/base_price calculation
+-- - Multipliers / discounts are JSON maps, e.g.
+--     resolution_multipliers   {"720p": 1.5}
+--     aspect_ratio_multipliers {"16:9": 1.1}
+--     tier_discounts           {"premium": 0.2}   -- 20% off
+-- - Map values are checked: multipliers must be > 0, discounts within 0..1
+-- - dollars_per_credit NULL = PRICING_DOLLARS_PER_CREDIT env (default $0.1 = 1 credit)
+
+-- =====================================================
+-- Function: is_valid_pricing_map
+-- Purpose: CHECK helper for the JSONB multiplier / discount maps
+-- p_kind 'multiplier': every value a number > 0
+-- p_kind 'discount':   every value a number between 0 and 1
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION is_valid_pricing_map(
+    p_map JSONB,
+    p_kind TEXT
+) RETURNS BOOLEAN AS $$
+    SELECT jsonb_typeof(p_map) = 'object'
+       AND NOT EXISTS (
+           SELECT 1
+           FROM jsonb_each(p_map) AS entry(key, value)
+           WHERE jsonb_typeof(entry.value) != 'number'
+              OR CASE p_kind
+                     WHEN 'multiplier' THEN (entry.value #>> '{}')::NUMERIC <= 0
+                     WHEN 'discount' THEN (entry.value #>> '{}')::NUMERIC NOT BETWEEN 0 AND 1
+                     ELSE true
+                 END
+       );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =====================================================
+-- Table: pricing_rules
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS pricing_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    model_id UUID NOT NULL REFERENCES models(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+
+    -- Dollar price before multipliers
+    base_price NUMERIC(10,4) NOT NULL DEFAULT 0 CHECK (base_price >= 0),
+    per_second_price NUMERIC(10,4) NOT NULL DEFAULT 0 CHECK (per_second_price >= 0),
+
+    -- Multipliers by setting value
+    resolution_multipliers JSONB NOT NULL DEFAULT '{}'::jsonb,
+    aspect_ratio_multipliers JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+    -- Discounts (fractions: 0.2 = 20% off)
+    tier_discounts JSONB NOT NULL DEFAULT '{}'::jsonb,
+    promo_name TEXT,
+    promo_discount NUMERIC(5,4) CHECK (promo_discount >= 0 AND promo_discount <= 1),
+    promo_starts_at TIMESTAMPTZ,
+    promo_ends_at TIMESTAMPTZ,
+
+    -- Conversion
+    dollars_per_credit NUMERIC(10,4) CHECK (dollars_per_credit > 0),
+    minimum_credits INTEGER NOT NULL DEFAULT 1 CHECK (minimum_credits >= 0),
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+    CONSTRAINT pricing_rules_promo_window_check CHECK (
+        promo_starts_at IS NULL OR promo_ends_at IS NULL OR promo_starts_at < promo_ends_at
+    ),
+    CONSTRAINT pricing_rules_resolution_multipliers_check CHECK (
+        is_valid_pricing_map(resolution_multipliers, 'multiplier')
+    ),
+    CONSTRAINT pricing_rules_aspect_ratio_multipliers_check CHECK (
+        is_valid_pricing_map(aspect_ratio_multipliers, 'multiplier')
+    ),
+    CONSTRAINT pricing_rules_tier_discounts_check CHECK (
+        is_valid_pricing_map(tier_discounts, 'discount')
+    )
+);
+
+-- At most one active rule per model
+CREATE UNIQUE INDEX idx_pricing_rules_active_model ON pricing_rules(model_id) WHERE is_active;
+
+CREATE TRIGGER update_pricing_rules_updated_at
+    BEFORE UPDATE ON pricing_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE pricing_rules ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can view active rules (only backend can modify)
+CREATE POLICY "Anyone can view active pricing rules"
+ON pricing_rules FOR SELECT
+USING (is_active = true);
+
+-- =====================================================
+-- Success Summary
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Pricing rules installed';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '';
+    RAISE NOTICE '📋 Table: pricing_rules (one active rule per model)';
+    RAISE NOTICE '💰 Models without a rule keep legacy pricing_type/base_price';
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+END $$;
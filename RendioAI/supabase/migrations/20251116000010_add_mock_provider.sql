@@ -0,0 +1,82 @@
+-- Migration: Mock video provider
+-- Version: 1.0
+-- Date: 2025-11-16
+-- Purpose: Allow models.provider = 'mock' for development and end-to-end tests
+--
+-- CHANGES:
+-- 1. models.provider CHECK allows 'mock'
+-- 2. Seed: "Mock Video (development)" model, hidden (is_available = false, is_active = false)
+--
+-- NOTES:
+-- - The mock adapter (_shared/mock-provider.ts) also refuses to run unless MOCK_PROVIDER_ENABLED=true
+-- - To use it locally: UPDATE models SET is_active = (provider = 'mock'), is_available = true WHERE ...
+-- - Upload any small MP4 to videos/mock/sample.mp4 (or set MOCK_PROVIDER_VIDEO_URL)
+
+-- =====================================================
+-- Step 1: Allow the mock provider
+-- =====================================================
+
+ALTER TABLE models DROP CONSTRAINT IF EXISTS models_provider_check;
+
+ALTER TABLE models
+ADD CONSTRAINT models_provider_check CHECK (provider IN ('fal', 'runway', 'pika', 'mock'));
+
+-- =====================================================
+-- Step 2: Seed the mock model (hidden)
+-- =====================================================
+
+INSERT INTO models (
+    name,
+    category,
+    description,
+    provider,
+    provider_model_id,
+    pricing_type,
+    base_price,
+    has_audio,
+    is_active,
+    required_fields,
+    is_available,
+    cost_per_generation
+)
+SELECT
+    'Mock Video (development)',
+    'image-to-video',
+    'Deterministic mock provider - no real generation, no provider cost',
+    'mock',
+    'mock/image-to-video',
+    'per_second',
+    0.1,
+    false,
+    false,
+    '{
+        "requires_prompt": true,
+        "requires_image": false,
+        "requires_settings": true,
+        "settings": {
+            "resolution": { "required": false, "default": "auto", "options": ["auto", "720p"] },
+            "aspect_ratio": { "required": false, "default": "auto", "options": ["auto", "9:16", "16:9"] },
+            "duration": { "required": false, "default": 4, "options": [4, 8, 12] }
+        }
+    }'::jsonb,
+    false,
+    4
+WHERE NOT EXISTS (SELECT 1 FROM models WHERE provider = 'mock');
+
+-- =====================================================
+-- Success Summary
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Mock provider installed';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '';
+    RAISE NOTICE '🧪 models.provider now allows ''mock''';
+    RAISE NOTICE '📋 Seeded hidden model: Mock Video (development)';
+    RAISE NOTICE '⚠️  Adapter requires MOCK_PROVIDER_ENABLED=true';
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+END $$;
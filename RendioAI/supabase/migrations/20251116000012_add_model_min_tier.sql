@@ -0,0 +1,37 @@
+-- Migration: Model access by tier
+-- Version: 1.0
+-- Date: 2025-11-16
+-- Purpose: Let clients pick any available model, gated by the user's tier
+--
+-- CHANGES:
+-- 1. models.min_tier: lowest users.tier allowed to generate with the model
+--
+-- NOTES:
+-- - generate-video takes an optional model_id; without one it uses the
+--   is_active model (the default), as before
+-- - Tier order: free < premium
+
+-- =====================================================
+-- Step 1: Minimum tier on models
+-- =====================================================
+
+ALTER TABLE models
+ADD COLUMN IF NOT EXISTS min_tier TEXT NOT NULL DEFAULT 'free'
+  CHECK (min_tier IN ('free', 'premium'));
+
+-- =====================================================
+-- Success Summary
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Model tier access installed';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '';
+    RAISE NOTICE '📋 Column: models.min_tier (free | premium)';
+    RAISE NOTICE '⭐ is_active model = default when no model_id is sent';
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+END $$;
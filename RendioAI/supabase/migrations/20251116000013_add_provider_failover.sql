@@ -0,0 +1,52 @@
+-- Migration: Provider failover
+-- Version: 1.0
+-- Date: 2025-11-16
+-- Purpose: Let a model fall back to equivalent models on other providers
+--
+-- CHANGES:
+-- 1. models.fallback_model_ids: ordered backup models tried when the
+--    provider fails a submission (5xx, timeout, quota)
+-- 2. video_jobs.provider / provider_model_id / executed_model_id: what
+--    actually ran the job (may differ from model_id after a failover)
+--
+-- NOTES:
+-- - The job keeps the requested model_id and its price snapshot; a failover
+--   never changes what the user is charged
+-- - executed_model_id has no foreign key on purpose: a second video_jobs → models
+--   relationship would make the models!inner embeds ambiguous
+-- - NULL provider columns (older jobs) mean the requested model ran the job
+
+-- =====================================================
+-- Step 1: Fallback models
+-- =====================================================
+
+ALTER TABLE models
+ADD COLUMN IF NOT EXISTS fallback_model_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- =====================================================
+-- Step 2: Provider that ran the job
+-- =====================================================
+
+ALTER TABLE video_jobs
+ADD COLUMN IF NOT EXISTS provider TEXT,
+ADD COLUMN IF NOT EXISTS provider_model_id TEXT,
+ADD COLUMN IF NOT EXISTS executed_model_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_video_jobs_provider_name ON video_jobs(provider, created_at DESC);
+
+-- =====================================================
+-- Success Summary
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Provider failover installed';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '';
+    RAISE NOTICE '📋 Column: models.fallback_model_ids (ordered)';
+    RAISE NOTICE '📋 Columns: video_jobs.provider, provider_model_id, executed_model_id';
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+END $$;
@@ -0,0 +1,207 @@
+-- Migration: Cancel in-flight video jobs
+-- Version: 1.0
+-- Date: 2025-11-16
+-- Purpose: Let users stop a generation and get the held credits back
+--
+-- CHANGES:
+-- 1. video_jobs.status gains 'cancelled'; cancelled_at records when
+-- 2. refund_failed_job also refunds cancelled jobs
+-- 3. cancel_video_job: owner check + status transition + refund in one
+--    transaction (refund goes through refund_failed_job, so at most once)
+--
+-- NOTES:
+-- - Only pending/processing jobs can be cancelled
+-- - The provider is asked to cancel by the cancel-video-job function first;
+--   if it can't stop the job, the function checks whether it already finished
+--   (completed → kept, failed → refunded as a failure) before cancelling
+
+-- =====================================================
+-- Step 1: 'cancelled' status
+-- =====================================================
+
+ALTER TABLE video_jobs
+DROP CONSTRAINT IF EXISTS video_jobs_status_check;
+
+ALTER TABLE video_jobs
+ADD CONSTRAINT video_jobs_status_check
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled'));
+
+ALTER TABLE video_jobs
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+
+-- =====================================================
+-- Step 2: refund_failed_job refunds cancelled jobs
+-- (Same as 20251116000007 except step 3)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION refund_failed_job(
+    p_job_id UUID,
+    p_reason TEXT DEFAULT 'provider_failed'
+) RETURNS JSONB AS $$
+DECLARE
+    v_job video_jobs%ROWTYPE;
+    v_reservation_status TEXT;
+    v_release JSONB;
+    v_balance INTEGER;
+BEGIN
+    -- 1. Lock the job (serializes concurrent status polls)
+    SELECT * INTO v_job
+    FROM video_jobs
+    WHERE job_id = p_job_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Job not found');
+    END IF;
+
+    -- 2. Already refunded
+    IF v_job.refunded_at IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', true,
+            'refunded', false,
+            'credits_refunded', v_job.credits_refunded
+        );
+    END IF;
+
+    -- 3. Job still running or completed (e.g. a late failure report): nothing to refund
+    IF v_job.status NOT IN ('failed', 'cancelled') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'Job has not failed or been cancelled',
+            'status', v_job.status
+        );
+    END IF;
+
+    -- 4. Job with a hold: release it (captured means a video was delivered)
+    SELECT status INTO v_reservation_status
+    FROM credit_reservations
+    WHERE job_id = p_job_id;
+
+    IF FOUND THEN
+        IF v_reservation_status != 'held' THEN
+            RETURN jsonb_build_object(
+                'success', true,
+                'refunded', false,
+                'credits_refunded', v_job.credits_refunded
+            );
+        END IF;
+
+        v_release := release_credit_reservation(p_job_id, p_reason);
+
+        RETURN jsonb_build_object(
+            'success', true,
+            'refunded', true,
+            'credits_refunded', v_release->'amount',
+            'credits_remaining', v_release->'credits_remaining'
+        );
+    END IF;
+
+    -- 5. Job from before reservations: credits were deducted directly
+    IF v_job.credits_used <= 0 THEN
+        RETURN jsonb_build_object('success', true, 'refunded', false, 'credits_refunded', 0);
+    END IF;
+
+    UPDATE users
+    SET credits_remaining = credits_remaining + v_job.credits_used,
+        updated_at = now()
+    WHERE id = v_job.user_id
+    RETURNING credits_remaining INTO v_balance;
+
+    INSERT INTO quota_log (user_id, job_id, change, reason, balance_after)
+    VALUES (v_job.user_id, p_job_id, v_job.credits_used, 'generation_refund', v_balance);
+
+    UPDATE video_jobs
+    SET credits_refunded = v_job.credits_used,
+        refunded_at = now()
+    WHERE job_id = p_job_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'refunded', true,
+        'credits_refunded', v_job.credits_used,
+        'credits_remaining', v_balance
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- Step 3: Function cancel_video_job
+-- Returns: JSONB { success, changed, status, credits_refunded, credits_remaining? }
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION cancel_video_job(
+    p_job_id UUID,
+    p_user_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+    v_job video_jobs%ROWTYPE;
+    v_refund JSONB;
+BEGIN
+    -- 1. Lock the job (serializes with status polls and webhooks)
+    SELECT * INTO v_job
+    FROM video_jobs
+    WHERE job_id = p_job_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_job.user_id != p_user_id THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Job not found');
+    END IF;
+
+    -- 2. Already cancelled: report the original refund
+    IF v_job.status = 'cancelled' THEN
+        RETURN jsonb_build_object(
+            'success', true,
+            'changed', false,
+            'status', 'cancelled',
+            'credits_refunded', v_job.credits_refunded
+        );
+    END IF;
+
+    IF v_job.status NOT IN ('pending', 'processing') THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'Job already finished',
+            'status', v_job.status
+        );
+    END IF;
+
+    -- 3. Transition, then refund (refund_failed_job is idempotent per job)
+    UPDATE video_jobs
+    SET status = 'cancelled',
+        cancelled_at = now(),
+        error_message = 'Cancelled by user'
+    WHERE job_id = p_job_id;
+
+    v_refund := refund_failed_job(p_job_id, 'cancelled');
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'changed', true,
+        'status', 'cancelled',
+        'credits_refunded', COALESCE((v_refund->>'credits_refunded')::INTEGER, 0),
+        'credits_remaining', v_refund->'credits_remaining'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Called by the cancel-video-job function only (it checks the caller first)
+REVOKE EXECUTE ON FUNCTION cancel_video_job(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cancel_video_job(UUID, UUID) TO service_role;
+
+-- =====================================================
+-- Success Summary
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Job cancellation installed';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '';
+    RAISE NOTICE '📋 Status: video_jobs.status = cancelled (+ cancelled_at)';
+    RAISE NOTICE '🔒 Function: cancel_video_job (refunds once via refund_failed_job)';
+    RAISE NOTICE '💸 Function: refund_failed_job (failed and cancelled jobs)';
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+END $$;
@@ -0,0 +1,80 @@
+-- Migration: Historical generation durations
+-- Version: 1.0
+-- Date: 2025-11-16
+-- Purpose: ETA and progress estimates for get-video-status
+--
+-- CHANGES:
+-- 1. Index on completed jobs by the model that ran them (+ duration setting)
+-- 2. get_generation_duration_stats: median seconds from job creation to
+--    completion over recent completed jobs
+--
+-- NOTES:
+-- - "Model that ran them" = executed_model_id after a failover, else model_id
+-- - Only the last 100 jobs from the last 30 days are considered, so the
+--   estimate follows provider speed changes
+
+-- =====================================================
+-- Step 1: Index
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_video_jobs_completed_duration
+    ON video_jobs ((COALESCE(executed_model_id, model_id)), duration_seconds, completed_at DESC)
+    WHERE status = 'completed';
+
+-- =====================================================
+-- Step 2: Function get_generation_duration_stats
+-- Returns: JSONB { median_seconds, p90_seconds, sample_size }
+-- p_duration NULL = any duration setting
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION get_generation_duration_stats(
+    p_model_id UUID,
+    p_duration INTEGER DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    v_stats RECORD;
+BEGIN
+    SELECT
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY seconds) AS median_seconds,
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY seconds) AS p90_seconds,
+        COUNT(*) AS sample_size
+    INTO v_stats
+    FROM (
+        SELECT EXTRACT(EPOCH FROM (completed_at - created_at)) AS seconds
+        FROM video_jobs
+        WHERE status = 'completed'
+        AND COALESCE(executed_model_id, model_id) = p_model_id
+        AND (p_duration IS NULL OR duration_seconds = p_duration)
+        AND completed_at IS NOT NULL
+        AND completed_at > now() - INTERVAL '30 days'
+        ORDER BY completed_at DESC
+        LIMIT 100
+    ) recent;
+
+    RETURN jsonb_build_object(
+        'median_seconds', ROUND(COALESCE(v_stats.median_seconds, 0)::NUMERIC),
+        'p90_seconds', ROUND(COALESCE(v_stats.p90_seconds, 0)::NUMERIC),
+        'sample_size', v_stats.sample_size
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION get_generation_duration_stats(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_generation_duration_stats(UUID, INTEGER) TO service_role;
+
+-- =====================================================
+-- Success Summary
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Generation duration stats installed';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '';
+    RAISE NOTICE '📊 Function: get_generation_duration_stats(model_id, duration)';
+    RAISE NOTICE '📋 Index: idx_video_jobs_completed_duration';
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+END $$;
@@ -0,0 +1,215 @@
+-- Migration: Per-provider circuit breaker
+-- Version: 1.0
+-- Date: 2025-11-16
+-- Purpose: Stop charging, submitting and refunding while a provider is down
+--
+-- CHANGES:
+-- 1. provider_health: one row per provider (circuit state + rolling error rate)
+-- 2. check_provider_circuit: may a request go to this provider right now?
+-- 3. record_provider_result: count a submission success/failure, open/close the circuit
+--
+-- STATES:
+-- - closed:    requests flow; opens when the error rate over the window reaches
+--              the threshold (after a minimum number of requests)
+-- - open:      requests are rejected until the cooldown has passed
+-- - half_open: one probe request is let through; success closes, failure reopens
+--
+-- NOTES:
+-- - Thresholds are passed by the caller (_shared/provider-circuit.ts)
+-- - Only provider-side failures are recorded; request errors (4xx) say
+--   nothing about provider health
+
+-- =====================================================
+-- Step 1: Table provider_health
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS provider_health (
+    provider TEXT PRIMARY KEY,
+    state TEXT NOT NULL DEFAULT 'closed' CHECK (state IN ('closed', 'open', 'half_open')),
+    window_started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    window_requests INTEGER NOT NULL DEFAULT 0,
+    window_failures INTEGER NOT NULL DEFAULT 0,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    opened_at TIMESTAMPTZ,
+    probe_started_at TIMESTAMPTZ,
+    last_failure_at TIMESTAMPTZ,
+    last_failure_message TEXT,
+    last_success_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Service role only (read through the provider-health function)
+ALTER TABLE provider_health ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- Step 2: Function check_provider_circuit
+-- Returns: JSONB { allowed, state, retry_after_seconds }
+-- p_claim_probe = false only peeks (no half-open probe is taken)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION check_provider_circuit(
+    p_provider TEXT,
+    p_cooldown_seconds INTEGER DEFAULT 60,
+    p_claim_probe BOOLEAN DEFAULT TRUE
+) RETURNS JSONB AS $$
+DECLARE
+    v_health provider_health%ROWTYPE;
+    v_cooldown INTERVAL := make_interval(secs => p_cooldown_seconds);
+    v_retry_after INTEGER;
+BEGIN
+    SELECT * INTO v_health
+    FROM provider_health
+    WHERE provider = p_provider
+    FOR UPDATE;
+
+    -- Never failed: closed
+    IF NOT FOUND OR v_health.state = 'closed' THEN
+        RETURN jsonb_build_object('allowed', true, 'state', 'closed');
+    END IF;
+
+    -- Open and still cooling down
+    IF v_health.state = 'open' AND v_health.opened_at + v_cooldown > now() THEN
+        v_retry_after := CEIL(EXTRACT(EPOCH FROM (v_health.opened_at + v_cooldown - now())))::INTEGER;
+        RETURN jsonb_build_object('allowed', false, 'state', 'open', 'retry_after_seconds', GREATEST(v_retry_after, 1));
+    END IF;
+
+    -- Half-open with a probe in flight (a probe that never reported expires after the cooldown)
+    IF v_health.state = 'half_open' AND v_health.probe_started_at + v_cooldown > now() THEN
+        v_retry_after := CEIL(EXTRACT(EPOCH FROM (v_health.probe_started_at + v_cooldown - now())))::INTEGER;
+        RETURN jsonb_build_object('allowed', false, 'state', 'half_open', 'retry_after_seconds', GREATEST(v_retry_after, 1));
+    END IF;
+
+    -- Cooldown over: this request becomes the probe
+    IF p_claim_probe THEN
+        UPDATE provider_health
+        SET state = 'half_open',
+            probe_started_at = now(),
+            updated_at = now()
+        WHERE provider = p_provider;
+    END IF;
+
+    RETURN jsonb_build_object('allowed', true, 'state', 'half_open');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- Step 3: Function record_provider_result
+-- Returns: JSONB { state, previous_state, error_rate, window_requests, window_failures }
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION record_provider_result(
+    p_provider TEXT,
+    p_success BOOLEAN,
+    p_error_message TEXT DEFAULT NULL,
+    p_window_seconds INTEGER DEFAULT 300,
+    p_min_requests INTEGER DEFAULT 5,
+    p_failure_threshold NUMERIC DEFAULT 0.5
+) RETURNS JSONB AS $$
+DECLARE
+    v_health provider_health%ROWTYPE;
+    v_previous_state TEXT;
+    v_new_state TEXT;
+    v_error_rate NUMERIC;
+BEGIN
+    INSERT INTO provider_health (provider)
+    VALUES (p_provider)
+    ON CONFLICT (provider) DO NOTHING;
+
+    SELECT * INTO v_health
+    FROM provider_health
+    WHERE provider = p_provider
+    FOR UPDATE;
+
+    v_previous_state := v_health.state;
+
+    -- Start a new window once the old one has expired
+    IF v_health.window_started_at + make_interval(secs => p_window_seconds) < now() THEN
+        v_health.window_started_at := now();
+        v_health.window_requests := 0;
+        v_health.window_failures := 0;
+    END IF;
+
+    v_health.window_requests := v_health.window_requests + 1;
+
+    IF p_success THEN
+        v_health.consecutive_failures := 0;
+        v_health.last_success_at := now();
+        -- A successful probe closes the circuit; a late success from a request
+        -- sent before it opened doesn't cut the cooldown short
+        v_new_state := CASE WHEN v_health.state = 'open' THEN 'open' ELSE 'closed' END;
+    ELSE
+        v_health.window_failures := v_health.window_failures + 1;
+        v_health.consecutive_failures := v_health.consecutive_failures + 1;
+        v_health.last_failure_at := now();
+        v_health.last_failure_message := LEFT(p_error_message, 500);
+        v_new_state := v_health.state;
+    END IF;
+
+    v_error_rate := v_health.window_failures::NUMERIC / v_health.window_requests;
+
+    IF NOT p_success THEN
+        IF v_health.state = 'half_open' THEN
+            v_new_state := 'open';
+        ELSIF v_health.state = 'closed'
+              AND v_health.window_requests >= p_min_requests
+              AND v_error_rate >= p_failure_threshold THEN
+            v_new_state := 'open';
+        END IF;
+    END IF;
+
+    IF v_new_state = 'closed' AND v_previous_state != 'closed' THEN
+        -- Fresh window so the failures that opened the circuit don't reopen it
+        v_health.window_started_at := now();
+        v_health.window_requests := 1;
+        v_health.window_failures := 0;
+        v_error_rate := 0;
+    END IF;
+
+    UPDATE provider_health
+    SET state = v_new_state,
+        window_started_at = v_health.window_started_at,
+        window_requests = v_health.window_requests,
+        window_failures = v_health.window_failures,
+        consecutive_failures = v_health.consecutive_failures,
+        opened_at = CASE WHEN v_new_state = 'open' AND v_previous_state != 'open' THEN now()
+                         WHEN v_new_state = 'closed' THEN NULL
+                         ELSE opened_at END,
+        probe_started_at = CASE WHEN v_new_state = 'half_open' THEN probe_started_at ELSE NULL END,
+        last_failure_at = v_health.last_failure_at,
+        last_failure_message = v_health.last_failure_message,
+        last_success_at = v_health.last_success_at,
+        updated_at = now()
+    WHERE provider = p_provider;
+
+    RETURN jsonb_build_object(
+        'state', v_new_state,
+        'previous_state', v_previous_state,
+        'error_rate', ROUND(v_error_rate, 3),
+        'window_requests', v_health.window_requests,
+        'window_failures', v_health.window_failures
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Called by edge functions only
+REVOKE EXECUTE ON FUNCTION check_provider_circuit(TEXT, INTEGER, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_provider_circuit(TEXT, INTEGER, BOOLEAN) TO service_role;
+REVOKE EXECUTE ON FUNCTION record_provider_result(TEXT, BOOLEAN, TEXT, INTEGER, INTEGER, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_provider_result(TEXT, BOOLEAN, TEXT, INTEGER, INTEGER, NUMERIC) TO service_role;
+
+-- =====================================================
+-- Success Summary
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Provider circuit breaker installed';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '';
+    RAISE NOTICE '📋 Table: provider_health (closed / open / half_open)';
+    RAISE NOTICE '🔒 Functions: check_provider_circuit, record_provider_result';
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+END $$;
@@ -0,0 +1,69 @@
+-- Migration: Per-model provider endpoint paths
+-- Version: 1.0
+-- Date: 2025-11-16
+-- Purpose: Let each model declare its provider URL path templates instead of
+--          the FalAI adapter guessing them from the model id
+--
+-- CHANGES:
+-- 1. models.endpoint_paths: { submit, submit_text_to_video, status, result, cancel } path templates
+--    (NULL or missing keys = adapter defaults, see DEFAULT_FALAI_ENDPOINT_PATHS)
+-- 2. video_jobs.provider_endpoint_paths: templates of the model that ran the job,
+--    recorded at submission like provider/provider_model_id
+--
+-- NOTES:
+-- - Placeholders: {model_id}, {app_id} (owner/app), {request_id}
+-- - submit is the image_to_video endpoint, submit_text_to_video the text_to_video one
+--   (default {app_id}/text-to-video; replaces the sibling-id rule from 20251116000011).
+--   Models whose text-to-video endpoint is elsewhere declare it, e.g.
+--   '{"submit_text_to_video": "fal-ai/sora-2/text-to-video/pro"}'
+-- - Relative templates are resolved against https://queue.fal.run
+-- - Example (FalAI app whose queue lives under the full endpoint id):
+--   UPDATE models SET endpoint_paths = '{"status": "{model_id}/requests/{request_id}/status"}'
+--   WHERE provider_model_id = '...';
+
+-- =====================================================
+-- Step 1: models.endpoint_paths
+-- =====================================================
+
+ALTER TABLE models
+ADD COLUMN IF NOT EXISTS endpoint_paths JSONB;
+
+ALTER TABLE models
+DROP CONSTRAINT IF EXISTS models_endpoint_paths_check;
+
+ALTER TABLE models
+ADD CONSTRAINT models_endpoint_paths_check
+    CHECK (
+        endpoint_paths IS NULL
+        OR (
+            jsonb_typeof(endpoint_paths) = 'object'
+            AND endpoint_paths - ARRAY['submit', 'submit_text_to_video', 'status', 'result', 'cancel'] = '{}'::jsonb
+        )
+    );
+
+COMMENT ON COLUMN models.endpoint_paths IS
+    'Provider URL path templates {submit, submit_text_to_video, status, result, cancel}; placeholders {model_id}, {app_id}, {request_id}. NULL = adapter defaults';
+
+-- =====================================================
+-- Step 2: video_jobs.provider_endpoint_paths
+-- =====================================================
+
+ALTER TABLE video_jobs
+ADD COLUMN IF NOT EXISTS provider_endpoint_paths JSONB;
+
+-- =====================================================
+-- Success Summary
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Model endpoint paths installed';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+    RAISE NOTICE '';
+    RAISE NOTICE '📋 Column: models.endpoint_paths (submit / submit_text_to_video / status / result / cancel templates)';
+    RAISE NOTICE '📋 Column: video_jobs.provider_endpoint_paths (snapshot at submission)';
+    RAISE NOTICE '';
+    RAISE NOTICE '═══════════════════════════════════════════════════════';
+END $$;
@@ -0,0 +1,223 @@
+/**
+ * Local fake of the App Store Server API (production + sandbox)
+ *
+ * Usage: deno run --allow-net fake-app-store-api.ts [port]   (default 8791, sandbox on port + 1)
+ *
+ * Implements just what apple-iap-verifier.ts uses:
+ * - GET /inApps/v1/transactions/{transactionId} → { signedTransactionInfo }
+ * - GET /fake/root-sha256                        → fingerprint to put in APPLE_ROOT_CA_SHA256
+ *
+ * On startup it generates a self-signed root → intermediate → leaf chain carrying
+ * Apple's marker extensions, plus a second "untrusted" chain built the same way.
+ * Transactions are signed with ES256 and that chain in x5c, like Apple does.
+ *
+ * Scripted by transaction id:
+ * - 2000000000000001 → valid, production
+ * - 2000000000000002 → valid, sandbox only (production answers 404)
+ * - 2000000000000003 → forged: trusted chain, signed with a key that isn't the leaf's
+ * - 2000000000000004 → signed by the untrusted root
+ * - 2000000000000005 → bundleId com.example.other
+ * - 2000000000000006 → refunded (revocationDate + revocationReason)
+ * - anything else    → 404 TransactionIdNotFoundError in both environments
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import * as x509 from 'https://esm.sh/@peculiar/x509@1'
+
+x509.cryptoProvider.set(crypto)
+
+// Same marker extensions Apple puts on App Store signing certificates (see apple-jws.ts)
+const APPLE_LEAF_MARKER_OID = '1.2.840.113635.100.6.11.1'
+const APPLE_INTERMEDIATE_MARKER_OID = '1.2.840.113635.100.6.2.1'
+
+const ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256', hash: 'SHA-256' }
+const DER_NULL = new Uint8Array([0x05, 0x00])
+
+type Environment = 'Production' | 'Sandbox'
+
+interface Scenario {
+  environments: Environment[]
+  chain: 'trusted' | 'untrusted'
+  forged?: boolean
+  bundleId?: string
+  revoked?: boolean
+}
+
+const SCENARIOS: Record<string, Scenario> = {
+  '2000000000000001': { environments: ['Production'], chain: 'trusted' },
+  '2000000000000002': { environments: ['Sandbox'], chain: 'trusted' },
+  '2000000000000003': { environments: ['Production'], chain: 'trusted', forged: true },
+  '2000000000000004': { environments: ['Production'], chain: 'untrusted' },
+  '2000000000000005': { environments: ['Production'], chain: 'trusted', bundleId: 'com.example.other' },
+  '2000000000000006': { environments: ['Production'], chain: 'trusted', revoked: true }
+}
+
+interface SigningChain {
+  x5c: string[]
+  leafKey: CryptoKey
+  rootSha256: string
+}
+
+function base64(bytes: ArrayBuffer | Uint8Array): string {
+  return btoa(Array.from(new Uint8Array(bytes)).map((b) => String.fromCharCode(b)).join(''))
+}
+
+function base64Url(bytes: ArrayBuffer | Uint8Array): string {
+  return base64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '')
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer)).map((b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+async function createChain(name: string): Promise<SigningChain> {
+  const notBefore = new Date(Date.now() - 24 * 60 * 60 * 1000)
+  const notAfter = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000)
+
+  const rootKeys = await crypto.subtle.generateKey(ALGORITHM, true, ['sign', 'verify'])
+  const root = await x509.X509CertificateGenerator.createSelfSigned({
+    serialNumber: '01',
+    name: `CN=${name} Root CA, O=RendioAI Tests`,
+    notBefore,
+    notAfter,
+    keys: rootKeys,
+    signingAlgorithm: ALGORITHM,
+    extensions: [new x509.BasicConstraintsExtension(true, undefined, true)]
+  })
+
+  const intermediateKeys = await crypto.subtle.generateKey(ALGORITHM, true, ['sign', 'verify'])
+  const intermediate = await x509.X509CertificateGenerator.create({
+    serialNumber: '02',
+    subject: `CN=${name} WWDR, O=RendioAI Tests`,
+    issuer: root.subject,
+    notBefore,
+    notAfter,
+    publicKey: intermediateKeys.publicKey,
+    signingKey: rootKeys.privateKey,
+    signingAlgorithm: ALGORITHM,
+    extensions: [
+      new x509.BasicConstraintsExtension(true, 0, true),
+      new x509.Extension(APPLE_INTERMEDIATE_MARKER_OID, false, DER_NULL)
+    ]
+  })
+
+  const leafKeys = await crypto.subtle.generateKey(ALGORITHM, true, ['sign', 'verify'])
+  const leaf = await x509.X509CertificateGenerator.create({
+    serialNumber: '03',
+    subject: `CN=${name} App Store Signing, O=RendioAI Tests`,
+    issuer: intermediate.subject,
+    notBefore,
+    notAfter,
+    publicKey: leafKeys.publicKey,
+    signingKey: intermediateKeys.privateKey,
+    signingAlgorithm: ALGORITHM,
+    extensions: [
+      new x509.BasicConstraintsExtension(false, undefined, true),
+      new x509.Extension(APPLE_LEAF_MARKER_OID, false, DER_NULL)
+    ]
+  })
+
+  return {
+    x5c: [leaf, intermediate, root].map((cert) => base64(cert.rawData)),
+    leafKey: leafKeys.privateKey,
+    rootSha256: toHex(await root.getThumbprint('SHA-256'))
+  }
+}
+
+async function signJWS(payload: unknown, chain: SigningChain, signingKey: CryptoKey): Promise<string> {
+  const encoder = new TextEncoder()
+  const header = base64Url(encoder.encode(JSON.stringify({ alg: 'ES256', x5c: chain.x5c })))
+  const body = base64Url(encoder.encode(JSON.stringify(payload)))
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    signingKey,
+    encoder.encode(`${header}.${body}`)
+  )
+  return `${header}.${body}.${base64Url(signature)}`
+}
+
+/**
+ * Bundle id the caller's App Store Server API token was issued for
+ * Only the claims are checked - the fake has no way to know the caller's key.
+ */
+function tokenBundleId(req: Request): string | null {
+  const token = req.headers.get('Authorization')?.match(/^Bearer (.+)$/)?.[1]
+  const [header, payload] = token?.split('.') ?? []
+  try {
+    const decode = (segment: string) => JSON.parse(atob(segment.replace(/-/g, '+').replace(/_/g, '/')))
+    const claims = decode(payload)
+    if (decode(header).alg !== 'ES256' || claims.aud !== 'appstoreconnect-v1' || !claims.bid) {
+      return null
+    }
+    return claims.bid
+  } catch {
+    return null
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
+
+const trustedChain = await createChain('Fake Apple')
+const untrustedChain = await createChain('Untrusted')
+const forgeryKeys = await crypto.subtle.generateKey(ALGORITHM, true, ['sign', 'verify'])
+
+function handler(environment: Environment) {
+  return async (req: Request): Promise<Response> => {
+    const url = new URL(req.url)
+
+    if (req.method === 'GET' && url.pathname === '/fake/root-sha256') {
+      return new Response(trustedChain.rootSha256)
+    }
+
+    const bundleId = tokenBundleId(req)
+    if (!bundleId) {
+      return new Response('Unauthenticated', { status: 401 })
+    }
+
+    const match = url.pathname.match(/^\/inApps\/v1\/transactions\/([^/]+)$/)
+    if (req.method !== 'GET' || !match) {
+      return json({ errorCode: 4040000, errorMessage: 'Not found' }, 404)
+    }
+
+    const transactionId = decodeURIComponent(match[1])
+    const scenario = SCENARIOS[transactionId]
+    if (!scenario || !scenario.environments.includes(environment)) {
+      console.log(`[fake-app-store:${environment}] ${transactionId} → 404`)
+      return json({ errorCode: 4040010, errorMessage: 'Transaction id not found.' }, 404)
+    }
+
+    const now = Date.now()
+    const payload = {
+      transactionId,
+      originalTransactionId: transactionId,
+      bundleId: scenario.bundleId ?? bundleId,
+      productId: 'com.rendio.credits.10',
+      purchaseDate: now - 60_000,
+      originalPurchaseDate: now - 60_000,
+      quantity: 1,
+      type: 'Consumable',
+      inAppOwnershipType: 'PURCHASED',
+      environment,
+      signedDate: now,
+      ...(scenario.revoked ? { revocationDate: now - 1_000, revocationReason: 0 } : {})
+    }
+
+    const chain = scenario.chain === 'trusted' ? trustedChain : untrustedChain
+    const signingKey = scenario.forged ? forgeryKeys.privateKey : chain.leafKey
+    console.log(`[fake-app-store:${environment}] ${transactionId} → 200`)
+    return json({ signedTransactionInfo: await signJWS(payload, chain, signingKey) })
+  }
+}
+
+const port = Number(Deno.args[0] ?? 8791)
+
+console.log(`[fake-app-store] production http://localhost:${port}, sandbox http://localhost:${port + 1}`)
+console.log(`[fake-app-store] APPLE_ROOT_CA_SHA256=${trustedChain.rootSha256}`)
+
+serve(handler('Production'), { port })
+serve(handler('Sandbox'), { port: port + 1 })
@@ -0,0 +1,110 @@
+/**
+ * FalAI endpoint path resolution test (no network)
+ *
+ * Usage:
+ *   deno run --allow-env endpoint-paths-test.ts
+ */
+
+import {
+  getFalAIAppId,
+  getFalAIEndpointUrl
+} from '../../RendioAI/supabase/functions/_shared/falai-adapter.ts'
+
+const REQUEST_ID = '764cabcf-b745-4b3e-ae38-1200304cf45b'
+
+let failures = 0
+
+function check(name: string, actual: unknown, expected: unknown) {
+  const ok = actual === expected
+  console.log(`${ok ? '✅' : '❌'} ${name}`, ok ? '' : { actual, expected })
+  if (!ok) failures++
+}
+
+// 1. App id is owner/app whatever the endpoint shape
+const appIds: Array<[string, string]> = [
+  ['fal-ai/sora-2/image-to-video', 'fal-ai/sora-2'],
+  ['fal-ai/sora-2/text-to-video', 'fal-ai/sora-2'],
+  ['fal-ai/sora-2/image-to-video/pro', 'fal-ai/sora-2'],
+  ['fal-ai/kling-video/v2.1/pro/image-to-video', 'fal-ai/kling-video'],
+  ['fal-ai/minimax/hailuo-02/standard/image-to-video', 'fal-ai/minimax'],
+  ['fal-ai/veo3', 'fal-ai/veo3'],
+  ['fal-ai/veo3/fast/image-to-video', 'fal-ai/veo3']
+]
+for (const [modelId, appId] of appIds) {
+  check(`app id of ${modelId}`, getFalAIAppId(modelId), appId)
+}
+
+// 2. Text-to-video submit endpoints (default, then declared per model)
+check('t2v submit (sora-2)',
+  getFalAIEndpointUrl('submit_text_to_video', 'fal-ai/sora-2/image-to-video'),
+  'https://queue.fal.run/fal-ai/sora-2/text-to-video')
+check('t2v submit (sora-2 pro, declared)',
+  getFalAIEndpointUrl('submit_text_to_video', 'fal-ai/sora-2/image-to-video/pro', undefined, {
+    submit_text_to_video: 'fal-ai/sora-2/text-to-video/pro'
+  }),
+  'https://queue.fal.run/fal-ai/sora-2/text-to-video/pro')
+check('t2v submit (kling, declared)',
+  getFalAIEndpointUrl('submit_text_to_video', 'fal-ai/kling-video/v2.1/pro/image-to-video', undefined, {
+    submit_text_to_video: '{app_id}/v2.1/pro/text-to-video'
+  }),
+  'https://queue.fal.run/fal-ai/kling-video/v2.1/pro/text-to-video')
+check('t2v submit (text-only model, declared)',
+  getFalAIEndpointUrl('submit_text_to_video', 'fal-ai/veo3', undefined, { submit_text_to_video: '{model_id}' }),
+  'https://queue.fal.run/fal-ai/veo3')
+check('t2v override keeps the i2v submit',
+  getFalAIEndpointUrl('submit', 'fal-ai/veo3', undefined, { submit_text_to_video: 'fal-ai/veo3/text' }),
+  'https://queue.fal.run/fal-ai/veo3')
+
+// 3. Default templates
+check('submit (sora-2 i2v)',
+  getFalAIEndpointUrl('submit', 'fal-ai/sora-2/image-to-video'),
+  'https://queue.fal.run/fal-ai/sora-2/image-to-video')
+check('submit (kling pro)',
+  getFalAIEndpointUrl('submit', 'fal-ai/kling-video/v2.1/pro/image-to-video'),
+  'https://queue.fal.run/fal-ai/kling-video/v2.1/pro/image-to-video')
+check('status (sora-2 i2v)',
+  getFalAIEndpointUrl('status', 'fal-ai/sora-2/image-to-video', REQUEST_ID),
+  `https://queue.fal.run/fal-ai/sora-2/requests/${REQUEST_ID}/status`)
+check('status (sora-2 t2v)',
+  getFalAIEndpointUrl('status', 'fal-ai/sora-2/text-to-video', REQUEST_ID),
+  `https://queue.fal.run/fal-ai/sora-2/requests/${REQUEST_ID}/status`)
+check('result (sora-2 pro)',
+  getFalAIEndpointUrl('result', 'fal-ai/sora-2/image-to-video/pro', REQUEST_ID),
+  `https://queue.fal.run/fal-ai/sora-2/requests/${REQUEST_ID}/response`)
+check('cancel (minimax)',
+  getFalAIEndpointUrl('cancel', 'fal-ai/minimax/hailuo-02/standard/image-to-video', REQUEST_ID),
+  `https://queue.fal.run/fal-ai/minimax/requests/${REQUEST_ID}/cancel`)
+
+// 4. Model overrides (missing keys keep the defaults)
+const overrides = {
+  status: '{model_id}/requests/{request_id}/status',
+  result: 'https://queue.example.com/{app_id}/requests/{request_id}'
+}
+check('override status',
+  getFalAIEndpointUrl('status', 'fal-ai/veo3/fast/image-to-video', REQUEST_ID, overrides),
+  `https://queue.fal.run/fal-ai/veo3/fast/image-to-video/requests/${REQUEST_ID}/status`)
+check('override result (absolute)',
+  getFalAIEndpointUrl('result', 'fal-ai/veo3/fast/image-to-video', REQUEST_ID, overrides),
+  `https://queue.example.com/fal-ai/veo3/requests/${REQUEST_ID}`)
+check('override falls back per key',
+  getFalAIEndpointUrl('cancel', 'fal-ai/veo3/fast/image-to-video', REQUEST_ID, overrides),
+  `https://queue.fal.run/fal-ai/veo3/requests/${REQUEST_ID}/cancel`)
+check('leading slash tolerated',
+  getFalAIEndpointUrl('submit', 'fal-ai/veo3', undefined, { submit: '/{model_id}' }),
+  'https://queue.fal.run/fal-ai/veo3')
+
+// 5. Unresolvable placeholders are rejected
+for (const [name, run] of [
+  ['unknown placeholder', () => getFalAIEndpointUrl('status', 'fal-ai/veo3', REQUEST_ID, { status: '{app}/requests/{request_id}' })],
+  ['request_id in submit', () => getFalAIEndpointUrl('submit', 'fal-ai/veo3', undefined, { submit: '{model_id}/{request_id}' })]
+] as Array<[string, () => string]>) {
+  try {
+    run()
+    check(`${name} rejected`, false, true)
+  } catch (error) {
+    check(`${name} rejected`, error.message.includes('has no value'), true)
+  }
+}
+
+console.log(failures === 0 ? '\n🎉 All checks passed' : `\n💥 ${failures} check(s) failed`)
+Deno.exit(failures === 0 ? 0 : 1)
@@ -24,6 +24,14 @@ if [ -z "$ANON_KEY" ]; then
     exit 1
 fi
 
+# Check if ACCESS_TOKEN is provided (user session token, e.g. from device-check)
+if [ -z "$ACCESS_TOKEN" ]; then
+    echo -e "${RED}❌ ERROR: ACCESS_TOKEN environment variable is required${NC}"
+    echo "The endpoint resolves the user from the access token, not from user_id."
+    echo "Get one from the device-check response (access_token field)."
+    exit 1
+fi
+
 # Check if test data is provided
 if [ -z "$USER_ID" ] || [ -z "$THEME_ID" ]; then
     echo -e "${YELLOW}⚠️  WARNING: USER_ID and/or THEME_ID not provided${NC}"
@@ -97,7 +105,8 @@ IDEMPOTENCY_KEY_1=$(uuidgen 2>/dev/null || python3 -c "import uuid; print(uuid.u
 
 curl_cmd="curl -s -w '\nHTTP_STATUS:%{http_code}' -X POST '$FUNCTION_URL' \
   -H 'Content-Type: application/json' \
-  -H 'Authorization: Bearer $ANON_KEY' \
+  -H 'apikey: $ANON_KEY' \
+  -H 'Authorization: Bearer $ACCESS_TOKEN' \
   -H 'Idempotency-Key: $IDEMPOTENCY_KEY_1' \
   -d '{
     \"user_id\": \"$USER_ID\",
@@ -125,7 +134,8 @@ IDEMPOTENCY_KEY_4A=$(uuidgen 2>/dev/null || python3 -c "import uuid; print(uuid.
 
 curl_cmd_4a="curl -s -w '\nHTTP_STATUS:%{http_code}' -X POST '$FUNCTION_URL' \
   -H 'Content-Type: application/json' \
-  -H 'Authorization: Bearer $ANON_KEY' \
+  -H 'apikey: $ANON_KEY' \
+  -H 'Authorization: Bearer $ACCESS_TOKEN' \
   -H 'Idempotency-Key: $IDEMPOTENCY_KEY_4A' \
   -d '{
     \"user_id\": \"$USER_ID\",
@@ -144,7 +154,8 @@ IDEMPOTENCY_KEY_4B=$(uuidgen 2>/dev/null || python3 -c "import uuid; print(uuid.
 
 curl_cmd_4b="curl -s -w '\nHTTP_STATUS:%{http_code}' -X POST '$FUNCTION_URL' \
   -H 'Content-Type: application/json' \
-  -H 'Authorization: Bearer $ANON_KEY' \
+  -H 'apikey: $ANON_KEY' \
+  -H 'Authorization: Bearer $ACCESS_TOKEN' \
   -H 'Idempotency-Key: $IDEMPOTENCY_KEY_4B' \
   -d '{
     \"user_id\": \"$USER_ID\",
@@ -162,7 +173,7 @@ echo -e "\n${GREEN}════════════════════
 echo -e "${GREEN}TEST CASE 5: Validation Tests${NC}"
 echo -e "${GREEN}═══════════════════════════════════════${NC}"
 
-# Test 5a: Missing user_id
+# Test 5a: Anon key instead of a user access token
 IDEMPOTENCY_KEY_5A=$(uuidgen 2>/dev/null || python3 -c "import uuid; print(uuid.uuid4())" 2>/dev/null || echo "test-5a-$(date +%s)")
 
 curl_cmd_5a="curl -s -w '\nHTTP_STATUS:%{http_code}' -X POST '$FUNCTION_URL' \
@@ -175,14 +186,32 @@ curl_cmd_5a="curl -s -w '\nHTTP_STATUS:%{http_code}' -X POST '$FUNCTION_URL' \
     \"image_url\": \"$IMAGE_URL\"
   }'"
 
-run_test "Test Case 5a: Missing user_id" "400" "$curl_cmd_5a" "Missing required fields"
+run_test "Test Case 5a: No user session" "401" "$curl_cmd_5a" "Invalid or expired token"
+
+# Test 5a2: user_id that doesn't belong to the caller
+IDEMPOTENCY_KEY_5A2=$(uuidgen 2>/dev/null || python3 -c "import uuid; print(uuid.uuid4())" 2>/dev/null || echo "test-5a2-$(date +%s)")
+
+curl_cmd_5a2="curl -s -w '\nHTTP_STATUS:%{http_code}' -X POST '$FUNCTION_URL' \
+  -H 'Content-Type: application/json' \
+  -H 'apikey: $ANON_KEY' \
+  -H 'Authorization: Bearer $ACCESS_TOKEN' \
+  -H 'Idempotency-Key: $IDEMPOTENCY_KEY_5A2' \
+  -d '{
+    \"user_id\": \"00000000-0000-0000-0000-000000000000\",
+    \"theme_id\": \"$THEME_ID\",
+    \"prompt\": \"Test prompt\",
+    \"image_url\": \"$IMAGE_URL\"
+  }'"
+
+run_test "Test Case 5a2: Mismatched user_id" "403" "$curl_cmd_5a2" "does not match"
 
 # Test 5b: Missing theme_id
 IDEMPOTENCY_KEY_5B=$(uuidgen 2>/dev/null || python3 -c "import uuid; print(uuid.uuid4())" 2>/dev/null || echo "test-5b-$(date +%s)")
 
 curl_cmd_5b="curl -s -w '\nHTTP_STATUS:%{http_code}' -X POST '$FUNCTION_URL' \
   -H 'Content-Type: application/json' \
-  -H 'Authorization: Bearer $ANON_KEY' \
+  -H 'apikey: $ANON_KEY' \
+  -H 'Authorization: Bearer $ACCESS_TOKEN' \
   -H 'Idempotency-Key: $IDEMPOTENCY_KEY_5B' \
   -d '{
     \"user_id\": \"$USER_ID\",
@@ -197,7 +226,8 @@ IDEMPOTENCY_KEY_5C=$(uuidgen 2>/dev/null || python3 -c "import uuid; print(uuid.
 
 curl_cmd_5c="curl -s -w '\nHTTP_STATUS:%{http_code}' -X POST '$FUNCTION_URL' \
   -H 'Content-Type: application/json' \
-  -H 'Authorization: Bearer $ANON_KEY' \
+  -H 'apikey: $ANON_KEY' \
+  -H 'Authorization: Bearer $ACCESS_TOKEN' \
   -H 'Idempotency-Key: $IDEMPOTENCY_KEY_5C' \
   -d '{
     \"user_id\": \"$USER_ID\",
@@ -212,7 +242,8 @@ IDEMPOTENCY_KEY_5D=$(uuidgen 2>/dev/null || python3 -c "import uuid; print(uuid.
 
 curl_cmd_5d="curl -s -w '\nHTTP_STATUS:%{http_code}' -X POST '$FUNCTION_URL' \
   -H 'Content-Type: application/json' \
-  -H 'Authorization: Bearer $ANON_KEY' \
+  -H 'apikey: $ANON_KEY' \
+  -H 'Authorization: Bearer $ACCESS_TOKEN' \
   -H 'Idempotency-Key: $IDEMPOTENCY_KEY_5D' \
   -d '{
     \"user_id\": \"$USER_ID\",
@@ -227,7 +258,8 @@ IDEMPOTENCY_KEY_5E=$(uuidgen 2>/dev/null || python3 -c "import uuid; print(uuid.
 
 curl_cmd_5e="curl -s -w '\nHTTP_STATUS:%{http_code}' -X POST '$FUNCTION_URL' \
   -H 'Content-Type: application/json' \
-  -H 'Authorization: Bearer $ANON_KEY' \
+  -H 'apikey: $ANON_KEY' \
+  -H 'Authorization: Bearer $ACCESS_TOKEN' \
   -H 'Idempotency-Key: $IDEMPOTENCY_KEY_5E' \
   -d '{
     \"user_id\": \"$USER_ID\",
@@ -244,7 +276,8 @@ run_test "Test Case 5e: Invalid duration" "400" "$curl_cmd_5e" "Invalid duration
 # Test 5f: Missing Idempotency-Key
 curl_cmd_5f="curl -s -w '\nHTTP_STATUS:%{http_code}' -X POST '$FUNCTION_URL' \
   -H 'Content-Type: application/json' \
-  -H 'Authorization: Bearer $ANON_KEY' \
+  -H 'apikey: $ANON_KEY' \
+  -H 'Authorization: Bearer $ACCESS_TOKEN' \
   -d '{
     \"user_id\": \"$USER_ID\",
     \"theme_id\": \"$THEME_ID\",
@@ -256,7 +289,8 @@ run_test "Test Case 5f: Missing Idempotency-Key" "400" "$curl_cmd_5f" "Idempoten
 
 # Test 5g: Wrong HTTP method
 curl_cmd_5g="curl -s -w '\nHTTP_STATUS:%{http_code}' -X GET '$FUNCTION_URL' \
-  -H 'Authorization: Bearer $ANON_KEY'"
+  -H 'apikey: $ANON_KEY' \
+  -H 'Authorization: Bearer $ACCESS_TOKEN'"
 
 run_test "Test Case 5g: Wrong HTTP method" "405" "$curl_cmd_5g" "Method not allowed"
 
@@ -270,7 +304,8 @@ echo "Step 1: First request with idempotency key: $IDEMPOTENCY_KEY_7"
 
 curl_cmd_7a="curl -s -w '\nHTTP_STATUS:%{http_code}' -X POST '$FUNCTION_URL' \
   -H 'Content-Type: application/json' \
-  -H 'Authorization: Bearer $ANON_KEY' \
+  -H 'apikey: $ANON_KEY' \
+  -H 'Authorization: Bearer $ACCESS_TOKEN' \
   -H 'Idempotency-Key: $IDEMPOTENCY_KEY_7' \
   -d '{
     \"user_id\": \"$USER_ID\",
@@ -285,7 +320,8 @@ echo "Step 2: Duplicate request (same idempotency key)"
 
 curl_cmd_7b="curl -s -w '\nHTTP_STATUS:%{http_code}' -X POST '$FUNCTION_URL' \
   -H 'Content-Type: application/json' \
-  -H 'Authorization: Bearer $ANON_KEY' \
+  -H 'apikey: $ANON_KEY' \
+  -H 'Authorization: Bearer $ACCESS_TOKEN' \
   -H 'Idempotency-Key: $IDEMPOTENCY_KEY_7' \
   -d '{
     \"user_id\": \"$USER_ID\",
@@ -0,0 +1,123 @@
+/**
+ * Mock provider scenario test (no network, no database)
+ *
+ * Usage:
+ *   deno run --allow-env scenarios-test.ts
+ *
+ * Statuses are computed with getMockStatus(requestId, now), so every timeline
+ * below is checked at exact points in time. Timings are fixed by the test.
+ */
+
+import {
+  getMockScenario,
+  getMockStatus,
+  mockProvider
+} from '../../RendioAI/supabase/functions/_shared/mock-provider.ts'
+import { ProviderError } from '../../RendioAI/supabase/functions/_shared/video-provider.ts'
+
+const VIDEO_URL = 'https://example.com/mock/sample.mp4'
+const SUBMITTED_AT = 1_700_000_000_000
+
+Deno.env.set('MOCK_PROVIDER_ENABLED', 'true')
+Deno.env.set('MOCK_PROVIDER_QUEUE_MS', '2000')
+Deno.env.set('MOCK_PROVIDER_PROCESSING_MS', '5000')
+Deno.env.set('MOCK_PROVIDER_SLOW_MS', '120000')
+Deno.env.set('MOCK_PROVIDER_VIDEO_URL', VIDEO_URL)
+
+let failures = 0
+
+function check(name: string, actual: unknown, expected: unknown) {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected)
+  console.log(`${ok ? '✅' : '❌'} ${name}`, ok ? '' : { actual, expected })
+  if (!ok) failures++
+}
+
+function requestId(scenario: string, submittedAt = SUBMITTED_AT): string {
+  return `mock-${scenario}-${submittedAt}-0123abcd`
+}
+
+// 1. Prompt keywords
+const keywords: Array<[string, string]> = [
+  ['A cat surfing', 'success'],
+  ['A cat [mock:fail]', 'fail'],
+  ['[MOCK:SLOW] case-insensitive', 'slow'],
+  ['[mock:stuck]', 'stuck'],
+  ['[mock:no-video]', 'no-video'],
+  ['[mock:submit-error]', 'submit-error']
+]
+for (const [prompt, scenario] of keywords) {
+  check(`scenario of "${prompt}"`, getMockScenario(prompt), scenario)
+}
+
+// 2. Timelines: [scenario, ms after submit, expected status]
+const timelines: Array<[string, number, unknown]> = [
+  // Success (migration path): queue 2s, processing 5s, then the sample video
+  ['success', 0, { status: 'IN_QUEUE', queue_position: 0 }],
+  ['success', 1999, { status: 'IN_QUEUE', queue_position: 0 }],
+  ['success', 2000, { status: 'IN_PROGRESS', progress: 0 }],
+  ['success', 4500, { status: 'IN_PROGRESS', progress: 50 }],
+  ['success', 7000, { status: 'COMPLETED', video: { url: VIDEO_URL } }],
+
+  // Failure (refund path)
+  ['fail', 1000, { status: 'IN_QUEUE', queue_position: 0 }],
+  ['fail', 3000, { status: 'IN_PROGRESS', progress: 20 }],
+  ['fail', 7000, { status: 'FAILED', error: 'Mock provider failure ([mock:fail])' }],
+
+  // Slow: still processing long after a normal job would have finished
+  ['slow', 7000, { status: 'IN_PROGRESS', progress: 4 }],
+  ['slow', 122000, { status: 'COMPLETED', video: { url: VIDEO_URL } }],
+
+  // Stuck (timeout / hold expiry path): never finishes
+  ['stuck', 7000, { status: 'IN_PROGRESS' }],
+  ['stuck', 24 * 60 * 60 * 1000, { status: 'IN_PROGRESS' }],
+
+  // Completed without a video URL
+  ['no-video', 7000, { status: 'COMPLETED' }]
+]
+for (const [scenario, elapsed, expected] of timelines) {
+  check(`${scenario} at +${elapsed}ms`, getMockStatus(requestId(scenario), SUBMITTED_AT + elapsed), expected)
+}
+
+// 3. Results
+const completed = getMockStatus(requestId('success'), SUBMITTED_AT + 7000)
+check('result of a completed job', await mockProvider.getResult('mock', requestId('success'), completed), { videoUrl: VIDEO_URL })
+const noVideo = getMockStatus(requestId('no-video'), SUBMITTED_AT + 7000)
+check('result of a job without video', await mockProvider.getResult('mock', requestId('no-video'), noVideo), { videoUrl: null })
+
+// 4. Submit encodes the scenario; submit-error is a provider-side 503
+const submitted = await mockProvider.submit({
+  modelId: 'mock',
+  prompt: 'A cat [mock:fail]',
+  inputMode: 'text_to_video',
+  settings: { resolution: 'auto', aspect_ratio: 'auto', duration: 4 }
+})
+check('submit request id', /^mock-fail-\d+-[0-9a-f]{8}$/.test(submitted.request_id), true)
+
+try {
+  await mockProvider.submit({
+    modelId: 'mock',
+    prompt: '[mock:submit-error]',
+    inputMode: 'text_to_video',
+    settings: { resolution: 'auto', aspect_ratio: 'auto', duration: 4 }
+  })
+  check('submit-error throws', false, true)
+} catch (error) {
+  check('submit-error is a 503 ProviderError', error instanceof ProviderError && error.status === 503, true)
+}
+
+// 5. Cancel: only unfinished jobs
+check('cancel a queued job', await mockProvider.cancel('mock', requestId('success', Date.now())), true)
+check('cancel a stuck job', await mockProvider.cancel('mock', requestId('stuck', Date.now() - 60_000)), true)
+check('cancel a completed job', await mockProvider.cancel('mock', requestId('success', Date.now() - 60_000)), false)
+
+// 6. Disabled outside test environments
+Deno.env.set('MOCK_PROVIDER_ENABLED', 'false')
+try {
+  await mockProvider.getStatus('mock', requestId('success'))
+  check('disabled mock refuses', false, true)
+} catch (error) {
+  check('disabled mock refuses', error.message.includes('disabled'), true)
+}
+
+console.log(failures === 0 ? '\n🎉 All checks passed' : `\n💥 ${failures} check(s) failed`)
+Deno.exit(failures === 0 ? 0 : 1)
@@ -0,0 +1,109 @@
+/**
+ * Local fake of the Pika generation API
+ *
+ * Usage: deno run --allow-net fake-pika-api.ts [port]   (default 8793)
+ *
+ * Implements just what pika-adapter.ts uses (the contract documented in its header):
+ * - POST /v1/generate              → { video_id }
+ * - GET  /v1/videos/{id}           → video (advances one step per poll)
+ * - POST /v1/videos/{id}/cancel    → 200 while queued/pending, 409 once started
+ *
+ * Scripted by prompt:
+ * - contains "fail" → queued → processing → failed
+ * - otherwise       → queued → processing → finished with a sample MP4 URL
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+
+const SAMPLE_VIDEO_URL = 'https://storage.googleapis.com/gtv-videos-bucket/sample/ForBiggerJoyrides.mp4'
+
+interface FakeVideo {
+  id: string
+  steps: string[]
+  polls: number
+  cancelled: boolean
+}
+
+const videos = new Map<string, FakeVideo>()
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
+
+function currentStatus(video: FakeVideo): string {
+  return video.cancelled ? 'cancelled' : video.steps[Math.min(video.polls, video.steps.length - 1)]
+}
+
+const port = Number(Deno.args[0] ?? 8793)
+
+serve(async (req) => {
+  const url = new URL(req.url)
+
+  if (!req.headers.get('X-API-KEY')) {
+    return json({ error: 'X-API-KEY header required' }, 401)
+  }
+
+  // Submit
+  if (req.method === 'POST' && url.pathname === '/v1/generate') {
+    const body = await req.json()
+
+    if (!body.model || !body.promptText) {
+      return json({ error: 'model and promptText are required' }, 400)
+    }
+    if (![5, 10].includes(body.options?.duration)) {
+      return json({ error: 'options.duration must be 5 or 10' }, 400)
+    }
+    if (!['16:9', '9:16'].includes(body.options?.aspectRatio)) {
+      return json({ error: 'unsupported options.aspectRatio' }, 400)
+    }
+
+    const prompt = String(body.promptText).toLowerCase()
+    const steps = prompt.includes('fail')
+      ? ['queued', 'processing', 'failed']
+      : ['queued', 'processing', 'finished']
+
+    const id = crypto.randomUUID()
+    videos.set(id, { id, steps, polls: 0, cancelled: false })
+    console.log(`[fake-pika] ${body.image ? 'image' : 'text'}-to-video → ${id} (${steps.join(' → ')})`)
+    return json({ video_id: id })
+  }
+
+  // Cancel
+  const cancelMatch = url.pathname.match(/^\/v1\/videos\/([^/]+)\/cancel$/)
+  if (req.method === 'POST' && cancelMatch) {
+    const video = videos.get(cancelMatch[1])
+    if (!video) {
+      return json({ error: 'Video not found' }, 404)
+    }
+    if (!['queued', 'pending'].includes(currentStatus(video))) {
+      return json({ error: `Video is ${currentStatus(video)}` }, 409)
+    }
+    video.cancelled = true
+    return json({ id: video.id, status: 'cancelled' })
+  }
+
+  // Status
+  const videoMatch = url.pathname.match(/^\/v1\/videos\/([^/]+)$/)
+  if (req.method === 'GET' && videoMatch) {
+    const video = videos.get(videoMatch[1])
+    if (!video) {
+      return json({ error: 'Video not found' }, 404)
+    }
+
+    const status = currentStatus(video)
+    video.polls++
+
+    return json({
+      id: video.id,
+      status,
+      url: status === 'finished' ? SAMPLE_VIDEO_URL : undefined,
+      error: status === 'failed' ? 'Fake failure requested by prompt' : undefined,
+      progress: status === 'processing' ? 50 : undefined
+    })
+  }
+
+  return json({ error: 'Not found' }, 404)
+}, { port })
@@ -0,0 +1,84 @@
+/**
+ * Pika adapter smoke test (against fake-pika-api.ts)
+ *
+ * Usage:
+ *   deno run --allow-net fake-pika-api.ts &
+ *   PIKA_API_KEY=test PIKA_API_URL=http://localhost:8793 \
+ *     deno run --allow-net --allow-env smoke-test.ts
+ */
+
+import { pikaProvider } from '../../RendioAI/supabase/functions/_shared/pika-adapter.ts'
+import type { ProviderStatus } from '../../RendioAI/supabase/functions/_shared/video-provider.ts'
+
+const settings = { resolution: 'auto', aspect_ratio: '9:16', duration: 10 } as const
+
+let failures = 0
+
+function check(name: string, condition: boolean, detail?: unknown) {
+  console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '')
+  if (!condition) failures++
+}
+
+async function pollUntilDone(requestId: string): Promise<ProviderStatus[]> {
+  const seen: ProviderStatus[] = []
+  for (let i = 0; i < 10; i++) {
+    const status = await pikaProvider.getStatus('pika-2.2', requestId)
+    seen.push(status)
+    if (status.status === 'COMPLETED' || status.status === 'FAILED') break
+  }
+  return seen
+}
+
+// 1. Image-to-video succeeds
+const i2v = await pikaProvider.submit({
+  modelId: 'pika-2.2',
+  prompt: 'A cat surfing',
+  inputMode: 'image_to_video',
+  imageUrl: 'https://example.com/cat.jpg',
+  settings
+})
+const i2vStatuses = await pollUntilDone(i2v.request_id)
+check(
+  'image-to-video goes IN_QUEUE → IN_PROGRESS → COMPLETED',
+  i2vStatuses.map((status) => status.status).join(',') === 'IN_QUEUE,IN_PROGRESS,COMPLETED',
+  i2vStatuses.map((status) => status.status)
+)
+check('progress reported while processing', i2vStatuses[1]?.progress === 50, i2vStatuses[1])
+const i2vResult = await pikaProvider.getResult('pika-2.2', i2v.request_id, i2vStatuses.at(-1))
+check('result has a video URL', !!i2vResult.videoUrl, i2vResult.videoUrl)
+
+// 2. Text-to-video (no image)
+const t2v = await pikaProvider.submit({ modelId: 'pika-2.2', prompt: 'A sunset', inputMode: 'text_to_video', settings })
+const t2vStatuses = await pollUntilDone(t2v.request_id)
+check('text-to-video reaches COMPLETED', t2vStatuses.at(-1)?.status === 'COMPLETED', t2vStatuses.at(-1))
+
+// 3. Failure carries the provider error
+const failed = await pikaProvider.submit({ modelId: 'pika-2.2', prompt: 'please fail', inputMode: 'text_to_video', settings })
+const failedStatus = (await pollUntilDone(failed.request_id)).at(-1)
+check('failure maps to FAILED with error', failedStatus?.status === 'FAILED' && !!failedStatus.error, failedStatus)
+
+// 4. Cancel while queued
+const toCancel = await pikaProvider.submit({ modelId: 'pika-2.2', prompt: 'cancel me', inputMode: 'text_to_video', settings })
+check('cancel accepted while queued', await pikaProvider.cancel('pika-2.2', toCancel.request_id))
+const cancelledStatus = await pikaProvider.getStatus('pika-2.2', toCancel.request_id)
+check('cancelled video maps to FAILED', cancelledStatus.status === 'FAILED', cancelledStatus)
+
+// 5. Cancel refused once finished (409)
+check('cancel refused after completion', !(await pikaProvider.cancel('pika-2.2', i2v.request_id)))
+
+// 6. Unknown video
+check('cancel of unknown video refused', !(await pikaProvider.cancel('pika-2.2', 'does-not-exist')))
+
+// 7. Durations Pika doesn't render are rejected before calling Pika (no remapping)
+for (const duration of [4, 8, 12] as const) {
+  try {
+    await pikaProvider.submit({ modelId: 'pika-2.2', prompt: 'long', inputMode: 'text_to_video', settings: { ...settings, duration } })
+    check(`${duration}s rejected`, false)
+  } catch (error) {
+    check(`${duration}s rejected`, error.message.includes('does not support'), error.message)
+  }
+}
+check('describe() lists the rendered durations', JSON.stringify(pikaProvider.describe().durations) === '[5,10]')
+
+console.log(failures === 0 ? '\n🎉 All checks passed' : `\n💥 ${failures} check(s) failed`)
+Deno.exit(failures === 0 ? 0 : 1)
@@ -0,0 +1,137 @@
+/**
+ * Pricing rule evaluation test (no database)
+ *
+ * Usage:
+ *   deno run --allow-env evaluate-test.ts
+ */
+
+import {
+  evaluatePricingRule,
+  type PricingContext,
+  type PricingRule
+} from '../../RendioAI/supabase/functions/_shared/pricing-rules.ts'
+import type { FinalSettings } from '../../RendioAI/supabase/functions/_shared/video-pricing.ts'
+
+const BASE_RULE: PricingRule = {
+  id: 'rule-1',
+  model_id: 'model-1',
+  name: 'Test rule',
+  is_active: true,
+  base_price: 1,
+  per_second_price: 0,
+  resolution_multipliers: {},
+  aspect_ratio_multipliers: {},
+  tier_discounts: {},
+  promo_name: null,
+  promo_discount: null,
+  promo_starts_at: null,
+  promo_ends_at: null,
+  dollars_per_credit: 0.1,
+  minimum_credits: 1
+}
+
+const SETTINGS: FinalSettings = { resolution: 'auto', aspect_ratio: 'auto', duration: 8 }
+
+const NOW = new Date('2025-11-16T12:00:00Z')
+
+const PROMO: Partial<PricingRule> = {
+  promo_name: 'Launch week',
+  promo_discount: 0.5,
+  promo_starts_at: '2025-11-10T00:00:00Z',
+  promo_ends_at: '2025-11-17T00:00:00Z'
+}
+
+interface Case {
+  name: string
+  rule?: Partial<PricingRule>
+  settings?: Partial<FinalSettings>
+  context?: PricingContext
+  credits: number
+  dollars: number
+  pricingType?: 'per_second' | 'per_video'
+  lastStep?: string
+}
+
+const cases: Case[] = [
+  // Base / duration
+  { name: 'base price only', credits: 10, dollars: 1, pricingType: 'per_video', lastStep: 'credit_conversion' },
+  { name: 'per-second rate', rule: { base_price: 0, per_second_price: 0.1 }, credits: 8, dollars: 0.8, pricingType: 'per_second' },
+  { name: 'base + per-second', rule: { per_second_price: 0.1 }, settings: { duration: 4 }, credits: 14, dollars: 1.4, pricingType: 'per_second' },
+
+  // Multipliers
+  { name: 'resolution multiplier', rule: { resolution_multipliers: { '720p': 1.5 } }, settings: { resolution: '720p' }, credits: 15, dollars: 1.5 },
+  { name: 'resolution multiplier for another value', rule: { resolution_multipliers: { '720p': 1.5 } }, credits: 10, dollars: 1 },
+  { name: 'aspect-ratio multiplier', rule: { aspect_ratio_multipliers: { '16:9': 1.2 } }, settings: { aspect_ratio: '16:9' }, credits: 12, dollars: 1.2 },
+  {
+    name: 'both multipliers',
+    rule: { resolution_multipliers: { '720p': 1.5 }, aspect_ratio_multipliers: { '16:9': 1.2 } },
+    settings: { resolution: '720p', aspect_ratio: '16:9' },
+    credits: 18,
+    dollars: 1.8
+  },
+
+  // Tier discount
+  { name: 'tier discount', rule: { tier_discounts: { premium: 0.2 } }, context: { tier: 'premium' }, credits: 8, dollars: 0.8, lastStep: 'credit_conversion' },
+  { name: 'tier without discount', rule: { tier_discounts: { premium: 0.2 } }, context: { tier: 'free' }, credits: 10, dollars: 1 },
+  { name: 'no tier given', rule: { tier_discounts: { premium: 0.2 } }, credits: 10, dollars: 1 },
+
+  // Promotional window
+  { name: 'promo inside window', rule: PROMO, context: { now: NOW }, credits: 5, dollars: 0.5 },
+  { name: 'promo before window', rule: PROMO, context: { now: new Date('2025-11-09T23:59:59Z') }, credits: 10, dollars: 1 },
+  { name: 'promo at window end', rule: PROMO, context: { now: new Date('2025-11-17T00:00:00Z') }, credits: 10, dollars: 1 },
+  { name: 'promo without end', rule: { ...PROMO, promo_ends_at: null }, context: { now: new Date('2026-01-01T00:00:00Z') }, credits: 5, dollars: 0.5 },
+  { name: 'tier + promo stack', rule: { ...PROMO, tier_discounts: { premium: 0.2 } }, context: { tier: 'premium', now: NOW }, credits: 4, dollars: 0.4 },
+
+  // Conversion and minimum charge
+  { name: 'rule dollars_per_credit', rule: { dollars_per_credit: 0.05 }, credits: 20, dollars: 1 },
+  { name: 'minimum_credits raises the charge', rule: { base_price: 0.01, minimum_credits: 3 }, credits: 3, dollars: 0.3, lastStep: 'minimum_charge' },
+  { name: 'minimum_credits below the price', rule: { minimum_credits: 3 }, credits: 10, dollars: 1, lastStep: 'credit_conversion' },
+  { name: 'free rule', rule: { base_price: 0, minimum_credits: 0 }, credits: 0, dollars: 0 },
+
+  // Everything together: (0.5 + 0.1 × 8) × 1.5 × 1.2 × 0.8 × 0.5 = $0.936
+  {
+    name: 'all adjustments',
+    rule: {
+      ...PROMO,
+      base_price: 0.5,
+      per_second_price: 0.1,
+      resolution_multipliers: { '720p': 1.5 },
+      aspect_ratio_multipliers: { '16:9': 1.2 },
+      tier_discounts: { premium: 0.2 }
+    },
+    settings: { resolution: '720p', aspect_ratio: '16:9' },
+    context: { tier: 'premium', now: NOW },
+    credits: 9,
+    dollars: 0.936,
+    pricingType: 'per_second',
+    lastStep: 'credit_conversion'
+  }
+]
+
+let failures = 0
+
+function check(name: string, actual: unknown, expected: unknown) {
+  const ok = actual === expected
+  console.log(`${ok ? '✅' : '❌'} ${name}`, ok ? '' : { actual, expected })
+  if (!ok) failures++
+}
+
+for (const testCase of cases) {
+  const evaluation = evaluatePricingRule(
+    { ...BASE_RULE, ...testCase.rule },
+    { ...SETTINGS, ...testCase.settings },
+    testCase.context ?? { now: NOW }
+  )
+
+  check(`${testCase.name}: credits`, evaluation.credits, testCase.credits)
+  check(`${testCase.name}: dollars`, evaluation.cost_in_dollars, testCase.dollars)
+  if (testCase.pricingType) {
+    check(`${testCase.name}: pricing type`, evaluation.pricing_type, testCase.pricingType)
+  }
+  if (testCase.lastStep) {
+    check(`${testCase.name}: last step`, evaluation.steps.at(-1)?.step, testCase.lastStep)
+  }
+}
+
+console.log(failures === 0 ? '\n🎉 All checks passed' : `\n💥 ${failures} check(s) failed`)
+Deno.exit(failures === 0 ? 0 : 1)
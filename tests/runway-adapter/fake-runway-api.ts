@@ -0,0 +1,107 @@
+/**
+ * Local fake of the Runway task API
+ *
+ * Usage: deno run --allow-net fake-runway-api.ts [port]   (default 8790)
+ *
+ * Implements just what runway-adapter.ts uses:
+ * - POST   /v1/image_to_video, /v1/text_to_video → { id }
+ * - GET    /v1/tasks/{id}                        → task (advances one step per poll)
+ * - DELETE /v1/tasks/{id}                        → 204
+ *
+ * Scripted by prompt:
+ * - contains "fail"     → PENDING → RUNNING → FAILED
+ * - contains "throttle" → THROTTLED first
+ * - otherwise           → PENDING → RUNNING → SUCCEEDED with a sample MP4 URL
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+
+const SAMPLE_VIDEO_URL = 'https://storage.googleapis.com/gtv-videos-bucket/sample/ForBiggerBlazes.mp4'
+
+interface FakeTask {
+  id: string
+  steps: string[]
+  polls: number
+  cancelled: boolean
+}
+
+const tasks = new Map<string, FakeTask>()
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
+
+const port = Number(Deno.args[0] ?? 8790)
+
+serve(async (req) => {
+  const url = new URL(req.url)
+
+  if (!req.headers.get('Authorization')?.startsWith('Bearer ')) {
+    return json({ error: 'Unauthorized' }, 401)
+  }
+  if (!req.headers.get('X-Runway-Version')) {
+    return json({ error: 'X-Runway-Version header required' }, 400)
+  }
+
+  // Submit
+  if (req.method === 'POST' && (url.pathname === '/v1/image_to_video' || url.pathname === '/v1/text_to_video')) {
+    const body = await req.json()
+
+    if (url.pathname === '/v1/image_to_video' && !body.promptImage) {
+      return json({ error: 'promptImage is required' }, 400)
+    }
+    if (![5, 10].includes(body.duration)) {
+      return json({ error: 'duration must be 5 or 10' }, 400)
+    }
+    if (!['1280:720', '720:1280'].includes(body.ratio)) {
+      return json({ error: 'unsupported ratio' }, 400)
+    }
+
+    const prompt = String(body.promptText ?? '').toLowerCase()
+    const steps = prompt.includes('fail')
+      ? ['PENDING', 'RUNNING', 'FAILED']
+      : ['PENDING', 'RUNNING', 'SUCCEEDED']
+    if (prompt.includes('throttle')) {
+      steps.unshift('THROTTLED')
+    }
+
+    const id = crypto.randomUUID()
+    tasks.set(id, { id, steps, polls: 0, cancelled: false })
+    console.log(`[fake-runway] ${url.pathname} → ${id} (${steps.join(' → ')})`)
+    return json({ id })
+  }
+
+  // Tasks
+  const match = url.pathname.match(/^\/v1\/tasks\/([^/]+)$/)
+  if (match) {
+    const task = tasks.get(match[1])
+    if (!task) {
+      return json({ error: 'Task not found' }, 404)
+    }
+
+    if (req.method === 'DELETE') {
+      task.cancelled = true
+      return new Response(null, { status: 204 })
+    }
+
+    if (req.method === 'GET') {
+      const status = task.cancelled
+        ? 'CANCELLED'
+        : task.steps[Math.min(task.polls, task.steps.length - 1)]
+      task.polls++
+
+      return json({
+        id: task.id,
+        status,
+        output: status === 'SUCCEEDED' ? [SAMPLE_VIDEO_URL] : undefined,
+        failure: status === 'FAILED' ? 'Fake failure requested by prompt' : undefined,
+        progress: status === 'RUNNING' ? 0.5 : undefined
+      })
+    }
+  }
+
+  return json({ error: 'Not found' }, 404)
+}, { port })
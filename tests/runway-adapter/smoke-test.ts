@@ -0,0 +1,75 @@
+/**
+ * Runway adapter smoke test (against fake-runway-api.ts)
+ *
+ * Usage:
+ *   deno run --allow-net fake-runway-api.ts &
+ *   RUNWAY_API_KEY=test RUNWAY_API_URL=http://localhost:8790 \
+ *     deno run --allow-net --allow-env smoke-test.ts
+ */
+
+import { runwayProvider } from '../../RendioAI/supabase/functions/_shared/runway-adapter.ts'
+import type { ProviderJobStatus } from '../../RendioAI/supabase/functions/_shared/video-provider.ts'
+
+const settings = { resolution: 'auto', aspect_ratio: '9:16', duration: 10 } as const
+
+let failures = 0
+
+function check(name: string, condition: boolean, detail?: unknown) {
+  console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '')
+  if (!condition) failures++
+}
+
+async function pollUntilDone(requestId: string): Promise<ProviderJobStatus[]> {
+  const seen: ProviderJobStatus[] = []
+  for (let i = 0; i < 10; i++) {
+    const status = await runwayProvider.getStatus('gen4_turbo', requestId)
+    seen.push(status.status)
+    if (status.status === 'COMPLETED' || status.status === 'FAILED') break
+  }
+  return seen
+}
+
+// 1. Image-to-video succeeds
+const i2v = await runwayProvider.submit({
+  modelId: 'gen4_turbo',
+  prompt: 'A cat surfing',
+  inputMode: 'image_to_video',
+  imageUrl: 'https://example.com/cat.jpg',
+  settings
+})
+const i2vStatuses = await pollUntilDone(i2v.request_id)
+check('image-to-video reaches COMPLETED', i2vStatuses.at(-1) === 'COMPLETED', i2vStatuses)
+const i2vResult = await runwayProvider.getResult('gen4_turbo', i2v.request_id)
+check('result has a video URL', !!i2vResult.videoUrl, i2vResult.videoUrl)
+
+// 2. Text-to-video (no image) uses /v1/text_to_video
+const t2v = await runwayProvider.submit({ modelId: 'veo3.1', prompt: 'throttle then a sunset', inputMode: 'text_to_video', settings })
+const t2vStatuses = await pollUntilDone(t2v.request_id)
+check('text-to-video maps THROTTLED to IN_QUEUE', t2vStatuses[0] === 'IN_QUEUE', t2vStatuses)
+check('text-to-video reaches COMPLETED', t2vStatuses.at(-1) === 'COMPLETED', t2vStatuses)
+
+// 3. Failure carries the provider error
+const failed = await runwayProvider.submit({ modelId: 'veo3.1', prompt: 'please fail', inputMode: 'text_to_video', settings })
+await pollUntilDone(failed.request_id)
+const failedStatus = await runwayProvider.getStatus('veo3.1', failed.request_id)
+check('failure maps to FAILED with error', failedStatus.status === 'FAILED' && !!failedStatus.error, failedStatus)
+
+// 4. Cancel
+const toCancel = await runwayProvider.submit({ modelId: 'veo3.1', prompt: 'cancel me', inputMode: 'text_to_video', settings })
+check('cancel accepted', await runwayProvider.cancel('veo3.1', toCancel.request_id))
+const cancelledStatus = await runwayProvider.getStatus('veo3.1', toCancel.request_id)
+check('cancelled task maps to FAILED', cancelledStatus.status === 'FAILED', cancelledStatus)
+
+// 5. Durations Runway doesn't render are rejected before calling Runway (no remapping)
+for (const duration of [4, 8, 12] as const) {
+  try {
+    await runwayProvider.submit({ modelId: 'veo3.1', prompt: 'long', inputMode: 'text_to_video', settings: { ...settings, duration } })
+    check(`${duration}s rejected`, false)
+  } catch (error) {
+    check(`${duration}s rejected`, error.message.includes('does not support'), error.message)
+  }
+}
+check('describe() lists the rendered durations', JSON.stringify(runwayProvider.describe().durations) === '[5,10]')
+
+console.log(failures === 0 ? '\n🎉 All checks passed' : `\n💥 ${failures} check(s) failed`)
+Deno.exit(failures === 0 ? 0 : 1)